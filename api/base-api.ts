@@ -0,0 +1,33 @@
+import { ApiClient, apiClient } from '../utils/api-client';
+import { PaginatedResponse, PaginationParams } from './types';
+import { AxiosResponse } from 'axios';
+
+/**
+ * Base class for typed resource clients built on ApiClient
+ */
+export abstract class BaseApi {
+  protected client: ApiClient;
+
+  constructor(client: ApiClient = apiClient) {
+    this.client = client;
+  }
+
+  /**
+   * Every item of a paginated list, fetched page by page
+   */
+  protected async collectPages<T, P extends PaginationParams>(
+    fetchPage: (params: P) => Promise<AxiosResponse<PaginatedResponse<T>>>,
+    params: P
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let page = params.page ?? 1;
+    let pages = page;
+    do {
+      const response = await fetchPage({ ...params, page });
+      items.push(...response.data.data);
+      pages = response.data.pagination.pages;
+      page++;
+    } while (page <= pages);
+    return items;
+  }
+}
@@ -0,0 +1,1041 @@
+/**
+ * Sample API Server 1.0.0 client, generated by
+ * `npm run openapi:generate` from sample-apps/api-server/openapi.json; do not edit by hand.
+ */
+import { JsonSchema, SchemaViolation } from '../../utils/json-schema';
+import { AxiosResponse } from 'axios';
+import { BaseApi } from '../base-api';
+import { validateOperationResponse } from '../../utils/openapi';
+
+export interface ErrorModel {
+  error: string;
+  message?: string;
+  details?: Array<string>;
+  availableRoutes?: Array<string>;
+  timestamp?: string;
+}
+
+export interface Message {
+  message: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface Health {
+  status: string;
+  timestamp: string;
+  uptime: number;
+  version: string;
+}
+
+export interface ApiInfo {
+  message: string;
+  version: string;
+  endpoints: {
+    [key: string]: string;
+  };
+  documentation?: string;
+}
+
+export type UserRole = 'user' | 'admin';
+
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface UserInput {
+  name: string;
+  email: string;
+  role?: UserRole;
+}
+
+export interface UserList {
+  data: Array<User>;
+  pagination: Pagination;
+}
+
+export interface Product {
+  id: number;
+  name: string;
+  price: number;
+  category: string;
+  stock: number;
+  description: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ProductInput {
+  name: string;
+  price: number;
+  category: string;
+  stock?: number;
+  description?: string;
+}
+
+export type ProductList = {
+  data: Array<Product>;
+  pagination: Pagination;
+} & {
+  search: string | null;
+};
+
+export interface ProductSearchResult {
+  data: Array<Product>;
+  query: string;
+  count: number;
+}
+
+export type OrderStatus = 'pending' | 'completed' | 'cancelled';
+
+export interface Order {
+  id: number;
+  userId: number;
+  productId: number;
+  quantity: number;
+  status: OrderStatus;
+  /** Product price times quantity */
+  total: number;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface OrderInput {
+  userId: number;
+  productId: number;
+  quantity: number;
+}
+
+export interface OrderStatusUpdate {
+  status: OrderStatus;
+}
+
+export interface OrderList {
+  data: Array<Order>;
+  pagination: Pagination;
+}
+
+/**
+ * Query parameters of GET /users
+ */
+export interface ListUsersParams {
+  page?: number;
+  limit?: number;
+}
+
+export interface CreateUserResponse {
+  message: string;
+  data: User;
+}
+
+export interface GetUserResponse {
+  data: User;
+}
+
+export interface UpdateUserResponse {
+  message: string;
+  data: User;
+}
+
+/**
+ * Query parameters of GET /products
+ */
+export interface ListProductsParams {
+  page?: number;
+  limit?: number;
+  /** Matches name, description and category */
+  q?: string;
+}
+
+export interface CreateProductResponse {
+  message: string;
+  data: Product;
+}
+
+/**
+ * Query parameters of GET /products/search
+ */
+export interface SearchProductsParams {
+  q: string;
+}
+
+export interface GetProductResponse {
+  data: Product;
+}
+
+export interface UpdateProductResponse {
+  message: string;
+  data: Product;
+}
+
+/**
+ * Query parameters of GET /orders
+ */
+export interface ListOrdersParams {
+  page?: number;
+  limit?: number;
+  userId?: number;
+  status?: OrderStatus;
+}
+
+export interface CreateOrderResponse {
+  message: string;
+  data: Order;
+}
+
+export interface GetOrderResponse {
+  data: Order;
+}
+
+export interface UpdateOrderStatusResponse {
+  message: string;
+  data: Order;
+}
+
+/**
+ * Query parameters of GET /slow-endpoint
+ */
+export interface GetSlowEndpointParams {
+  /** Delay in milliseconds, default 5000 */
+  delay?: number;
+}
+
+export interface GetSlowEndpointResponse {
+  message: string;
+  delay: number;
+}
+
+export interface GetPerformanceTestResponse {
+  message: string;
+  processingTime: string;
+  timestamp: string;
+  load: number;
+}
+
+export type SampleApiOperationId =
+  | 'getHealth'
+  | 'getApiInfo'
+  | 'listUsers'
+  | 'createUser'
+  | 'getUser'
+  | 'updateUser'
+  | 'deleteUser'
+  | 'listProducts'
+  | 'createProduct'
+  | 'searchProducts'
+  | 'getProduct'
+  | 'updateProduct'
+  | 'deleteProduct'
+  | 'listOrders'
+  | 'createOrder'
+  | 'getOrder'
+  | 'deleteOrder'
+  | 'updateOrderStatus'
+  | 'simulateError'
+  | 'getSlowEndpoint'
+  | 'getPerformanceTest';
+
+const components: { schemas: Record<string, JsonSchema> } = {
+  schemas: {
+    Error: {
+      type: 'object',
+      required: ['error'],
+      properties: {
+        error: {
+          type: 'string'
+        },
+        message: {
+          type: 'string'
+        },
+        details: {
+          type: 'array',
+          items: {
+            type: 'string'
+          }
+        },
+        availableRoutes: {
+          type: 'array',
+          items: {
+            type: 'string'
+          }
+        },
+        timestamp: {
+          type: 'string',
+          format: 'date-time'
+        }
+      }
+    },
+    Message: {
+      type: 'object',
+      required: ['message'],
+      properties: {
+        message: {
+          type: 'string'
+        }
+      }
+    },
+    Pagination: {
+      type: 'object',
+      required: ['page', 'limit', 'total', 'pages'],
+      properties: {
+        page: {
+          type: 'integer'
+        },
+        limit: {
+          type: 'integer'
+        },
+        total: {
+          type: 'integer'
+        },
+        pages: {
+          type: 'integer'
+        }
+      }
+    },
+    Health: {
+      type: 'object',
+      required: ['status', 'timestamp', 'uptime', 'version'],
+      properties: {
+        status: {
+          type: 'string'
+        },
+        timestamp: {
+          type: 'string',
+          format: 'date-time'
+        },
+        uptime: {
+          type: 'number'
+        },
+        version: {
+          type: 'string'
+        }
+      }
+    },
+    ApiInfo: {
+      type: 'object',
+      required: ['message', 'version', 'endpoints'],
+      properties: {
+        message: {
+          type: 'string'
+        },
+        version: {
+          type: 'string'
+        },
+        endpoints: {
+          type: 'object',
+          additionalProperties: {
+            type: 'string'
+          }
+        },
+        documentation: {
+          type: 'string'
+        }
+      }
+    },
+    UserRole: {
+      type: 'string',
+      enum: ['user', 'admin']
+    },
+    User: {
+      type: 'object',
+      required: ['id', 'name', 'email', 'role', 'createdAt'],
+      properties: {
+        id: {
+          type: 'integer'
+        },
+        name: {
+          type: 'string'
+        },
+        email: {
+          type: 'string',
+          format: 'email'
+        },
+        role: {
+          $ref: '#/components/schemas/UserRole'
+        },
+        createdAt: {
+          type: 'string',
+          format: 'date-time'
+        },
+        updatedAt: {
+          type: 'string',
+          format: 'date-time'
+        }
+      }
+    },
+    UserInput: {
+      type: 'object',
+      required: ['name', 'email'],
+      properties: {
+        name: {
+          type: 'string',
+          minLength: 2
+        },
+        email: {
+          type: 'string',
+          format: 'email'
+        },
+        role: {
+          $ref: '#/components/schemas/UserRole'
+        }
+      }
+    },
+    UserList: {
+      type: 'object',
+      required: ['data', 'pagination'],
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            $ref: '#/components/schemas/User'
+          }
+        },
+        pagination: {
+          $ref: '#/components/schemas/Pagination'
+        }
+      }
+    },
+    Product: {
+      type: 'object',
+      required: ['id', 'name', 'price', 'category', 'stock', 'description'],
+      properties: {
+        id: {
+          type: 'integer'
+        },
+        name: {
+          type: 'string'
+        },
+        price: {
+          type: 'number'
+        },
+        category: {
+          type: 'string'
+        },
+        stock: {
+          type: 'integer'
+        },
+        description: {
+          type: 'string'
+        },
+        createdAt: {
+          type: 'string',
+          format: 'date-time'
+        },
+        updatedAt: {
+          type: 'string',
+          format: 'date-time'
+        }
+      }
+    },
+    ProductInput: {
+      type: 'object',
+      required: ['name', 'price', 'category'],
+      properties: {
+        name: {
+          type: 'string',
+          minLength: 3
+        },
+        price: {
+          type: 'number',
+          minimum: 0
+        },
+        category: {
+          type: 'string'
+        },
+        stock: {
+          type: 'integer',
+          minimum: 0
+        },
+        description: {
+          type: 'string'
+        }
+      }
+    },
+    ProductList: {
+      allOf: [
+        {
+          type: 'object',
+          required: ['data', 'pagination'],
+          properties: {
+            data: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/Product'
+              }
+            },
+            pagination: {
+              $ref: '#/components/schemas/Pagination'
+            }
+          }
+        },
+        {
+          type: 'object',
+          required: ['search'],
+          properties: {
+            search: {
+              type: 'string',
+              nullable: true
+            }
+          }
+        }
+      ]
+    },
+    ProductSearchResult: {
+      type: 'object',
+      required: ['data', 'query', 'count'],
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            $ref: '#/components/schemas/Product'
+          }
+        },
+        query: {
+          type: 'string'
+        },
+        count: {
+          type: 'integer'
+        }
+      }
+    },
+    OrderStatus: {
+      type: 'string',
+      enum: ['pending', 'completed', 'cancelled']
+    },
+    Order: {
+      type: 'object',
+      required: ['id', 'userId', 'productId', 'quantity', 'status', 'total', 'createdAt'],
+      properties: {
+        id: {
+          type: 'integer'
+        },
+        userId: {
+          type: 'integer'
+        },
+        productId: {
+          type: 'integer'
+        },
+        quantity: {
+          type: 'integer',
+          minimum: 1
+        },
+        status: {
+          $ref: '#/components/schemas/OrderStatus'
+        },
+        total: {
+          type: 'number',
+          description: 'Product price times quantity'
+        },
+        createdAt: {
+          type: 'string',
+          format: 'date-time'
+        },
+        updatedAt: {
+          type: 'string',
+          format: 'date-time'
+        }
+      }
+    },
+    OrderInput: {
+      type: 'object',
+      required: ['userId', 'productId', 'quantity'],
+      properties: {
+        userId: {
+          type: 'integer'
+        },
+        productId: {
+          type: 'integer'
+        },
+        quantity: {
+          type: 'integer',
+          minimum: 1
+        }
+      }
+    },
+    OrderStatusUpdate: {
+      type: 'object',
+      required: ['status'],
+      properties: {
+        status: {
+          $ref: '#/components/schemas/OrderStatus'
+        }
+      }
+    },
+    OrderList: {
+      type: 'object',
+      required: ['data', 'pagination'],
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            $ref: '#/components/schemas/Order'
+          }
+        },
+        pagination: {
+          $ref: '#/components/schemas/Pagination'
+        }
+      }
+    }
+  }
+};
+
+/**
+ * JSON response schema per operation and status key ('200', '4XX', 'DEFAULT')
+ */
+export const sampleApiResponseSchemas: Record<
+  SampleApiOperationId,
+  Record<string, JsonSchema | undefined>
+> = {
+  getHealth: {
+    '200': {
+      $ref: '#/components/schemas/Health'
+    }
+  },
+  getApiInfo: {
+    '200': {
+      $ref: '#/components/schemas/ApiInfo'
+    }
+  },
+  listUsers: {
+    '200': {
+      $ref: '#/components/schemas/UserList'
+    },
+    '500': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  createUser: {
+    '201': {
+      type: 'object',
+      required: ['message', 'data'],
+      properties: {
+        message: {
+          type: 'string'
+        },
+        data: {
+          $ref: '#/components/schemas/User'
+        }
+      }
+    },
+    '400': {
+      $ref: '#/components/schemas/Error'
+    },
+    '409': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  getUser: {
+    '200': {
+      type: 'object',
+      required: ['data'],
+      properties: {
+        data: {
+          $ref: '#/components/schemas/User'
+        }
+      }
+    },
+    '404': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  updateUser: {
+    '200': {
+      type: 'object',
+      required: ['message', 'data'],
+      properties: {
+        message: {
+          type: 'string'
+        },
+        data: {
+          $ref: '#/components/schemas/User'
+        }
+      }
+    },
+    '400': {
+      $ref: '#/components/schemas/Error'
+    },
+    '404': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  deleteUser: {
+    '200': {
+      $ref: '#/components/schemas/Message'
+    },
+    '404': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  listProducts: {
+    '200': {
+      $ref: '#/components/schemas/ProductList'
+    }
+  },
+  createProduct: {
+    '201': {
+      type: 'object',
+      required: ['message', 'data'],
+      properties: {
+        message: {
+          type: 'string'
+        },
+        data: {
+          $ref: '#/components/schemas/Product'
+        }
+      }
+    },
+    '400': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  searchProducts: {
+    '200': {
+      $ref: '#/components/schemas/ProductSearchResult'
+    },
+    '400': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  getProduct: {
+    '200': {
+      type: 'object',
+      required: ['data'],
+      properties: {
+        data: {
+          $ref: '#/components/schemas/Product'
+        }
+      }
+    },
+    '404': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  updateProduct: {
+    '200': {
+      type: 'object',
+      required: ['message', 'data'],
+      properties: {
+        message: {
+          type: 'string'
+        },
+        data: {
+          $ref: '#/components/schemas/Product'
+        }
+      }
+    },
+    '400': {
+      $ref: '#/components/schemas/Error'
+    },
+    '404': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  deleteProduct: {
+    '200': {
+      $ref: '#/components/schemas/Message'
+    },
+    '404': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  listOrders: {
+    '200': {
+      $ref: '#/components/schemas/OrderList'
+    }
+  },
+  createOrder: {
+    '201': {
+      type: 'object',
+      required: ['message', 'data'],
+      properties: {
+        message: {
+          type: 'string'
+        },
+        data: {
+          $ref: '#/components/schemas/Order'
+        }
+      }
+    },
+    '400': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  getOrder: {
+    '200': {
+      type: 'object',
+      required: ['data'],
+      properties: {
+        data: {
+          $ref: '#/components/schemas/Order'
+        }
+      }
+    },
+    '404': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  deleteOrder: {
+    '200': {
+      $ref: '#/components/schemas/Message'
+    },
+    '404': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  updateOrderStatus: {
+    '200': {
+      type: 'object',
+      required: ['message', 'data'],
+      properties: {
+        message: {
+          type: 'string'
+        },
+        data: {
+          $ref: '#/components/schemas/Order'
+        }
+      }
+    },
+    '400': {
+      $ref: '#/components/schemas/Error'
+    },
+    '404': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  simulateError: {
+    '4XX': {
+      $ref: '#/components/schemas/Error'
+    },
+    '5XX': {
+      $ref: '#/components/schemas/Error'
+    }
+  },
+  getSlowEndpoint: {
+    '200': {
+      type: 'object',
+      required: ['message', 'delay'],
+      properties: {
+        message: {
+          type: 'string'
+        },
+        delay: {
+          type: 'integer'
+        }
+      }
+    }
+  },
+  getPerformanceTest: {
+    '200': {
+      type: 'object',
+      required: ['message', 'processingTime', 'timestamp', 'load'],
+      properties: {
+        message: {
+          type: 'string'
+        },
+        processingTime: {
+          type: 'string',
+          pattern: '^\\d+ms$'
+        },
+        timestamp: {
+          type: 'string',
+          format: 'date-time'
+        },
+        load: {
+          type: 'number',
+          minimum: 0,
+          maximum: 100
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Violations of a response body against the schema its operation declares for the status
+ */
+export function validateSampleApiResponse(
+  operationId: SampleApiOperationId,
+  status: number,
+  body: unknown
+): SchemaViolation[] {
+  return validateOperationResponse(
+    operationId,
+    sampleApiResponseSchemas[operationId],
+    status,
+    body,
+    { components }
+  );
+}
+
+export class SampleApi extends BaseApi {
+  /**
+   * Health check
+   */
+  async getHealth(): Promise<AxiosResponse<Health>> {
+    return this.client.get<Health>('/health');
+  }
+
+  /**
+   * API information and endpoint index
+   */
+  async getApiInfo(): Promise<AxiosResponse<ApiInfo>> {
+    return this.client.get<ApiInfo>('/');
+  }
+
+  /**
+   * List users
+   */
+  async listUsers(params: ListUsersParams = {}): Promise<AxiosResponse<UserList>> {
+    return this.client.get<UserList>('/users', { params });
+  }
+
+  /**
+   * Create a user
+   */
+  async createUser(body: UserInput): Promise<AxiosResponse<CreateUserResponse>> {
+    return this.client.post<CreateUserResponse>('/users', body);
+  }
+
+  /**
+   * Get a user by id
+   */
+  async getUser(id: number): Promise<AxiosResponse<GetUserResponse>> {
+    return this.client.get<GetUserResponse>(`/users/${encodeURIComponent(String(id))}`);
+  }
+
+  /**
+   * Replace a user's name, email and role
+   */
+  async updateUser(id: number, body: UserInput): Promise<AxiosResponse<UpdateUserResponse>> {
+    return this.client.put<UpdateUserResponse>(`/users/${encodeURIComponent(String(id))}`, body);
+  }
+
+  /**
+   * Delete a user
+   */
+  async deleteUser(id: number): Promise<AxiosResponse<Message>> {
+    return this.client.delete<Message>(`/users/${encodeURIComponent(String(id))}`);
+  }
+
+  /**
+   * List products, optionally filtered
+   */
+  async listProducts(params: ListProductsParams = {}): Promise<AxiosResponse<ProductList>> {
+    return this.client.get<ProductList>('/products', { params });
+  }
+
+  /**
+   * Create a product
+   */
+  async createProduct(body: ProductInput): Promise<AxiosResponse<CreateProductResponse>> {
+    return this.client.post<CreateProductResponse>('/products', body);
+  }
+
+  /**
+   * Search products
+   */
+  async searchProducts(params: SearchProductsParams): Promise<AxiosResponse<ProductSearchResult>> {
+    return this.client.get<ProductSearchResult>('/products/search', { params });
+  }
+
+  /**
+   * Get a product by id
+   */
+  async getProduct(id: number): Promise<AxiosResponse<GetProductResponse>> {
+    return this.client.get<GetProductResponse>(`/products/${encodeURIComponent(String(id))}`);
+  }
+
+  /**
+   * Replace a product
+   */
+  async updateProduct(
+    id: number,
+    body: ProductInput
+  ): Promise<AxiosResponse<UpdateProductResponse>> {
+    return this.client.put<UpdateProductResponse>(
+      `/products/${encodeURIComponent(String(id))}`,
+      body
+    );
+  }
+
+  /**
+   * Delete a product
+   */
+  async deleteProduct(id: number): Promise<AxiosResponse<Message>> {
+    return this.client.delete<Message>(`/products/${encodeURIComponent(String(id))}`);
+  }
+
+  /**
+   * List orders
+   */
+  async listOrders(params: ListOrdersParams = {}): Promise<AxiosResponse<OrderList>> {
+    return this.client.get<OrderList>('/orders', { params });
+  }
+
+  /**
+   * Place a pending order priced from the product
+   */
+  async createOrder(body: OrderInput): Promise<AxiosResponse<CreateOrderResponse>> {
+    return this.client.post<CreateOrderResponse>('/orders', body);
+  }
+
+  /**
+   * Get an order by id
+   */
+  async getOrder(id: number): Promise<AxiosResponse<GetOrderResponse>> {
+    return this.client.get<GetOrderResponse>(`/orders/${encodeURIComponent(String(id))}`);
+  }
+
+  /**
+   * Delete an order
+   */
+  async deleteOrder(id: number): Promise<AxiosResponse<Message>> {
+    return this.client.delete<Message>(`/orders/${encodeURIComponent(String(id))}`);
+  }
+
+  /**
+   * Change an order's status
+   */
+  async updateOrderStatus(
+    id: number,
+    body: OrderStatusUpdate
+  ): Promise<AxiosResponse<UpdateOrderStatusResponse>> {
+    return this.client.patch<UpdateOrderStatusResponse>(
+      `/orders/${encodeURIComponent(String(id))}`,
+      body
+    );
+  }
+
+  /**
+   * Always fails with the given status
+   */
+  async simulateError(status: 401 | 404 | 500): Promise<AxiosResponse<unknown>> {
+    return this.client.get<unknown>(`/error/${encodeURIComponent(String(status))}`);
+  }
+
+  /**
+   * Answer after a delay
+   */
+  async getSlowEndpoint(
+    params: GetSlowEndpointParams = {}
+  ): Promise<AxiosResponse<GetSlowEndpointResponse>> {
+    return this.client.get<GetSlowEndpointResponse>('/slow-endpoint', { params });
+  }
+
+  /**
+   * Fixed-cost endpoint for load tests
+   */
+  async getPerformanceTest(): Promise<AxiosResponse<GetPerformanceTestResponse>> {
+    return this.client.get<GetPerformanceTestResponse>('/performance-test');
+  }
+}
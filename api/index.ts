@@ -0,0 +1,6 @@
+export * from './types';
+export { BaseApi } from './base-api';
+export { OrdersApi } from './orders-api';
+export { ProductsApi } from './products-api';
+export { SystemApi } from './system-api';
+export { UsersApi } from './users-api';
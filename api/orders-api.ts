@@ -0,0 +1,53 @@
+import {
+  CreateOrderRequest,
+  DataResponse,
+  MessageResponse,
+  MutationResponse,
+  Order,
+  OrderListParams,
+  PaginatedResponse,
+  UpdateOrderRequest
+} from './types';
+import { AxiosResponse } from 'axios';
+import { BaseApi } from './base-api';
+
+/**
+ * Typed client for /orders
+ */
+export class OrdersApi extends BaseApi {
+  /**
+   * Paginated orders, optionally filtered by user and status
+   */
+  async list(params: OrderListParams = {}): Promise<AxiosResponse<PaginatedResponse<Order>>> {
+    return this.client.get<PaginatedResponse<Order>>('/orders', { params });
+  }
+
+  /**
+   * Every order across all pages
+   */
+  async listAll(params: OrderListParams = {}): Promise<Order[]> {
+    return this.collectPages(page => this.list(page), params);
+  }
+
+  async get(id: number): Promise<AxiosResponse<DataResponse<Order>>> {
+    return this.client.get<DataResponse<Order>>(`/orders/${id}`);
+  }
+
+  /**
+   * Place a pending order; the server computes the total from the product price
+   */
+  async create(order: CreateOrderRequest): Promise<AxiosResponse<MutationResponse<Order>>> {
+    return this.client.post<MutationResponse<Order>>('/orders', order);
+  }
+
+  async updateStatus(
+    id: number,
+    update: UpdateOrderRequest
+  ): Promise<AxiosResponse<MutationResponse<Order>>> {
+    return this.client.patch<MutationResponse<Order>>(`/orders/${id}`, update);
+  }
+
+  async delete(id: number): Promise<AxiosResponse<MessageResponse>> {
+    return this.client.delete<MessageResponse>(`/orders/${id}`);
+  }
+}
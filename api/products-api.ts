@@ -0,0 +1,58 @@
+import {
+  CreateProductRequest,
+  DataResponse,
+  MessageResponse,
+  MutationResponse,
+  Product,
+  ProductListParams,
+  ProductListResponse,
+  ProductSearchResponse,
+  UpdateProductRequest
+} from './types';
+import { AxiosResponse } from 'axios';
+import { BaseApi } from './base-api';
+
+/**
+ * Typed client for /products
+ */
+export class ProductsApi extends BaseApi {
+  /**
+   * Paginated products, filtered by `q` when given
+   */
+  async list(params: ProductListParams = {}): Promise<AxiosResponse<ProductListResponse>> {
+    return this.client.get<ProductListResponse>('/products', { params });
+  }
+
+  /**
+   * Every product across all pages
+   */
+  async listAll(params: ProductListParams = {}): Promise<Product[]> {
+    return this.collectPages(page => this.list(page), params);
+  }
+
+  /**
+   * Unpaginated search; the server answers 400 for an empty query
+   */
+  async search(query: string): Promise<AxiosResponse<ProductSearchResponse>> {
+    return this.client.get<ProductSearchResponse>('/products/search', { params: { q: query } });
+  }
+
+  async get(id: number): Promise<AxiosResponse<DataResponse<Product>>> {
+    return this.client.get<DataResponse<Product>>(`/products/${id}`);
+  }
+
+  async create(product: CreateProductRequest): Promise<AxiosResponse<MutationResponse<Product>>> {
+    return this.client.post<MutationResponse<Product>>('/products', product);
+  }
+
+  async update(
+    id: number,
+    product: UpdateProductRequest
+  ): Promise<AxiosResponse<MutationResponse<Product>>> {
+    return this.client.put<MutationResponse<Product>>(`/products/${id}`, product);
+  }
+
+  async delete(id: number): Promise<AxiosResponse<MessageResponse>> {
+    return this.client.delete<MessageResponse>(`/products/${id}`);
+  }
+}
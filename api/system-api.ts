@@ -0,0 +1,47 @@
+import {
+  ApiInfoResponse,
+  HealthResponse,
+  PerformanceTestResponse,
+  SimulatedErrorStatus,
+  SlowEndpointResponse
+} from './types';
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { BaseApi } from './base-api';
+
+/**
+ * Typed client for the server's health, info and test endpoints
+ */
+export class SystemApi extends BaseApi {
+  async health(): Promise<AxiosResponse<HealthResponse>> {
+    return this.client.get<HealthResponse>('/health');
+  }
+
+  async info(): Promise<AxiosResponse<ApiInfoResponse>> {
+    return this.client.get<ApiInfoResponse>('/');
+  }
+
+  /**
+   * Always rejects with the given status, so it is never retried
+   */
+  async simulateError(status: SimulatedErrorStatus): Promise<never> {
+    await this.client.get(`/error/${status}`, { retry: false });
+    throw new Error(`Expected /error/${status} to fail`);
+  }
+
+  /**
+   * Answer after `delay` ms (server default 5000); pass `timeout` to provoke a client timeout
+   */
+  async slow(
+    delay?: number,
+    options: Pick<AxiosRequestConfig, 'timeout'> = {}
+  ): Promise<AxiosResponse<SlowEndpointResponse>> {
+    return this.client.get<SlowEndpointResponse>('/slow-endpoint', {
+      ...options,
+      params: { delay }
+    });
+  }
+
+  async performanceTest(): Promise<AxiosResponse<PerformanceTestResponse>> {
+    return this.client.get<PerformanceTestResponse>('/performance-test');
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Request and response shapes of the sample API server (sample-apps/api-server)
+ */
+
+export interface PaginationParams {
+  page?: number;
+  limit?: number;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+/**
+ * List endpoints answer `{ data, pagination }`
+ */
+export interface PaginatedResponse<T> {
+  data: T[];
+  pagination: Pagination;
+}
+
+/**
+ * Single resource lookups answer `{ data }`
+ */
+export interface DataResponse<T> {
+  data: T;
+}
+
+/**
+ * Create and update endpoints answer `{ message, data }`
+ */
+export interface MutationResponse<T> {
+  message: string;
+  data: T;
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
+/**
+ * Error body; validation failures list the broken rules in `details`
+ */
+export interface ErrorResponse {
+  error: string;
+  message?: string;
+  details?: string[];
+  availableRoutes?: string[];
+}
+
+// Users
+
+export type UserRole = 'user' | 'admin';
+
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateUserRequest {
+  name: string;
+  email: string;
+  role?: UserRole;
+}
+
+/**
+ * PUT validates the whole user, so name and email are required
+ */
+export type UpdateUserRequest = CreateUserRequest;
+
+// Products
+
+export interface Product {
+  id: number;
+  name: string;
+  price: number;
+  category: string;
+  stock: number;
+  description: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ProductListParams extends PaginationParams {
+  /** Matches name, description and category, case-insensitive */
+  q?: string;
+}
+
+export interface ProductListResponse extends PaginatedResponse<Product> {
+  search: string | null;
+}
+
+export interface ProductSearchResponse {
+  data: Product[];
+  query: string;
+  count: number;
+}
+
+export interface CreateProductRequest {
+  name: string;
+  price: number;
+  category: string;
+  stock?: number;
+  description?: string;
+}
+
+/**
+ * PUT validates the whole product and re-parses stock, so it is required
+ */
+export interface UpdateProductRequest extends CreateProductRequest {
+  stock: number;
+}
+
+// Orders
+
+export type OrderStatus = 'pending' | 'completed' | 'cancelled';
+
+export interface Order {
+  id: number;
+  userId: number;
+  productId: number;
+  quantity: number;
+  status: OrderStatus;
+  /** Product price times quantity, computed by the server */
+  total: number;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface OrderListParams extends PaginationParams {
+  userId?: number;
+  status?: OrderStatus;
+}
+
+export interface CreateOrderRequest {
+  userId: number;
+  productId: number;
+  quantity: number;
+}
+
+export interface UpdateOrderRequest {
+  status: OrderStatus;
+}
+
+// System
+
+export interface HealthResponse {
+  status: string;
+  timestamp: string;
+  uptime: number;
+  version: string;
+}
+
+export interface ApiInfoResponse {
+  message: string;
+  version: string;
+  endpoints: Record<string, string>;
+  documentation: string;
+}
+
+export type SimulatedErrorStatus = 401 | 404 | 500;
+
+export interface SlowEndpointResponse {
+  message: string;
+  delay: number;
+}
+
+export interface PerformanceTestResponse {
+  message: string;
+  /** Formatted as e.g. "101ms" */
+  processingTime: string;
+  timestamp: string;
+  load: number;
+}
@@ -0,0 +1,44 @@
+import {
+  CreateUserRequest,
+  DataResponse,
+  MessageResponse,
+  MutationResponse,
+  PaginatedResponse,
+  PaginationParams,
+  UpdateUserRequest,
+  User
+} from './types';
+import { AxiosResponse } from 'axios';
+import { BaseApi } from './base-api';
+
+/**
+ * Typed client for /users
+ */
+export class UsersApi extends BaseApi {
+  async list(params: PaginationParams = {}): Promise<AxiosResponse<PaginatedResponse<User>>> {
+    return this.client.get<PaginatedResponse<User>>('/users', { params });
+  }
+
+  /**
+   * Every user across all pages
+   */
+  async listAll(params: PaginationParams = {}): Promise<User[]> {
+    return this.collectPages(page => this.list(page), params);
+  }
+
+  async get(id: number): Promise<AxiosResponse<DataResponse<User>>> {
+    return this.client.get<DataResponse<User>>(`/users/${id}`);
+  }
+
+  async create(user: CreateUserRequest): Promise<AxiosResponse<MutationResponse<User>>> {
+    return this.client.post<MutationResponse<User>>('/users', user);
+  }
+
+  async update(id: number, user: UpdateUserRequest): Promise<AxiosResponse<MutationResponse<User>>> {
+    return this.client.put<MutationResponse<User>>(`/users/${id}`, user);
+  }
+
+  async delete(id: number): Promise<AxiosResponse<MessageResponse>> {
+    return this.client.delete<MessageResponse>(`/users/${id}`);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Provider states of the sample API server, set up by `npm run contract:verify` before the
+ * interactions that were recorded under them. The server keeps its data in memory and has
+ * no way to create a record with a given id, so states that need one check it is there.
+ */
+import { ApiClient } from '../utils/api-client';
+import { ProviderStateHandlers } from '../utils/contracts';
+import { UsersApi } from '../api';
+
+async function expectRecord(client: ApiClient, resource: string, id: unknown): Promise<void> {
+  const response = await client.request({
+    method: 'get',
+    url: `/${resource}/${id}`,
+    validateStatus: () => true
+  });
+  if (response.status !== 200) {
+    throw new Error(`${resource} ${id} does not exist on the provider (HTTP ${response.status})`);
+  }
+}
+
+export const providerStates: ProviderStateHandlers = {
+  'a user exists': async ({ id }, client) => expectRecord(client, 'users', id),
+
+  'no user exists': async ({ id }, client) => {
+    await client.request({ method: 'delete', url: `/users/${id}`, validateStatus: () => true });
+  },
+
+  // Creating a user fails with 409 while one has its email, e.g. from the run that recorded it
+  'no user has the email': async ({ email }, client) => {
+    const usersApi = new UsersApi(client);
+    const users = await usersApi.listAll({ limit: 100 });
+    for (const user of users.filter(candidate => candidate.email === email)) {
+      await usersApi.delete(user.id);
+    }
+  },
+
+  'a product exists': async ({ id }, client) => expectRecord(client, 'products', id)
+};
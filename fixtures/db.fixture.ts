@@ -0,0 +1,44 @@
+import { DbClient } from '../utils/db-client';
+import { test as base } from './mock-api.fixture';
+import { config } from '../utils/config';
+import fs from 'fs';
+
+/**
+ * Test with a `db` fixture when a database is configured (DB_DRIVER): one connection per
+ * worker, and each test runs inside a transaction that is rolled back afterwards. Writes made
+ * by the application under test go through its own connections and are not rolled back.
+ */
+export const test = base.extend<{ db: DbClient }, { dbConnection: DbClient | undefined }>({
+  dbConnection: [
+    // Depends on activateTarget so a target profile's database settings are used
+    async ({ activateTarget: _activateTarget }, use) => {
+      const { driver, seedDir } = config.getDatabaseConfig();
+      if (!driver) {
+        await use(undefined);
+        return;
+      }
+      const db = await DbClient.connect();
+      try {
+        // Shared databases are seeded once by global setup; in-memory ones by each worker
+        if (!db.shared && fs.existsSync(seedDir)) {
+          await db.seed();
+        }
+        await use(db);
+      } finally {
+        await db.close();
+      }
+    },
+    { scope: 'worker' }
+  ],
+
+  db: async ({ dbConnection }, use, testInfo) => {
+    testInfo.skip(!dbConnection, 'requires a database (DB_DRIVER)');
+    const db = dbConnection as DbClient;
+    await db.begin();
+    try {
+      await use(db);
+    } finally {
+      await db.rollback();
+    }
+  }
+});
@@ -0,0 +1,41 @@
+import { FeatureFlagManager, FeatureFlags } from '../utils/feature-flags';
+import { test as base } from './guard.fixture';
+
+/**
+ * Test with the active environment's feature flags resolved once per worker
+ */
+export const test = base.extend<object, { featureFlags: FeatureFlags }>({
+  featureFlags: [
+    // Depends on activateTarget so the target profile's flags are applied
+    async ({ activateTarget: _activateTarget }, use) => {
+      FeatureFlagManager.reset();
+      await use(await FeatureFlagManager.load());
+    },
+    { scope: 'worker', auto: true }
+  ]
+});
+
+/**
+ * Skip the current test unless `name` is on (or off, to assert the flag-off behavior).
+ * Call at the start of a test or from a beforeEach hook.
+ */
+export function requiresFlag(name: string, enabled: boolean = true): void {
+  const actual = FeatureFlagManager.isEnabled(name);
+  test.info().annotations.push({
+    type: 'feature-flag',
+    description: `${name}=${actual ? 'on' : 'off'}`
+  });
+  test.skip(actual !== enabled, `requires feature flag ${name} to be ${enabled ? 'on' : 'off'}`);
+}
+
+/**
+ * Pick the variant (e.g. a page object) matching a flag's state
+ */
+export function flagVariant<T>(name: string, variants: { on: () => T; off: () => T }): T {
+  const enabled = FeatureFlagManager.isEnabled(name);
+  test.info().annotations.push({
+    type: 'feature-flag',
+    description: `${name}=${enabled ? 'on' : 'off'}`
+  });
+  return enabled ? variants.on() : variants.off();
+}
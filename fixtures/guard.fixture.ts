@@ -0,0 +1,24 @@
+import { ProductionGuard } from '../utils/production-guard';
+import { test as base } from './target.fixture';
+
+/**
+ * Test whose @destructive / @readonly tags are enforced by ProductionGuard:
+ * destructive tests are skipped in production and mutating ApiClient calls from
+ * readonly tests fail
+ */
+export const test = base.extend<{ productionGuard: void }>({
+  productionGuard: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use, testInfo) => {
+      const kind = ProductionGuard.scopeKindOf(testInfo.title, testInfo.tags);
+      const refusal = ProductionGuard.enterTest(testInfo.titlePath.join(' › '), kind);
+      testInfo.skip(refusal !== undefined, refusal);
+      try {
+        await use();
+      } finally {
+        ProductionGuard.exitTest();
+      }
+    },
+    { auto: true }
+  ]
+});
@@ -0,0 +1,195 @@
+import { Config, config as frameworkConfig } from '../utils/config';
+import { DEFAULT_CHAOS_RULES, NetworkChaos } from '../utils/network-chaos';
+import { OrdersApi, ProductsApi, SystemApi, UsersApi } from '../api';
+import { TestCredentials, TestDataManager } from '../utils/test-data-manager';
+import { flagVariant, requiresFlag } from './flag.fixture';
+import { ApiClient } from '../utils/api-client';
+import { AuthManager } from '../utils/auth-manager';
+import { Cassette } from '../utils/vcr';
+import { ContractRecorder } from '../utils/contracts';
+import { DashboardPage } from '../pages/dashboard-page';
+import { GraphQLClient } from '../utils/graphql-client';
+import { LoginPage } from '../pages/login-page';
+import { Page } from '@playwright/test';
+import { TestHar } from '../utils/har';
+import { test as dbTest } from './db.fixture';
+import { logger } from '../utils/logger';
+
+/**
+ * Fixtures available to every spec importing `test` from here
+ */
+export interface FrameworkOptions {
+  /** Start the test logged in as this role, e.g. test.use({ role: 'admin' }) */
+  role: string | undefined;
+}
+
+export interface FrameworkFixtures {
+  loginPage: LoginPage;
+  dashboardPage: DashboardPage;
+  apiClient: ApiClient;
+  /** Consumer contract of the test's apiClient calls; given() declares provider states */
+  contract: ContractRecorder;
+  /** Typed resource clients sharing the test's apiClient */
+  usersApi: UsersApi;
+  productsApi: ProductsApi;
+  ordersApi: OrdersApi;
+  systemApi: SystemApi;
+  /** GraphQL client on the test's apiClient, for api.graphql.endpoint */
+  graphql: GraphQLClient;
+  /** Credentials and reference data for the active target */
+  testData: TestCredentials;
+  config: Config;
+  /**
+   * Seeded network faults for the test's browser context; on from the start with CHAOS=true,
+   * and the applied faults are reported
+   */
+  networkChaos: NetworkChaos;
+  /** The test's HAR when HAR_MODE records or replays one */
+  har: TestHar | undefined;
+  /** Screenshot of the page attached to the report when the test fails */
+  failureArtifacts: Page;
+  testLifecycle: void;
+}
+
+/**
+ * Framework test: target profile, production guard, feature flags, mock API and database,
+ * plus typed page objects, API client and test data with start/end logging built in
+ */
+export const test = dbTest.extend<FrameworkOptions & FrameworkFixtures>({
+  role: [undefined, { option: true }],
+
+  // Must not depend on `browser`: every test resolves storageState, API-only ones included
+  storageState: async ({ role, storageState, playwright, browserName, launchOptions }, use) => {
+    const launchBrowser = () => playwright[browserName].launch(launchOptions);
+    await use(role ? await AuthManager.getStorageState(role, { launchBrowser }) : storageState);
+  },
+
+  testLifecycle: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use, testInfo) => {
+      const startedAt = Date.now();
+      logger.testStart(testInfo.title, testInfo.file);
+      await use();
+      logger.testEnd(
+        testInfo.title,
+        testInfo.status === 'timedOut' || testInfo.status === 'interrupted'
+          ? 'failed'
+          : testInfo.status ?? 'passed',
+        Date.now() - startedAt
+      );
+    },
+    { auto: true }
+  ],
+
+  // eslint-disable-next-line no-empty-pattern
+  networkChaos: async ({}, use, testInfo) => {
+    const { enabled, seed, rules } = frameworkConfig.getTestConfig().chaos;
+    const chaos = new NetworkChaos(seed);
+    if (enabled) {
+      await chaos.add(...(rules ? NetworkChaos.loadRules(rules) : DEFAULT_CHAOS_RULES));
+    }
+    await use(chaos);
+    await chaos.report(testInfo);
+  },
+
+  // eslint-disable-next-line no-empty-pattern
+  har: async ({}, use, testInfo) => {
+    const har = TestHar.forTest(testInfo);
+    await use(har);
+    // After the context closed, so a recording is complete
+    await har?.finish(testInfo);
+  },
+
+  contextOptions: async ({ contextOptions, har }, use) => {
+    await use({ ...contextOptions, ...har?.contextOptions() });
+  },
+
+  // Every browser test runs through networkChaos, which does nothing until it has rules;
+  // chaos is routed after a replayed HAR so it applies to the replayed responses too
+  context: async ({ context, har, networkChaos }, use) => {
+    await har?.attach(context);
+    await networkChaos.attach(context);
+    await use(context);
+  },
+
+  failureArtifacts: async ({ page }, use, testInfo) => {
+    await use(page);
+    if (testInfo.status === testInfo.expectedStatus || page.isClosed()) {
+      return;
+    }
+    const safeTitle = testInfo.title.replace(/[^\w-]+/g, '_');
+    const screenshotPath = `test-results/screenshots/${safeTitle}-${Date.now()}.png`;
+    try {
+      await page.screenshot({ path: screenshotPath, fullPage: true });
+      await testInfo.attach('failure-screenshot', { path: screenshotPath, contentType: 'image/png' });
+      logger.screenshot(screenshotPath, `Test failed: ${testInfo.title} (${page.url()})`);
+    } catch (error) {
+      logger.warn(`Failed to capture failure screenshot for ${testInfo.title}`, error as Error);
+    }
+  },
+
+  loginPage: async ({ failureArtifacts }, use) => {
+    await use(new LoginPage(failureArtifacts));
+  },
+
+  dashboardPage: async ({ failureArtifacts }, use) => {
+    await use(new DashboardPage(failureArtifacts));
+  },
+
+  // eslint-disable-next-line no-empty-pattern
+  contract: async ({}, use, testInfo) => {
+    const contract = ContractRecorder.forTest(testInfo);
+    await use(contract);
+    if (testInfo.status === testInfo.expectedStatus) {
+      await contract.save();
+    }
+  },
+
+  apiClient: async ({ contract }, use, testInfo) => {
+    const apiClient = new ApiClient();
+    apiClient.useContract(contract);
+    const cassette = Cassette.forTest(testInfo);
+    if (cassette) {
+      // Generated request bodies must match between recording and replay
+      TestDataManager.seed(cassette.name);
+      apiClient.useCassette(cassette);
+    }
+    await use(apiClient);
+    if (cassette && testInfo.status === testInfo.expectedStatus) {
+      cassette.save();
+    }
+  },
+
+  usersApi: async ({ apiClient }, use) => {
+    await use(new UsersApi(apiClient));
+  },
+
+  productsApi: async ({ apiClient }, use) => {
+    await use(new ProductsApi(apiClient));
+  },
+
+  ordersApi: async ({ apiClient }, use) => {
+    await use(new OrdersApi(apiClient));
+  },
+
+  systemApi: async ({ apiClient }, use) => {
+    await use(new SystemApi(apiClient));
+  },
+
+  graphql: async ({ apiClient }, use) => {
+    await use(new GraphQLClient(apiClient));
+  },
+
+  // eslint-disable-next-line no-empty-pattern
+  testData: async ({}, use) => {
+    await use(await TestDataManager.loadJsonData(frameworkConfig.getCredentialsFile()));
+  },
+
+  // eslint-disable-next-line no-empty-pattern
+  config: async ({}, use) => {
+    await use(frameworkConfig);
+  }
+});
+
+export { expect } from './matchers';
+export { flagVariant, requiresFlag };
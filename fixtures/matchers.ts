@@ -0,0 +1,73 @@
+import { APIResponse, expect as baseExpect } from '@playwright/test';
+import {
+  JsonSchemaDefinition,
+  SchemaValidationOptions,
+  SchemaViolation,
+  validateJsonSchema
+} from '../utils/json-schema';
+import { AxiosResponse } from 'axios';
+
+function isAxiosResponse(value: unknown): value is AxiosResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'data' in value &&
+    'status' in value &&
+    'config' in value
+  );
+}
+
+function isApiResponse(value: unknown): value is APIResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as APIResponse).json === 'function' &&
+    typeof (value as APIResponse).status === 'function'
+  );
+}
+
+/**
+ * Body of an ApiClient (axios) or Playwright request response; anything else is the data itself
+ */
+async function bodyOf(received: unknown): Promise<unknown> {
+  if (isAxiosResponse(received)) {
+    return received.data;
+  }
+  if (isApiResponse(received)) {
+    return received.json();
+  }
+  return received;
+}
+
+function formatViolations(violations: SchemaViolation[]): string {
+  return violations
+    .map(({ pointer, message, schemaPath }) => `  - ${pointer || '/'}: ${message} (#${schemaPath})`)
+    .join('\n');
+}
+
+/**
+ * Playwright `expect` with the framework's custom matchers:
+ *
+ *   await expect(response).toMatchSchema(userSchema);
+ */
+export const expect = baseExpect.extend({
+  async toMatchSchema(
+    received: unknown,
+    schema: JsonSchemaDefinition,
+    options: SchemaValidationOptions = {}
+  ) {
+    const name = 'toMatchSchema';
+    const violations = validateJsonSchema(schema, await bodyOf(received), options);
+    const pass = violations.length === 0;
+
+    const message = () =>
+      this.utils.matcherHint(name, undefined, undefined, { isNot: this.isNot }) +
+      '\n\n' +
+      (pass
+        ? 'Expected the response not to match the schema, but it did'
+        : `Expected the response to match the schema, but found ${violations.length} ` +
+          `violation(s):\n${formatViolations(violations)}`);
+
+    return { name, pass, message, expected: schema, actual: violations };
+  }
+});
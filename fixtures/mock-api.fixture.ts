@@ -0,0 +1,59 @@
+import { MockApiServer } from '../utils/mock-api-server';
+import { test as base } from './flag.fixture';
+import { config } from '../utils/config';
+
+/**
+ * Test with a mock API server per worker when api.mock.enabled (MOCK_API=true); Config's
+ * urls.api points at it, so ApiClient and the resource clients run without a real server
+ */
+export const test = base.extend<
+  { mockApi: MockApiServer },
+  { mockApiServer: MockApiServer | undefined }
+>({
+  mockApiServer: [
+    // Depends on activateTarget so a target profile's urls.api is the one replaced
+    async ({ activateTarget: _activateTarget }, use, workerInfo) => {
+      const { enabled, port, setup, seed } = config.getApiConfig().mock;
+      if (!enabled) {
+        await use(undefined);
+        return;
+      }
+      const server = await MockApiServer.start(MockApiServer.loadSetup(setup), {
+        port: port === 0 ? 0 : port + workerInfo.parallelIndex,
+        seed
+      });
+      config.override({ urls: { api: server.url } });
+      try {
+        await use(server);
+      } finally {
+        await server.stop();
+      }
+    },
+    { scope: 'worker', auto: true }
+  ],
+
+  /**
+   * The worker's mock, reset around the test so its routes, data and journal start over (tests
+   * without this fixture reach it through urls.api too); without MOCK_API a server of its own,
+   * which the test points its clients at via mockApi.url
+   */
+  mockApi: async ({ mockApiServer }, use, testInfo) => {
+    const { setup, seed } = config.getApiConfig().mock;
+    const server =
+      mockApiServer ?? (await MockApiServer.start(MockApiServer.loadSetup(setup), { seed }));
+    try {
+      if (server === mockApiServer) {
+        await server.reset();
+      }
+      await use(server);
+    } finally {
+      if (testInfo.status !== testInfo.expectedStatus) {
+        await testInfo.attach('mock-api-requests', {
+          body: JSON.stringify(server.journal, null, 2),
+          contentType: 'application/json'
+        });
+      }
+      await (server === mockApiServer ? server.reset() : server.stop());
+    }
+  }
+});
@@ -0,0 +1,55 @@
+import { PlaywrightTestProject, test as base } from '@playwright/test';
+import { allowedTagsPattern } from '../utils/target-profiles';
+import { config } from '../utils/config';
+
+/**
+ * Worker option selecting a target profile from config/targets.json
+ */
+export interface TargetOptions {
+  target: string | undefined;
+}
+
+/**
+ * Test with a per-project `target` option; when set, the worker switches Config
+ * (and therefore URLs, credentials and flags) to that profile before any test runs
+ */
+export const test = base.extend<object, TargetOptions & { activateTarget: void }>({
+  target: [undefined, { scope: 'worker', option: true }],
+
+  activateTarget: [
+    async ({ target }, use) => {
+      if (target) {
+        config.useTarget(target);
+      }
+      await use();
+    },
+    { scope: 'worker', auto: true }
+  ]
+});
+
+/**
+ * Build a Playwright project bound to a target profile, using its URL and allowed tags
+ */
+export function targetProject(
+  name: string,
+  project: PlaywrightTestProject<object, TargetOptions> = {}
+): PlaywrightTestProject<object, TargetOptions> {
+  const profile = config.getTargetProfile(name);
+  if (!profile) {
+    throw new Error(
+      `Unknown target profile "${name}" (declared: ${config.getTargetNames().join(', ')})`
+    );
+  }
+
+  const grep = allowedTagsPattern(profile);
+  return {
+    name: `target-${name}`,
+    ...project,
+    ...(grep ? { grep } : {}),
+    use: {
+      ...project.use,
+      baseURL: profile.baseUrl,
+      target: name
+    }
+  };
+}
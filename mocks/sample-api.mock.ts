@@ -0,0 +1,334 @@
+/**
+ * Mock of sample-apps/api-server for offline runs (MOCK_API=true): its routes, seed data,
+ * validation and response shapes, with the data held by the mock server and restored
+ * whenever the mock is reset.
+ */
+import { MockApiServer, MockRequest, MockResponse, MockSetup } from '../utils/mock-api-server';
+
+interface Entity {
+  id: number;
+  [field: string]: unknown;
+}
+
+type Body = Record<string, unknown>;
+
+interface ResourceOptions<T extends Entity> {
+  /** Singular name used in messages, e.g. 'User' */
+  label: string;
+  validate: (body: Body) => string[];
+  /** Validation of updates when it differs from validate */
+  validateUpdate?: (body: Body) => string[];
+  create: (body: Body, id: number) => T;
+  update: (existing: T, body: Body) => T;
+  /** Filter list results by query parameters */
+  filter?: (records: T[], query: MockRequest['query']) => T[];
+  /** Extra checks on create, e.g. uniqueness; a response rejects the request */
+  conflict?: (body: Body) => MockResponse | undefined;
+}
+
+const ORDER_STATUSES = ['pending', 'completed', 'cancelled'];
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function integer(value: unknown): number {
+  return parseInt(String(value), 10);
+}
+
+function bodyOf(request: MockRequest): Body {
+  return request.body && typeof request.body === 'object' ? (request.body as Body) : {};
+}
+
+function paginate<T>(records: T[], query: MockRequest['query']) {
+  const page = integer(query.page) || 1;
+  const limit = integer(query.limit) || 10;
+  return {
+    data: records.slice((page - 1) * limit, page * limit),
+    pagination: { page, limit, total: records.length, pages: Math.ceil(records.length / limit) }
+  };
+}
+
+function validationFailed(details: string[]): MockResponse {
+  return { status: 400, body: { error: 'Validation failed', details } };
+}
+
+/**
+ * List, get, create, update (PUT, or PATCH for orders) and delete routes of a collection
+ */
+function resource<T extends Entity>(
+  mock: MockApiServer,
+  name: string,
+  records: T[],
+  options: ResourceOptions<T>
+): void {
+  const { label } = options;
+  const notFound: MockResponse = { status: 404, body: { error: `${label} not found` } };
+  const indexOf = (request: MockRequest) =>
+    records.findIndex(record => record.id === integer(request.params.id));
+
+  mock.route(`GET /${name}`, ({ query }) => ({
+    body: paginate(options.filter ? options.filter(records, query) : records, query)
+  }));
+
+  mock.route(`GET /${name}/:id`, request => {
+    const record = records[indexOf(request)];
+    return record ? { body: { data: record } } : notFound;
+  });
+
+  mock.route(`POST /${name}`, request => {
+    const body = bodyOf(request);
+    const errors = options.validate(body);
+    if (errors.length > 0) {
+      return validationFailed(errors);
+    }
+    const conflict = options.conflict?.(body);
+    if (conflict) {
+      return conflict;
+    }
+    const record = options.create(body, Math.max(0, ...records.map(r => r.id)) + 1);
+    records.push(record);
+    return { status: 201, body: { message: `${label} created successfully`, data: record } };
+  });
+
+  const update = (request: MockRequest): MockResponse => {
+    const index = indexOf(request);
+    const existing = records[index];
+    if (!existing) {
+      return notFound;
+    }
+    const body = bodyOf(request);
+    const errors = (options.validateUpdate ?? options.validate)(body);
+    if (errors.length > 0) {
+      return validationFailed(errors);
+    }
+    const record = { ...options.update(existing, body), updatedAt: new Date().toISOString() };
+    records[index] = record;
+    return { body: { message: `${label} updated successfully`, data: record } };
+  };
+  mock.route(`${name === 'orders' ? 'PATCH' : 'PUT'} /${name}/:id`, update);
+
+  mock.route(`DELETE /${name}/:id`, request => {
+    const index = indexOf(request);
+    if (index === -1) {
+      return notFound;
+    }
+    records.splice(index, 1);
+    return { body: { message: `${label} deleted successfully` } };
+  });
+}
+
+const setup: MockSetup = mock => {
+  const users: Entity[] = [
+    {
+      id: 1,
+      name: 'John Doe',
+      email: 'john.doe@example.com',
+      role: 'user',
+      createdAt: '2024-01-01T00:00:00Z'
+    },
+    {
+      id: 2,
+      name: 'Jane Smith',
+      email: 'jane.smith@example.com',
+      role: 'admin',
+      createdAt: '2024-01-02T00:00:00Z'
+    },
+    {
+      id: 3,
+      name: 'Bob Johnson',
+      email: 'bob.johnson@example.com',
+      role: 'user',
+      createdAt: '2024-01-03T00:00:00Z'
+    }
+  ];
+  const products: Entity[] = [
+    {
+      id: 1,
+      name: 'Laptop Pro',
+      price: 1299.99,
+      category: 'electronics',
+      stock: 50,
+      description: 'High-performance laptop'
+    },
+    {
+      id: 2,
+      name: 'Smartphone X',
+      price: 799.99,
+      category: 'electronics',
+      stock: 100,
+      description: 'Latest smartphone model'
+    },
+    {
+      id: 3,
+      name: 'Office Chair',
+      price: 249.99,
+      category: 'furniture',
+      stock: 25,
+      description: 'Ergonomic office chair'
+    }
+  ];
+  const orders: Entity[] = [
+    {
+      id: 1,
+      userId: 1,
+      productId: 1,
+      quantity: 1,
+      status: 'completed',
+      total: 1299.99,
+      createdAt: '2024-01-01T10:00:00Z'
+    },
+    {
+      id: 2,
+      userId: 2,
+      productId: 2,
+      quantity: 2,
+      status: 'pending',
+      total: 1599.98,
+      createdAt: '2024-01-02T11:00:00Z'
+    }
+  ];
+
+  const searchProducts = (query: string) =>
+    products.filter(product =>
+      ['name', 'description', 'category'].some(field =>
+        text(product[field]).toLowerCase().includes(query.toLowerCase())
+      )
+    );
+
+  mock.route('GET /health', () => ({
+    body: {
+      status: 'OK',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+      version: '1.0.0'
+    }
+  }));
+
+  resource(mock, 'users', users, {
+    label: 'User',
+    validate: body => [
+      ...(text(body.name).length < 2 ? ['Name must be at least 2 characters'] : []),
+      ...(!text(body.email).includes('@') ? ['Valid email is required'] : [])
+    ],
+    conflict: body =>
+      users.some(user => user.email === body.email)
+        ? { status: 409, body: { error: 'Email already exists' } }
+        : undefined,
+    create: (body, id) => ({
+      id,
+      name: body.name,
+      email: body.email,
+      role: body.role ?? 'user',
+      createdAt: new Date().toISOString()
+    }),
+    update: (existing, body) => ({ ...existing, ...body, id: existing.id })
+  });
+
+  resource(mock, 'products', products, {
+    label: 'Product',
+    validate: body => [
+      ...(text(body.name).length < 3 ? ['Product name must be at least 3 characters'] : []),
+      ...(!(Number(body.price) > 0) ? ['Price must be greater than 0'] : []),
+      ...(!body.category ? ['Category is required'] : [])
+    ],
+    create: (body, id) => ({
+      id,
+      name: body.name,
+      price: Number(body.price),
+      category: body.category,
+      stock: integer(body.stock) || 0,
+      description: body.description ?? '',
+      createdAt: new Date().toISOString()
+    }),
+    update: (existing, body) => ({
+      ...existing,
+      ...body,
+      id: existing.id,
+      price: Number(body.price),
+      stock: integer(body.stock)
+    })
+  });
+  // Product lists are searchable and echo the search term
+  mock.route('GET /products', ({ query }) => {
+    const q = typeof query.q === 'string' ? query.q : '';
+    return {
+      body: { ...paginate(q ? searchProducts(q) : products, query), search: q || null }
+    };
+  });
+  mock.route('GET /products/search', ({ query }) => {
+    const q = typeof query.q === 'string' ? query.q : '';
+    if (!q) {
+      return { status: 400, body: { error: 'Search query is required' } };
+    }
+    const data = searchProducts(q);
+    return { body: { data, query: q, count: data.length } };
+  });
+
+  resource(mock, 'orders', orders, {
+    label: 'Order',
+    validate: body => [
+      ...(!users.some(user => user.id === integer(body.userId))
+        ? ['Valid userId is required']
+        : []),
+      ...(!products.some(product => product.id === integer(body.productId))
+        ? ['Valid productId is required']
+        : []),
+      ...(!(integer(body.quantity) >= 1) ? ['Quantity must be at least 1'] : [])
+    ],
+    validateUpdate: body =>
+      ORDER_STATUSES.includes(text(body.status))
+        ? []
+        : [`Status must be one of: ${ORDER_STATUSES.join(', ')}`],
+    filter: (records, { userId, status }) =>
+      records.filter(
+        order =>
+          (!integer(userId) || order.userId === integer(userId)) &&
+          (!status || order.status === status)
+      ),
+    create: (body, id) => {
+      const product = products.find(p => p.id === integer(body.productId)) as Entity;
+      const quantity = integer(body.quantity);
+      return {
+        id,
+        userId: integer(body.userId),
+        productId: product.id,
+        quantity,
+        status: 'pending',
+        total: Math.round(Number(product.price) * quantity * 100) / 100,
+        createdAt: new Date().toISOString()
+      };
+    },
+    update: (existing, body) => ({ ...existing, status: body.status })
+  });
+
+  const simulated: Record<string, [string, string]> = {
+    500: ['Internal server error', 'Simulated server error for testing'],
+    404: ['Not found', 'Simulated 404 error for testing'],
+    401: ['Unauthorized', 'Simulated authorization error for testing']
+  };
+  for (const [status, [error, message]] of Object.entries(simulated)) {
+    mock.route(`GET /error/${status}`, { status: Number(status), body: { error, message } });
+  }
+
+  mock.route('GET /slow-endpoint', async ({ query }) => {
+    const delay = integer(query.delay) || 5000;
+    await new Promise(resolve => setTimeout(resolve, delay));
+    return { body: { message: 'This endpoint has a delay', delay } };
+  });
+
+  mock.route(
+    'GET /performance-test',
+    () => ({
+      body: {
+        message: 'Performance test endpoint',
+        processingTime: '100ms',
+        timestamp: new Date().toISOString(),
+        load: 50
+      }
+    }),
+    { latencyMs: 100 }
+  );
+};
+
+export default setup;
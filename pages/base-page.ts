@@ -9,12 +9,17 @@ import { config } from '../utils/config';
 export abstract class BasePage {
   protected page: Page;
   protected pageUtils: PageUtils;
-  protected baseUrl: string;
 
   constructor(page: Page) {
     this.page = page;
     this.pageUtils = new PageUtils(page);
-    this.baseUrl = config.get('urls.base');
+  }
+
+  /**
+   * Base URL of the active target profile
+   */
+  protected get baseUrl(): string {
+    return config.getUrls().base;
   }
 
   /**
@@ -84,7 +89,11 @@ export abstract class BasePage {
   /**
    * Type text into element
    */
-  async type(selector: string, text: string, options?: { timeout?: number; delay?: number }): Promise<void> {
+  async type(
+    selector: string,
+    text: string,
+    options?: { timeout?: number; delay?: number; sensitive?: boolean }
+  ): Promise<void> {
     logger.stepStart(`Type text into: ${selector}`);
     
     try {
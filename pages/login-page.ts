@@ -52,7 +52,7 @@ export class LoginPage extends BasePage {
    * Enter password
    */
   async enterPassword(password: string): Promise<void> {
-    await this.type(this.selectors.passwordInput, password);
+    await this.type(this.selectors.passwordInput, password, { sensitive: true });
   }
 
   /**
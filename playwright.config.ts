@@ -1,23 +1,29 @@
+import { TargetOptions, targetProject } from './fixtures/target.fixture';
 import { defineConfig, devices } from '@playwright/test';
-import dotenv from 'dotenv';
+import { allowedTagsPattern } from './utils/target-profiles';
+import { config } from './utils/config';
 
-// Load environment variables
-dotenv.config();
+const browserConfig = config.getBrowserConfig();
+const testConfig = config.getTestConfig();
+const reportingConfig = config.getReportingConfig();
+const urls = config.getUrls();
+const targetTags = allowedTagsPattern(config.getTarget());
 
 /**
  * Playwright Configuration
- * This configuration supports multiple environments, browsers, and test types
+ * Generated from the framework Config (utils/config.ts) so every environment
+ * has a single source of truth for URLs, timeouts, workers and browser settings
  */
-export default defineConfig({
+export default defineConfig<object, TargetOptions>({
   // Global test directory
   testDir: './tests',
   
   // Global timeout for each test
-  timeout: 60000,
+  timeout: testConfig.timeout,
   
   // Expect timeout for assertions
   expect: {
-    timeout: 10000,
+    timeout: testConfig.expectTimeout,
   },
 
   // Run tests in files in parallel
@@ -26,16 +32,17 @@ export default defineConfig({
   // Fail the build on CI if you accidentally left test.only in the source code
   forbidOnly: !!process.env.CI,
   
-  // Retry on CI only
-  retries: process.env.CI ? 2 : 0,
+  // Only run tests allowed by the active target profile (TARGET)
+  ...(targetTags ? { grep: targetTags } : {}),
   
-  // Opt out of parallel tests on CI
-  workers: process.env.CI ? 1 : 4,
+  // Retries and workers per environment (RETRIES / WORKERS)
+  retries: testConfig.retries,
+  workers: testConfig.workers,
   
   // Reporter configuration
   reporter: [
     ['html', { 
-      outputFolder: 'playwright-report', 
+      outputFolder: reportingConfig.playwrightReportDir, 
       open: 'never',
       attachments: {
         mode: 'always',
@@ -46,41 +53,42 @@ export default defineConfig({
     ['junit', { outputFile: 'test-results/junit.xml' }],
     ['allure-playwright', { 
       detail: true, 
-      outputFolder: 'allure-results',
+      outputFolder: reportingConfig.allureResultsDir,
       suiteTitle: false 
     }],
     ['list']
   ],
   
   // Global setup and teardown
-  // globalSetup: require.resolve('./utils/global-setup.ts'),
-  // globalTeardown: require.resolve('./utils/global-teardown.ts'),
+  globalSetup: require.resolve('./utils/global-setup.ts'),
+  globalTeardown: require.resolve('./utils/global-teardown.ts'),
   
   // Shared settings for all projects
   use: {
     // Base URL for tests
-    baseURL: process.env.BASE_URL || 'https://example.com',
+    baseURL: urls.base,
     
-    // Browser headless mode (controlled by environment variable)
-    headless: process.env.BROWSER_HEADLESS === 'true',
+    // Browser headless mode (HEADLESS)
+    headless: browserConfig.headless,
     
-    // Browser context options
-    viewport: { width: 1920, height: 1080 },
-    
-    // Collect trace when retrying the failed test
-    trace: 'retain-on-failure', // Options: 'off' | 'on' | 'retain-on-failure' | 'on-first-retry'
+    // Slow down browser operations (SLOW_MO)
+    launchOptions: {
+      slowMo: browserConfig.slowMo,
+    },
     
-    // Record video for failed tests
-    video: 'retain-on-failure',
+    // Browser context options
+    viewport: browserConfig.viewport,
     
-    // Take screenshot on failure
-    screenshot: 'only-on-failure',
+    // Trace, video and screenshot capture (TRACE_MODE / VIDEO_MODE / SCREENSHOT_MODE)
+    trace: reportingConfig.traceMode,
+    video: reportingConfig.videoMode,
+    screenshot: reportingConfig.screenshotMode,
     
     // Default navigation timeout
-    navigationTimeout: 30000,
+    navigationTimeout: browserConfig.timeout,
     
     // Default action timeout
-    actionTimeout: 10000,
+    actionTimeout: testConfig.expectTimeout,
     
     // Ignore HTTPS errors
     ignoreHTTPSErrors: true,
@@ -105,9 +113,6 @@ export default defineConfig({
         ...devices['Desktop Chrome'],
         // Use chromium instead of chrome channel for CI compatibility
         // channel: 'chrome', // Commented out for Jenkins CI
-        launchOptions: {
-          slowMo: process.env.BROWSER_SLOW_MO ? parseInt(process.env.BROWSER_SLOW_MO) : 0,
-        },
       },
     },
     {
@@ -138,9 +143,16 @@ export default defineConfig({
       name: 'api',
       testDir: './tests/api',
       use: {
-        baseURL: process.env.API_BASE_URL || 'https://api.example.com',
+        baseURL: urls.api,
       },
     },
+    // Projects bound to target profiles from config/targets.json, e.g.
+    // TARGET_PROJECTS=eu-staging,acme-sandbox npx playwright test --project=target-eu-staging
+    ...(process.env.TARGET_PROJECTS || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean)
+      .map(name => targetProject(name, { use: { ...devices['Desktop Chrome'] } })),
   ],
 
   // Web server configuration for local development (disabled by default)
@@ -47,6 +47,16 @@ const validateProduct = (productData) => {
   return errors;
 };
 
+const validateOrder = (orderData) => {
+  const errors = [];
+  if (!users.some(u => u.id === parseInt(orderData.userId))) errors.push('Valid userId is required');
+  if (!products.some(p => p.id === parseInt(orderData.productId))) errors.push('Valid productId is required');
+  if (!orderData.quantity || parseInt(orderData.quantity) < 1) errors.push('Quantity must be at least 1');
+  return errors;
+};
+
+const ORDER_STATUSES = ['pending', 'completed', 'cancelled'];
+
 // Logging middleware
 app.use((req, res, next) => {
   console.log(`🔄 ${req.method} ${req.path} - ${new Date().toISOString()}`);
@@ -368,6 +378,134 @@ app.delete('/products/:id', (req, res) => {
   }
 });
 
+// ========== ORDER ENDPOINTS ==========
+
+// Get all orders with pagination, optionally filtered by user and status
+app.get('/orders', async (req, res) => {
+  try {
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 10;
+    const userId = parseInt(req.query.userId);
+    const status = req.query.status;
+    
+    let filteredOrders = orders;
+    if (userId) filteredOrders = filteredOrders.filter(o => o.userId === userId);
+    if (status) filteredOrders = filteredOrders.filter(o => o.status === status);
+    
+    const startIndex = (page - 1) * limit;
+    const endIndex = startIndex + limit;
+    
+    res.json({
+      data: filteredOrders.slice(startIndex, endIndex),
+      pagination: {
+        page,
+        limit,
+        total: filteredOrders.length,
+        pages: Math.ceil(filteredOrders.length / limit)
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error', message: error.message });
+  }
+});
+
+// Get order by ID
+app.get('/orders/:id', (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const order = orders.find(o => o.id === orderId);
+    
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    
+    res.json({ data: order });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error', message: error.message });
+  }
+});
+
+// Create new order, priced from the product
+app.post('/orders', (req, res) => {
+  try {
+    const orderData = req.body;
+    const errors = validateOrder(orderData);
+    
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Validation failed', details: errors });
+    }
+    
+    const product = products.find(p => p.id === parseInt(orderData.productId));
+    const quantity = parseInt(orderData.quantity);
+    const newOrder = {
+      id: orders.length + 1,
+      userId: parseInt(orderData.userId),
+      productId: product.id,
+      quantity,
+      status: 'pending',
+      total: Math.round(product.price * quantity * 100) / 100,
+      createdAt: new Date().toISOString()
+    };
+    
+    orders.push(newOrder);
+    
+    res.status(201).json({ 
+      message: 'Order created successfully', 
+      data: newOrder 
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error', message: error.message });
+  }
+});
+
+// Update order status
+app.patch('/orders/:id', (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const orderIndex = orders.findIndex(o => o.id === orderId);
+    
+    if (orderIndex === -1) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    
+    const { status } = req.body;
+    if (!ORDER_STATUSES.includes(status)) {
+      return res.status(400).json({ error: 'Validation failed', details: [`Status must be one of: ${ORDER_STATUSES.join(', ')}`] });
+    }
+    
+    orders[orderIndex] = { 
+      ...orders[orderIndex], 
+      status,
+      updatedAt: new Date().toISOString() 
+    };
+    
+    res.json({ 
+      message: 'Order updated successfully', 
+      data: orders[orderIndex] 
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error', message: error.message });
+  }
+});
+
+// Delete order
+app.delete('/orders/:id', (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const orderIndex = orders.findIndex(o => o.id === orderId);
+    
+    if (orderIndex === -1) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    
+    orders.splice(orderIndex, 1);
+    
+    res.json({ message: 'Order deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error', message: error.message });
+  }
+});
+
 // ========== TEST ENDPOINTS FOR ERROR HANDLING ==========
 
 // Simulate server errors
@@ -415,7 +553,7 @@ app.use('*', (req, res) => {
   res.status(404).json({ 
     error: 'Not Found', 
     message: `Route ${req.method} ${req.originalUrl} not found`,
-    availableRoutes: ['/users', '/products', '/health', '/']
+    availableRoutes: ['/users', '/products', '/orders', '/health', '/']
   });
 });
 
@@ -439,6 +577,8 @@ app.listen(PORT, () => {
   console.log(`   • GET  /products - List products`);
   console.log(`   • POST /products - Create product`);
   console.log(`   • GET  /products/search?q=query - Search products`);
+  console.log(`   • GET  /orders - List orders`);
+  console.log(`   • POST /orders - Create order`);
   console.log(`   • GET  /error/500 - Test server error`);
   console.log(`   • GET  /slow-endpoint - Test timeout (5s delay)`);
   console.log(`   • GET  /performance-test - Performance testing`);
@@ -0,0 +1,56 @@
+/**
+ * Diff the configuration snapshots of two archived test runs.
+ *
+ *   npm run config:diff                          # two most recent runs in archives/
+ *   npm run config:diff -- <before> <after>      # archive names, directories or snapshot files
+ */
+/* eslint-disable no-console */
+import {
+  SNAPSHOT_FILE,
+  diffSnapshots,
+  formatSnapshotDiff,
+  readSnapshot
+} from '../utils/config-snapshot';
+import fs from 'fs';
+import path from 'path';
+
+const ARCHIVES_DIR = path.join(process.cwd(), 'archives');
+
+function archivedRuns(): string[] {
+  if (!fs.existsSync(ARCHIVES_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(ARCHIVES_DIR)
+    .filter(name => fs.existsSync(path.join(ARCHIVES_DIR, name, SNAPSHOT_FILE)))
+    .sort();
+}
+
+function locate(run: string): string {
+  const archived = path.join(ARCHIVES_DIR, run);
+  return !fs.existsSync(run) && fs.existsSync(archived) ? archived : run;
+}
+
+function main(args: string[]): number {
+  let runs = args.filter(arg => !arg.startsWith('-'));
+  if (runs.length === 0) {
+    runs = archivedRuns().slice(-2);
+  }
+  if (runs.length !== 2) {
+    console.error('Usage: npm run config:diff -- <before-run> <after-run>');
+    console.error(`Archived runs with a snapshot: ${archivedRuns().join(', ') || 'none'}`);
+    return 2;
+  }
+
+  const [before, after] = runs as [string, string];
+  const changes = diffSnapshots(readSnapshot(locate(before)), readSnapshot(locate(after)));
+  console.log(formatSnapshotDiff(changes, { before, after }));
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
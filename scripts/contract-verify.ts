@@ -0,0 +1,83 @@
+/**
+ * Verify consumer contracts against a running provider and write a mismatch report.
+ *
+ *   npm run contract:verify                  # every contract in api.contracts.dir
+ *   npm run contract:verify -- [<contract.json> ...] [--provider-url <url>]
+ *                              [--states <module.ts>] [--report <file.json>]
+ *
+ * Provider states are set up by the handlers the states module exports as `providerStates`
+ * (default contracts/provider-states.ts). Exits with 1 when any interaction does not match.
+ */
+/* eslint-disable no-console */
+import {
+  ContractVerification,
+  ContractVerifier,
+  ProviderStateHandlers,
+  formatVerification
+} from '../utils/contracts';
+import { ApiClient } from '../utils/api-client';
+import { config } from '../utils/config';
+import fs from 'fs';
+import path from 'path';
+
+const DEFAULT_STATES = 'contracts/provider-states.ts';
+const DEFAULT_REPORT = 'test-results/contract-verification.json';
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function loadStates(file: string): Promise<ProviderStateHandlers> {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+  const module = (await import(path.resolve(file))) as { providerStates?: ProviderStateHandlers };
+  return module.providerStates ?? {};
+}
+
+async function main(args: string[]): Promise<number> {
+  const values = new Set(
+    ['--provider-url', '--states', '--report'].map(name => option(args, name))
+  );
+  const files = args.filter(arg => !arg.startsWith('-') && !values.has(arg));
+  const { dir } = config.getApiConfig().contracts;
+  const contracts =
+    files.length > 0
+      ? files
+      : fs.existsSync(dir)
+        ? fs
+            .readdirSync(dir)
+            .filter(file => file.endsWith('.json'))
+            .map(file => path.join(dir, file))
+        : [];
+  if (contracts.length === 0) {
+    console.error(`No contracts found in ${dir}; record them with API_CONTRACTS=true`);
+    return 1;
+  }
+
+  const verifier = new ContractVerifier(
+    new ApiClient(option(args, '--provider-url')),
+    await loadStates(option(args, '--states') ?? DEFAULT_STATES)
+  );
+  const results: ContractVerification[] = [];
+  for (const contract of contracts) {
+    const result = await verifier.verify(path.resolve(contract));
+    console.log(formatVerification(result));
+    results.push(result);
+  }
+
+  const report = path.resolve(option(args, '--report') ?? DEFAULT_REPORT);
+  fs.mkdirSync(path.dirname(report), { recursive: true });
+  fs.writeFileSync(report, `${JSON.stringify(results, null, 2)}\n`);
+  console.log(`Report written to ${path.relative(process.cwd(), report)}`);
+  return results.every(result => result.passed) ? 0 : 1;
+}
+
+main(process.argv.slice(2)).then(
+  code => (process.exitCode = code),
+  error => {
+    console.error((error as Error).message);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,54 @@
+/**
+ * Generate a typed API client and response validators from an OpenAPI 3 JSON document.
+ *
+ *   npm run openapi:generate                                   # the sample API server's spec
+ *   npm run openapi:generate -- <spec.json> [--out <file.ts>] [--name <ClassName>]
+ */
+/* eslint-disable no-console */
+import { generateClient, kebabCase, pascalCase } from '../utils/openapi-codegen';
+import fs from 'fs';
+import { loadOpenApiDocument } from '../utils/openapi';
+import path from 'path';
+
+const DEFAULT_SPEC = 'sample-apps/api-server/openapi.json';
+const GENERATED_DIR = path.join(process.cwd(), 'api', 'generated');
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function main(args: string[]): number {
+  const values = new Set(['--out', '--name'].map(name => option(args, name)));
+  const [specFile = DEFAULT_SPEC] = args.filter(arg => !arg.startsWith('-') && !values.has(arg));
+  const document = loadOpenApiDocument(specFile);
+
+  // 'Sample API Server' -> SampleApi in api/generated/sample-api.ts
+  const className =
+    option(args, '--name') ?? pascalCase(document.info.title.replace(/\bserver\b/i, ''));
+  const outFile = path.resolve(
+    option(args, '--out') ?? path.join(GENERATED_DIR, `${kebabCase(className)}.ts`)
+  );
+
+  const { source, skipped } = generateClient(document, {
+    className,
+    outFile,
+    specFile: path.relative(process.cwd(), path.resolve(specFile)).split(path.sep).join('/')
+  });
+  fs.mkdirSync(path.dirname(outFile), { recursive: true });
+  fs.writeFileSync(outFile, source);
+
+  const written = path.relative(process.cwd(), outFile);
+  console.log(`Generated ${className} from ${specFile} -> ${written}`);
+  if (skipped.length > 0) {
+    console.warn(`Skipped operations ApiClient has no method for: ${skipped.join(', ')}`);
+  }
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
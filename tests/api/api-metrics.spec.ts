@@ -0,0 +1,54 @@
+import { ApiMetrics, endpointTemplate } from '../../utils/api-metrics';
+import { expect, test } from '../../fixtures';
+import { ApiClient } from '../../utils/api-client';
+
+test.describe('API metrics', () => {
+  test('times each request and records it under its endpoint template @api @metrics', async ({
+    mockApi
+  }) => {
+    mockApi
+      .route('GET /metrics-probe/:id', ({ params }) => ({ body: { id: params.id } }), {
+        latencyMs: 50
+      })
+      .route('POST /metrics-probe', { status: 503 });
+    const client = new ApiClient(mockApi.url);
+    const startedAt = new Date().toISOString();
+
+    const response = await client.get('/metrics-probe/1');
+    await client.get('/metrics-probe/2');
+    await expect(client.post('/metrics-probe', { name: 'x' })).rejects.toMatchObject({
+      status: 503
+    });
+
+    expect(response.timings?.ttfbMs).toBeGreaterThanOrEqual(45);
+    expect(response.timings?.totalMs).toBeGreaterThanOrEqual(response.timings?.ttfbMs ?? 0);
+    // readSamples() covers the whole run, earlier attempts of this test included
+    const samples = ApiMetrics.readSamples().filter(
+      sample => sample.endpoint.startsWith('/metrics-probe') && sample.timestamp >= startedAt
+    );
+    const summary = ApiMetrics.summarize(samples);
+    expect(summary).toEqual([
+      expect.objectContaining({
+        method: 'GET',
+        endpoint: '/metrics-probe/{id}',
+        count: 2,
+        statuses: { 200: 2 }
+      }),
+      expect.objectContaining({
+        method: 'POST',
+        endpoint: '/metrics-probe',
+        count: 1,
+        statuses: { 503: 1 },
+        requestBytes: expect.objectContaining({ max: 12 })
+      })
+    ]);
+  });
+
+  test('endpoint templates replace ids and drop the query @api @metrics', () => {
+    expect(endpointTemplate('https://api.example.com/users/42?page=2')).toBe('/users/{id}');
+    expect(endpointTemplate('/orders/3f2b8c1e-9a4d-4e6f-8b2a-1c3d5e7f9a0b/items')).toBe(
+      '/orders/{id}/items'
+    );
+    expect(endpointTemplate('/v2/health')).toBe('/v2/health');
+  });
+});
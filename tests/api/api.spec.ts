@@ -1,92 +1,85 @@
-import { test, expect } from '@playwright/test';
-import { apiClient, ApiValidator } from '../../utils/api-client';
+import { SampleApi, validateSampleApiResponse } from '../../api/generated/sample-api';
+import { expect, test } from '../../fixtures';
+import { ApiValidator } from '../../utils/api-client';
+import { JsonSchema } from '../../utils/json-schema';
 import { TestDataManager } from '../../utils/test-data-manager';
 import { logger } from '../../utils/logger';
 
 test.describe('API Tests', () => {
-  let testData: any;
-  let authToken: string;
-
-  test.beforeAll(async () => {
-    // Load test data
-    testData = await TestDataManager.loadJsonData('test-credentials.json');
-    
-    // Authenticate and get token (if needed)
-    // authToken = await getAuthToken();
-    // apiClient.setAuthToken(authToken);
-    
-    logger.info('API test setup completed');
-  });
-
   test.describe('User API', () => {
-    test('should get users list @api @smoke', async () => {
-      const response = await apiClient.get('/users');
+    test('should get users list @api @smoke @readonly', async ({ usersApi }) => {
+      const response = await usersApi.list();
       
       // Validate response
       expect(response.status).toBe(200);
       expect(response.data).toBeDefined();
-      expect(Array.isArray(response.data)).toBeTruthy();
+      expect(Array.isArray(response.data.data)).toBeTruthy();
+      expect(response.data.pagination.total).toBeGreaterThanOrEqual(response.data.data.length);
       
       // Validate using API validator
       ApiValidator.validateStatus(response, 200);
       
       logger.info('Users list retrieved successfully', {
-        count: response.data.length,
+        count: response.data.data.length,
         status: response.status
       });
     });
 
-    test('should create new user @api @regression', async () => {
+    test('should create new user @api @regression @destructive', async ({ usersApi, contract }) => {
       const newUser = TestDataManager.generateUserData(1) as any;
+      contract.given('no user has the email', { email: newUser.email });
       
-      const response = await apiClient.post('/users', {
-        firstName: newUser.firstName,
-        lastName: newUser.lastName,
-        email: newUser.email,
-        phone: newUser.phone
+      const response = await usersApi.create({
+        name: `${newUser.firstName} ${newUser.lastName}`,
+        email: newUser.email
       });
       
       expect(response.status).toBe(201);
-      expect(response.data.id).toBeDefined();
-      expect(response.data.email).toBe(newUser.email);
+      expect(response.data.data.id).toBeDefined();
+      expect(response.data.data.email).toBe(newUser.email);
       
       // Store created user ID for cleanup
       test.info().annotations.push({
         type: 'cleanup',
-        description: `Created user ID: ${response.data.id}`
+        description: `Created user ID: ${response.data.data.id}`
       });
     });
 
-    test('should get user by ID @api', async () => {
+    test('should get user by ID @api @readonly', async ({ usersApi, contract }) => {
       // Assuming we have a test user ID
-      const userId = '1';
+      const userId = 1;
+      // Only users that were updated have updatedAt
+      contract.given('a user exists', { id: userId }).optional('/data/updatedAt');
       
-      const response = await apiClient.get(`/users/${userId}`);
+      const response = await usersApi.get(userId);
       
       expect(response.status).toBe(200);
-      expect(response.data.id).toBe(userId);
-      expect(response.data.email).toBeDefined();
+      expect(response.data.data.id).toBe(userId);
+      expect(response.data.data.email).toBeDefined();
     });
 
-    test('should update user @api', async () => {
-      const userId = '1';
+    test('should update user @api @destructive', async ({ usersApi, contract }) => {
+      const userId = 1;
+      contract.given('a user exists', { id: userId }).optional('/data/updatedAt');
+      const { data: existing } = await usersApi.get(userId);
       const updateData = {
-        firstName: 'Updated',
-        lastName: 'Name'
+        name: 'Updated Name',
+        email: existing.data.email
       };
       
-      const response = await apiClient.put(`/users/${userId}`, updateData);
+      const response = await usersApi.update(userId, updateData);
       
       expect(response.status).toBe(200);
-      expect(response.data.firstName).toBe(updateData.firstName);
-      expect(response.data.lastName).toBe(updateData.lastName);
+      expect(response.data.data.name).toBe(updateData.name);
+      expect(response.data.data.updatedAt).toBeDefined();
     });
 
-    test('should handle invalid user ID @api @negative', async () => {
-      const invalidUserId = '999999';
+    test('should handle invalid user ID @api @negative', async ({ usersApi, contract }) => {
+      const invalidUserId = 999999;
+      contract.given('no user exists', { id: invalidUserId });
       
       try {
-        await apiClient.get(`/users/${invalidUserId}`);
+        await usersApi.get(invalidUserId);
         // If we reach here, the test should fail
         expect(true).toBeFalsy();
       } catch (error: any) {
@@ -96,61 +89,107 @@ test.describe('API Tests', () => {
   });
 
   test.describe('Product API', () => {
-    test('should get products with pagination @api', async () => {
-      const response = await apiClient.get('/products?page=1&limit=10');
+    test('should get products with pagination @api', async ({ productsApi }) => {
+      const response = await productsApi.list({ page: 1, limit: 10 });
       
       expect(response.status).toBe(200);
-      expect(response.data.items).toBeDefined();
+      expect(response.data.data.length).toBeLessThanOrEqual(10);
       expect(response.data.pagination).toBeDefined();
       expect(response.data.pagination.page).toBe(1);
       expect(response.data.pagination.limit).toBe(10);
     });
 
-    test('should search products @api', async () => {
-      const searchTerm = testData.testData.searchTerms[0];
+    test('should search products @api', async ({ productsApi, testData }) => {
+      const [searchTerm = 'automation'] = testData.testData.searchTerms;
       
-      const response = await apiClient.get(`/products/search?q=${searchTerm}`);
+      const response = await productsApi.search(searchTerm);
       
       expect(response.status).toBe(200);
-      expect(Array.isArray(response.data)).toBeTruthy();
+      expect(Array.isArray(response.data.data)).toBeTruthy();
+      expect(response.data.count).toBe(response.data.data.length);
       
       // Verify search results contain the search term
-      if (response.data.length > 0) {
-        const firstProduct = response.data[0];
-        const productText = `${firstProduct.name} ${firstProduct.description}`.toLowerCase();
+      const [firstProduct] = response.data.data;
+      if (firstProduct) {
+        const productText =
+          `${firstProduct.name} ${firstProduct.description} ${firstProduct.category}`.toLowerCase();
         expect(productText).toContain(searchTerm.toLowerCase());
       }
     });
 
-    test('should create product @api @regression', async () => {
+    test('should create product @api @regression @destructive', async ({ productsApi }) => {
       const newProduct = TestDataManager.generateProductData(1) as any;
       
-      const response = await apiClient.post('/products', newProduct);
+      const response = await productsApi.create({
+        name: newProduct.name,
+        price: newProduct.price,
+        category: newProduct.category,
+        stock: newProduct.stockQuantity,
+        description: newProduct.description
+      });
       
       expect(response.status).toBe(201);
-      expect(response.data.id).toBeDefined();
-      expect(response.data.name).toBe(newProduct.name);
-      expect(response.data.price).toBe(newProduct.price);
+      expect(response.data.data.id).toBeDefined();
+      expect(response.data.data.name).toBe(newProduct.name);
+      expect(response.data.data.price).toBe(newProduct.price);
     });
   });
 
-  test.describe('Performance Tests', () => {
-    test('should respond within acceptable time @api @performance', async () => {
-      const startTime = Date.now();
+  test.describe('Order API', () => {
+    test('should filter orders by status @api @readonly', async ({ ordersApi }) => {
+      const response = await ordersApi.list({ status: 'pending' });
       
-      const response = await apiClient.get('/products');
+      expect(response.status).toBe(200);
+      expect(response.data.pagination.page).toBe(1);
+      response.data.data.forEach(order => {
+        expect(order.status).toBe('pending');
+      });
+    });
+
+    test('should create order priced from product @api @regression @destructive', async ({
+      ordersApi,
+      productsApi,
+      contract
+    }) => {
+      contract.given('a user exists', { id: 1 }).given('a product exists', { id: 1 });
+      const { data: product } = await productsApi.get(1);
       
-      const responseTime = Date.now() - startTime;
+      const response = await ordersApi.create({ userId: 1, productId: 1, quantity: 2 });
+      
+      expect(response.status).toBe(201);
+      expect(response.data.data.status).toBe('pending');
+      expect(response.data.data.total).toBeCloseTo(product.data.price * 2, 2);
+    });
+  });
+
+  test.describe('OpenAPI Contract', () => {
+    test('should match the published schema @api @validation @readonly', async ({ apiClient }) => {
+      const sampleApi = new SampleApi(apiClient);
+      
+      const users = await sampleApi.listUsers({ limit: 2 });
+      const products = await sampleApi.searchProducts({ q: 'laptop' });
+      
+      expect(validateSampleApiResponse('listUsers', users.status, users.data)).toEqual([]);
+      expect(validateSampleApiResponse('searchProducts', products.status, products.data)).toEqual([]);
+    });
+  });
+
+  test.describe('Performance Tests', () => {
+    test('should respond within acceptable time @api @performance', async ({ productsApi }) => {
+      const response = await productsApi.list();
       
       expect(response.status).toBe(200);
-      ApiValidator.validateResponseTime(responseTime, 2000); // 2 seconds max
+      expect(response.timings?.totalMs).toBeLessThan(2000); // 2 seconds max
+      ApiValidator.validateResponseTime(response, 2000);
       
-      logger.performance('Products API response time', responseTime);
+      logger.performance('Products API response time', response.timings?.totalMs ?? 0, {
+        ...response.timings
+      });
     });
 
-    test('should handle concurrent requests @api @performance', async () => {
+    test('should handle concurrent requests @api @performance', async ({ apiClient, usersApi }) => {
       const concurrentRequests = Array(5).fill(null).map(() => 
-        () => apiClient.get('/users')
+        () => usersApi.list()
       );
       
       const startTime = Date.now();
@@ -170,22 +209,20 @@ test.describe('API Tests', () => {
   });
 
   test.describe('Error Handling', () => {
-    test('should handle server errors gracefully @api @negative', async () => {
+    test('should handle server errors gracefully @api @negative', async ({ systemApi }) => {
       try {
-        // Assuming this endpoint triggers a server error
-        await apiClient.get('/error/500');
+        await systemApi.simulateError(500);
       } catch (error: any) {
         expect(error.status).toBe(500);
         expect(error.message).toContain('API Error');
       }
     });
 
-    test('should handle network timeouts @api @negative', async () => {
-      // This would need a slow endpoint or timeout configuration
+    test('should handle network timeouts @api @negative', async ({ systemApi }) => {
       const startTime = Date.now();
       
       try {
-        await apiClient.get('/slow-endpoint');
+        await systemApi.slow();
       } catch (error: any) {
         const duration = Date.now() - startTime;
         // Should timeout before 30 seconds (default timeout)
@@ -195,33 +232,48 @@ test.describe('API Tests', () => {
   });
 
   test.describe('Data Validation', () => {
-    test('should validate response schema @api @validation', async () => {
-      const response = await apiClient.get('/users/1');
-      
-      const expectedSchema = {
-        id: 'string',
-        firstName: 'string',
-        lastName: 'string',
-        email: 'string',
-        createdAt: 'string'
+    test('should validate response schema @api @validation', async ({ usersApi, contract }) => {
+      contract.optional('/data/updatedAt');
+      const response = await usersApi.get(1);
+      
+      const userSchema: JsonSchema = {
+        type: 'object',
+        required: ['data'],
+        properties: {
+          data: {
+            type: 'object',
+            required: ['id', 'name', 'email', 'role', 'createdAt'],
+            properties: {
+              id: { type: 'integer', minimum: 1 },
+              name: { type: 'string', minLength: 1 },
+              email: { type: 'string', format: 'email' },
+              role: { enum: ['user', 'admin'] },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' }
+            },
+            additionalProperties: false
+          }
+        }
       };
       
       expect(response.status).toBe(200);
-      ApiValidator.validateSchema(response.data, expectedSchema);
+      await expect(response).toMatchSchema(userSchema);
+      expect(ApiValidator.validateSchema(response.data, userSchema)).toBe(true);
+      expect(ApiValidator.schemaViolations(response.data, userSchema)).toEqual([]);
     });
 
-    test('should reject invalid data @api @validation', async () => {
+    test('should reject invalid data @api @validation @destructive', async ({ usersApi }) => {
       const invalidUser = {
-        firstName: '', // Empty required field
-        lastName: 'Test',
+        name: '', // Empty required field
         email: 'invalid-email' // Invalid email format
       };
       
       try {
-        await apiClient.post('/users', invalidUser);
+        await usersApi.create(invalidUser);
         expect(true).toBeFalsy(); // Should not reach here
       } catch (error: any) {
         expect(error.status).toBe(400);
+        expect(error.data.details).toHaveLength(2);
       }
     });
   });
@@ -0,0 +1,116 @@
+import { AuthManager, credentialsForRole } from '../../utils/auth-manager';
+import { expect, test } from '../../fixtures';
+import { MockApiServer } from '../../utils/mock-api-server';
+import { TestCredentials } from '../../utils/test-data-manager';
+import { config } from '../../utils/config';
+
+const AUTH_ENV = ['TARGET', 'BASE_URL', 'AUTH_STATE_DIR', 'AUTH_STATE_TTL_MINUTES'] as const;
+
+/**
+ * Login endpoint answering like the sample web app with a session cookie and the session id;
+ * returns the usernames that logged in
+ */
+function serveLogin(mockApi: MockApiServer): string[] {
+  const logins: string[] = [];
+  mockApi.route('POST /api/login', ({ body }) => {
+    const { username } = body as { username: string };
+    logins.push(username);
+    return {
+      headers: { 'set-cookie': `session=${username}; Path=/` },
+      body: { sessionId: `session-of-${username}` }
+    };
+  });
+  return logins;
+}
+
+test.describe('Auth state cache', () => {
+  let previousTarget: string | undefined;
+  let saved: Partial<Record<(typeof AUTH_ENV)[number], string>>;
+  let logins: string[];
+
+  /**
+   * Point logins at the mock and the cache at the test's output
+   */
+  const activate = (mockApi: MockApiServer, ttlMinutes = 60) => {
+    Object.assign(process.env, {
+      BASE_URL: mockApi.url,
+      AUTH_STATE_DIR: test.info().outputPath('.auth'),
+      AUTH_STATE_TTL_MINUTES: String(ttlMinutes)
+    });
+    // A target's URLs would win over BASE_URL
+    delete process.env.TARGET;
+    config.useTarget(undefined);
+  };
+
+  test.beforeEach(({ mockApi }) => {
+    previousTarget = config.getTarget()?.name;
+    saved = Object.fromEntries(AUTH_ENV.map(name => [name, process.env[name]]));
+    logins = serveLogin(mockApi);
+  });
+
+  test.afterEach(() => {
+    for (const name of AUTH_ENV) {
+      const value = saved[name];
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    config.useTarget(previousTarget);
+  });
+
+  test('logs each role in once and reuses its storage state @api @auth', async ({ mockApi }) => {
+    activate(mockApi);
+
+    const admin = await AuthManager.getStorageState('admin');
+    const again = await AuthManager.getStorageState('admin');
+    await AuthManager.getStorageState('user');
+
+    expect(again).toEqual(admin);
+    expect(admin.cookies).toMatchObject([{ name: 'session', value: 'admin@example.com' }]);
+    expect(admin.origins).toEqual([
+      {
+        origin: mockApi.url,
+        localStorage: [{ name: 'sessionId', value: 'session-of-admin@example.com' }]
+      }
+    ]);
+    expect(logins).toEqual(['admin@example.com', 'testuser@example.com']);
+
+    AuthManager.clear('admin');
+    await AuthManager.getStorageState('admin');
+    await AuthManager.getStorageState('user');
+    expect(logins).toEqual([
+      'admin@example.com',
+      'testuser@example.com',
+      'admin@example.com'
+    ]);
+  });
+
+  test('expired state is not reused @api @auth', async ({ mockApi }) => {
+    activate(mockApi, 0);
+
+    await AuthManager.getStorageState('admin');
+    await AuthManager.getStorageState('admin');
+
+    expect(logins).toEqual(['admin@example.com', 'admin@example.com']);
+  });
+
+  test('failed logins and unknown roles are reported @api @auth', async ({ mockApi }) => {
+    activate(mockApi);
+    mockApi.route('POST /api/login', { status: 401 });
+    const credentials = {
+      validUser: { username: 'u@example.com', password: 'p' },
+      adminUser: { username: 'a@example.com', password: 'p' },
+      testUsers: [{ username: 'm@example.com', password: 'p', role: 'manager', active: true }]
+    } as unknown as TestCredentials;
+
+    await expect(AuthManager.getStorageState('admin')).rejects.toThrow(
+      'Login failed for admin@example.com: HTTP 401'
+    );
+    expect(credentialsForRole(credentials, 'manager').username).toBe('m@example.com');
+    expect(() => credentialsForRole(credentials, 'auditor')).toThrow(
+      'No credentials for role "auditor" (known roles: user, admin, manager)'
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  ApiKeyAuth,
+  HmacAuth,
+  OAuth2Auth,
+  SessionAuth,
+  TokenAuth
+} from '../../utils/auth-strategies';
+import { expect, test } from '../../fixtures';
+import { ApiClient } from '../../utils/api-client';
+import { MockRequest } from '../../utils/mock-api-server';
+import crypto from 'crypto';
+
+/** Echoes what a strategy added to the request */
+const echo = ({ headers, query }: MockRequest) => ({ body: { headers, query } });
+
+/**
+ * Checks X-Signature the way a provider would, over the body it received
+ */
+function validSignature({ method, path, headers, body }: MockRequest, secret: string): boolean {
+  const received = typeof body === 'string' ? body : JSON.stringify(body);
+  const canonical = [
+    method,
+    path,
+    headers['x-timestamp'],
+    crypto.createHash('sha256').update(received).digest('hex')
+  ].join('\n');
+  const expected = crypto.createHmac('sha256', secret).update(canonical).digest('base64');
+  return (
+    headers['x-signature'] === `keyId="suite",algorithm="hmac-sha256",signature="${expected}"`
+  );
+}
+
+test.describe('API auth strategies', () => {
+  test.afterEach(() => {
+    OAuth2Auth.clearTokens();
+  });
+
+  test('token and API key strategies apply per request @api @auth', async ({ mockApi }) => {
+    mockApi.route('GET /whoami', echo);
+    const client = new ApiClient(mockApi.url);
+
+    const bearer = await client.get('/whoami', { authStrategy: new TokenAuth('abc') });
+    const header = await client.get('/whoami', { authStrategy: new ApiKeyAuth('key-1') });
+    const query = await client.get('/whoami', {
+      authStrategy: new ApiKeyAuth('key-2', { in: 'query', name: 'api_key' })
+    });
+    const none = await client.get('/whoami', { authStrategy: false });
+
+    expect(bearer.data.headers.authorization).toBe('Bearer abc');
+    expect(header.data.headers['x-api-key']).toBe('key-1');
+    expect(query.data.query).toEqual({ api_key: 'key-2' });
+    expect(none.data.headers.authorization).toBeUndefined();
+  });
+
+  test('OAuth2 caches its token and renews it after a 401 @api @auth', async ({ mockApi }) => {
+    let issued = 0;
+    let valid: string | undefined;
+    mockApi
+      .route('POST /oauth/token', ({ body }) => {
+        expect(new URLSearchParams(String(body)).get('grant_type')).toBe('client_credentials');
+        valid = `token-${++issued}`;
+        return { body: { access_token: valid, token_type: 'bearer', expires_in: 3600 } };
+      })
+      .route('GET /orders', ({ headers }) =>
+        headers.authorization === `Bearer ${valid}` ? { body: [] } : { status: 401 }
+      );
+    const client = new ApiClient(mockApi.url);
+    client.useAuth(
+      new OAuth2Auth({
+        grant: 'client_credentials',
+        tokenUrl: `${mockApi.url}/oauth/token`,
+        clientId: 'suite',
+        clientSecret: 'secret'
+      })
+    );
+
+    await client.get('/orders');
+    await client.get('/orders');
+    expect(issued).toBe(1);
+
+    // The server revokes the token: the next request is refused once and replayed
+    valid = undefined;
+    expect((await client.get('/orders')).status).toBe(200);
+    expect(issued).toBe(2);
+    expect(mockApi.journal.map(({ path, status }) => `${path} ${status}`)).toEqual([
+      '/oauth/token 200',
+      '/orders 200',
+      '/orders 200',
+      '/orders 401',
+      '/oauth/token 200',
+      '/orders 200'
+    ]);
+  });
+
+  test('session auth logs in once and sends cookie and session header @api @auth', async ({
+    mockApi
+  }) => {
+    mockApi
+      .route('POST /api/login', ({ body }) => ({
+        headers: { 'set-cookie': 'sid=s1; Path=/; HttpOnly' },
+        body: { sessionId: `session-of-${(body as { username: string }).username}` }
+      }))
+      .route('GET /whoami', echo);
+    const client = new ApiClient(mockApi.url);
+    client.useAuth(
+      new SessionAuth({ loginUrl: `${mockApi.url}/api/login`, username: 'qa', password: 'pw' })
+    );
+
+    await client.get('/whoami');
+    const { data } = await client.get('/whoami');
+
+    expect(data.headers.cookie).toBe('sid=s1');
+    expect(data.headers['x-session-id']).toBe('session-of-qa');
+    expect(mockApi.journal.filter(entry => entry.path === '/api/login')).toHaveLength(1);
+  });
+
+  test('HMAC signature verifies against the request the server receives @api @auth', async ({
+    mockApi
+  }) => {
+    const secret = 'shared-secret';
+    const verify = (request: MockRequest) => ({
+      status: validSignature(request, secret) ? 201 : 401
+    });
+    mockApi.route('POST /payments', verify).route('POST /receipts', verify);
+    const client = new ApiClient(mockApi.url);
+    const authStrategy = new HmacAuth({ keyId: 'suite', secret });
+
+    const payment = await client.post(
+      '/payments',
+      { amount: 10, currency: 'EUR' },
+      { authStrategy }
+    );
+    // The multipart form is signed as it is streamed, not as an empty body
+    const receipt = await client.uploadFile(
+      '/receipts',
+      [{ source: Buffer.from('receipt 42'), filename: 'receipt.txt' }],
+      { fields: { payment: 42 }, config: { authStrategy } }
+    );
+
+    expect(payment.status).toBe(201);
+    expect(receipt.status).toBe(201);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  envLayer,
+  explainPath,
+  fileLayer,
+  parseOverrideList,
+  resolveLayers
+} from '../../utils/config-loader';
+import { expect, test } from '../../fixtures';
+import { config } from '../../utils/config';
+import fs from 'fs';
+
+/**
+ * Put back environment variables as they were before a test changed them
+ */
+function restoreEnv(saved: Record<string, string | undefined>): void {
+  for (const [name, value] of Object.entries(saved)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+}
+
+test.describe('Config layers', () => {
+  test('overrides beat the environment, which beats the JSON file @api @config', async () => {
+    const file = test.info().outputPath('staging.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ test: { workers: 8, retries: 3 }, browser: { viewport: { width: 1024 } } })
+    );
+    const environment = config.getEnvironment();
+
+    const resolved = resolveLayers(config.getAll(), [
+      fileLayer(file),
+      envLayer('dotenv', '.env', { WORKERS: '6', RETRIES: '2' }, environment),
+      envLayer('process-env', 'process.env', { WORKERS: '4' }, environment),
+      { name: 'overrides', origin: 'CONFIG_OVERRIDES', values: parseOverrideList('test.workers=1') }
+    ]);
+
+    expect(resolved.config.test).toMatchObject({ workers: 1, retries: 2 });
+    // Objects merge key by key: the file's width does not drop the default height
+    expect(resolved.config.browser.viewport).toEqual({
+      width: 1024,
+      height: config.getBrowserConfig().viewport.height
+    });
+    const [workers] = explainPath(resolved, 'test.workers');
+    expect(workers).toMatchObject({ value: 1, layer: 'overrides', origin: 'CONFIG_OVERRIDES' });
+    expect(workers?.overridden.map(entry => [entry.layer, entry.envVar, entry.value])).toEqual([
+      ['defaults', undefined, config.getAll().test.workers],
+      ['environment-file', undefined, 8],
+      ['dotenv', 'WORKERS', 6],
+      ['process-env', 'WORKERS', 4]
+    ]);
+    expect(explainPath(resolved, 'test.retries')[0]).toMatchObject({
+      layer: 'dotenv',
+      envVar: 'RETRIES'
+    });
+  });
+
+  test('CONFIG_OVERRIDES wins over process variables in Config @api @config', async () => {
+    const previousTarget = config.getTarget()?.name;
+    const { SLOW_MO, CONFIG_OVERRIDES } = process.env;
+    Object.assign(process.env, { SLOW_MO: '50', CONFIG_OVERRIDES: 'browser.slowMo=7' });
+    try {
+      config.useTarget(previousTarget);
+
+      expect(config.get('browser.slowMo')).toBe(7);
+      const [slowMo] = config.explain('browser.slowMo');
+      expect(slowMo).toMatchObject({ layer: 'overrides', origin: 'CONFIG_OVERRIDES' });
+      expect(slowMo?.overridden).toContainEqual({
+        layer: 'process-env',
+        origin: 'process.env',
+        envVar: 'SLOW_MO',
+        value: 50
+      });
+    } finally {
+      restoreEnv({ SLOW_MO, CONFIG_OVERRIDES });
+      config.useTarget(previousTarget);
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { ConfigValidationError, validateAgainstSchema } from '../../utils/config-schema';
+import { envLayer, resolveLayers, resolveSecrets } from '../../utils/config-loader';
+import { expect, test } from '../../fixtures';
+import { config } from '../../utils/config';
+
+test.describe('Config schema', () => {
+  test('reports every violation with the variable to fix @api @config', async () => {
+    const layer = envLayer(
+      'process-env',
+      'process.env',
+      {
+        WORKERS: 'abc',
+        RETRIES: '-1',
+        HEADLESS: 'maybe',
+        API_AUTH: 'kerberos',
+        API_BASE_URL: 'localhost:3001',
+        API_RETRY_STATUS_CODES: '503,9999'
+      },
+      config.getEnvironment()
+    );
+    const resolved = resolveLayers(config.getAll(), [layer]);
+    resolveSecrets(resolved, config.getEnvironment());
+
+    const issues = validateAgainstSchema(resolved.config, key => {
+      const envVar = layer.envVars?.[key];
+      return envVar ? { envVar } : undefined;
+    });
+
+    expect(new ConfigValidationError(issues).message.split('\n')).toEqual([
+      'Invalid configuration:',
+      '  - browser.headless (from HEADLESS): expected "true" or "false" but got "maybe"',
+      '  - test.workers (from WORKERS): expected an integer but got "abc"',
+      '  - test.retries (from RETRIES): must be >= 0 but got -1',
+      '  - urls.api (from API_BASE_URL): expected an absolute http(s) URL but got "localhost:3001"',
+      '  - api.retry.statusCodes (from API_RETRY_STATUS_CODES): expected integers in 100..599 ' +
+        'but got 9999',
+      '  - api.auth.strategy (from API_AUTH): expected one of none, bearer, api-key, oauth2, ' +
+        'session, hmac but got "kerberos"'
+    ]);
+  });
+
+  test('invalid values fall back to defaults, marked in explain() @api @config', async () => {
+    const previousTarget = config.getTarget()?.name;
+    const { WORKERS } = process.env;
+    process.env.WORKERS = 'abc';
+    try {
+      config.useTarget(previousTarget);
+
+      const [explanation] = config.explain('test.workers');
+
+      expect(config.get('test.workers')).toBe(4);
+      expect(config.getValidationIssues()).toContainEqual({
+        path: 'test.workers',
+        envVar: 'WORKERS',
+        message: 'expected an integer but got "abc"; using 4'
+      });
+      expect(explanation).toMatchObject({ value: 4, layer: 'fallback', origin: 'built-in' });
+      expect(explanation?.overridden.slice(-1)).toEqual([
+        { layer: 'process-env', origin: 'process.env', envVar: 'WORKERS', value: 'abc' }
+      ]);
+    } finally {
+      if (WORKERS === undefined) {
+        delete process.env.WORKERS;
+      } else {
+        process.env.WORKERS = WORKERS;
+      }
+      config.useTarget(previousTarget);
+    }
+  });
+});
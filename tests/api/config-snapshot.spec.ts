@@ -0,0 +1,74 @@
+import {
+  ConfigSnapshot,
+  createSnapshot,
+  diffSnapshots,
+  formatSnapshotDiff,
+  readSnapshot,
+  writeSnapshot
+} from '../../utils/config-snapshot';
+import { envLayer, resolveLayers, resolveSecrets } from '../../utils/config-loader';
+import { expect, test } from '../../fixtures';
+import { REDACTED } from '../../utils/secrets';
+import { config } from '../../utils/config';
+
+/**
+ * Snapshot of the active configuration with `vars` set in the process environment
+ */
+function snapshotWith(vars: Record<string, string>, target?: string): ConfigSnapshot {
+  const resolved = resolveLayers(config.getAll(), [
+    envLayer('process-env', 'process.env', vars, config.getEnvironment())
+  ]);
+  resolveSecrets(resolved, config.getEnvironment());
+  return createSnapshot(resolved, target);
+}
+
+const OAUTH2 = {
+  API_AUTH: 'oauth2',
+  OAUTH2_TOKEN_URL: 'https://idp.example.com/token',
+  OAUTH2_CLIENT_SECRET: 'client-s3cret',
+  API_KEY_NAME: 'X-Key',
+  API_KEY_IN: 'query'
+};
+
+test.describe('Config snapshot', () => {
+  test('masks secrets but keeps settings named like them @api @config', async () => {
+    const snapshot = snapshotWith(OAUTH2);
+    const auth = (snapshot.config.api as { auth: Record<string, unknown> }).auth;
+
+    expect(auth.oauth2).toMatchObject({
+      tokenUrl: 'https://idp.example.com/token',
+      clientSecret: REDACTED
+    });
+    expect(auth).toMatchObject({ apiKeyName: 'X-Key', apiKeyIn: 'query' });
+    expect(JSON.stringify(snapshot)).not.toContain('client-s3cret');
+    expect(snapshot.sources['api.auth.oauth2.tokenUrl']).toBe('process-env (OAUTH2_TOKEN_URL)');
+  });
+
+  test('diffs a changed token URL and worker count, highlighted first @api @config', async () => {
+    const dir = test.info().outputPath('nightly-1');
+    writeSnapshot(snapshotWith({ ...OAUTH2, WORKERS: '2' }, 'eu-staging'), dir);
+    const before = readSnapshot(dir);
+    const after = snapshotWith({
+      ...OAUTH2,
+      OAUTH2_TOKEN_URL: 'https://idp.example.com/oauth2/token',
+      OAUTH2_CLIENT_SECRET: 'rotated-s3cret',
+      WORKERS: '4'
+    });
+
+    const changes = diffSnapshots(before, after);
+
+    expect(changes.map(({ path, category }) => [path, category])).toEqual([
+      ['test.workers', 'workers'],
+      ['target', 'other'],
+      ['api.auth.oauth2.tokenUrl', 'other']
+    ]);
+    expect(changes[0]).toMatchObject({ before: 2, after: 4 });
+    const report = formatSnapshotDiff(changes, { before: 'nightly-1', after: 'nightly-2' });
+    expect(report).toContain('! workers');
+    expect(report).toContain(
+      'api.auth.oauth2.tokenUrl: "https://idp.example.com/token" -> ' +
+        '"https://idp.example.com/oauth2/token"'
+    );
+    expect(diffSnapshots(after, after)).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  ContractRecorder,
+  ContractVerifier,
+  ProviderStateHandlers,
+  matchShape
+} from '../../utils/contracts';
+import { expect, test } from '../../fixtures';
+import { ApiClient } from '../../utils/api-client';
+import { ContractsConfig } from '../../utils/config-schema';
+import { MockApiServer } from '../../utils/mock-api-server';
+import fs from 'fs';
+import { providerStates } from '../../contracts/provider-states';
+import { spawnSync } from 'child_process';
+
+function contractsConfig(): ContractsConfig {
+  const dir = test.info().outputPath('contracts');
+  return { record: true, dir, consumer: 'web', provider: 'api' };
+}
+
+/**
+ * Record `GET /users/1` as the given consumer test into the test's contract file
+ */
+async function recordUserLookup(mockApi: MockApiServer, testName: string): Promise<string> {
+  const options = contractsConfig();
+  const recorder = new ContractRecorder(`${options.dir}/web-api.json`, testName, options);
+  const client = new ApiClient(mockApi.url);
+  client.useContract(recorder.given('a user exists', { id: 1 }).uponReceiving('a user lookup'));
+  await client.get('/users/1');
+  await recorder.save();
+  return recorder.file;
+}
+
+test.describe('Consumer contracts', () => {
+  test('recorded interactions verify against a matching provider @api @contracts', async ({
+    mockApi
+  }) => {
+    mockApi.route('GET /users/:id', ({ params }) => ({
+      body: { id: Number(params.id), email: 'ada@example.com' }
+    }));
+    const file = await recordUserLookup(mockApi, 'users.spec.ts › lookup');
+    const setUp: unknown[] = [];
+    const states: ProviderStateHandlers = {
+      'a user exists': async params => {
+        setUp.push(params);
+      }
+    };
+
+    const verifier = new ContractVerifier(new ApiClient(mockApi.url), states);
+    const verification = await verifier.verify(file);
+
+    expect(verification.passed).toBe(true);
+    expect(verification.interactions).toMatchObject([
+      { description: 'a user lookup', test: 'users.spec.ts › lookup', passed: true }
+    ]);
+    expect(setUp).toEqual([{ id: 1 }]);
+  });
+
+  test('verification reports shape changes and missing states @api @contracts', async ({
+    mockApi
+  }) => {
+    mockApi.route('GET /users/:id', { body: { id: 1, email: 'ada@example.com' } });
+    const file = await recordUserLookup(mockApi, 'users.spec.ts › lookup');
+    // The provider changed: ids became strings and email is gone
+    mockApi.route('GET /users/:id', { body: { id: '1' } });
+    const client = new ApiClient(mockApi.url);
+
+    const unhandled = await new ContractVerifier(client).verify(file);
+    const states: ProviderStateHandlers = { 'a user exists': async () => {} };
+    const changed = await new ContractVerifier(client, states).verify(file);
+
+    expect(unhandled.interactions[0]?.mismatches).toEqual([
+      { path: 'state', message: 'no handler for provider state "a user exists"' }
+    ]);
+    expect(changed.passed).toBe(false);
+    expect(changed.interactions[0]?.mismatches.map(mismatch => mismatch.path)).toEqual([
+      '/id',
+      '/email'
+    ]);
+  });
+
+  test('saves keep the interactions of every test @api @contracts', async ({ mockApi }) => {
+    mockApi.route('GET /users/:id', { body: { id: 1 } });
+    const options = contractsConfig();
+    fs.mkdirSync(options.dir, { recursive: true });
+    // A lock left behind by a process that is gone is taken over
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    fs.writeFileSync(`${options.dir}/web-api.json.lock`, String(pid));
+
+    const files = await Promise.all(
+      ['a.spec.ts › one', 'b.spec.ts › two', 'c.spec.ts › three'].map(name =>
+        recordUserLookup(mockApi, name)
+      )
+    );
+
+    const contract = ContractVerifier.read(files[0] as string, options);
+    expect(contract.interactions.map(interaction => interaction.test)).toEqual([
+      'a.spec.ts › one',
+      'b.spec.ts › two',
+      'c.spec.ts › three'
+    ]);
+    expect(fs.existsSync(`${options.dir}/web-api.json.lock`)).toBe(false);
+  });
+
+  test('optional fields may be missing from the provider @api @contracts', async () => {
+    const recorded = { data: { id: 1, updatedAt: '2024-01-01T00:00:00Z' }, items: [{ sku: 'a' }] };
+    const provided = { data: { id: 1 }, items: [{}] };
+
+    expect(matchShape(recorded, provided).map(mismatch => mismatch.path)).toEqual([
+      '/data/updatedAt',
+      '/items/0/sku'
+    ]);
+    expect(matchShape(recorded, provided, ['/data/updatedAt', '/items/*/sku'])).toEqual([]);
+  });
+
+  test('a re-run contract verifies against the sample provider @api @contracts', async ({
+    mockApi
+  }) => {
+    const email = 'grace@example.com';
+    const provider = new ApiClient(mockApi.url);
+    const { data: existing } = await provider.get('/users/1');
+    await provider.put('/users/1', { name: 'Renamed', email: existing.data.email });
+    const options = contractsConfig();
+    const recorder = new ContractRecorder(`${options.dir}/web-api.json`, 'users.spec.ts', options);
+    const client = new ApiClient(mockApi.url);
+    client.useContract(recorder);
+
+    recorder.given('no user has the email', { email });
+    await client.post('/users', { name: 'Grace Hopper', email });
+    recorder.optional('/data/updatedAt');
+    await client.get('/users/1');
+    await recorder.save();
+    // The provider starts over without the update, but with the user the last run created
+    await mockApi.reset();
+    await provider.post('/users', { name: 'Grace Hopper', email });
+    const verification = await new ContractVerifier(provider, providerStates).verify(
+      recorder.file
+    );
+
+    expect(verification.interactions.flatMap(interaction => interaction.mismatches)).toEqual([]);
+    expect(ContractVerifier.read(recorder.file, options).interactions[1]?.response).toMatchObject({
+      optional: ['/data/updatedAt']
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { DbAssertionError, DbClient, SqliteAdapter } from '../../utils/db-client';
+import { expect, test } from '../../fixtures';
+
+const SEED_DIR = 'data/seeds';
+
+const user = (id: number) => ({
+  id,
+  name: `User ${id}`,
+  email: `user${id}@example.com`,
+  created_at: '2024-02-01T00:00:00Z'
+});
+
+test.describe('DbClient', () => {
+  let db: DbClient;
+
+  test.beforeEach(async () => {
+    db = new DbClient(await SqliteAdapter.open());
+    await db.seed(SEED_DIR);
+  });
+
+  test.afterEach(async () => {
+    await db.close();
+  });
+
+  test('nested rollbacks undo only their savepoint @api @db', async () => {
+    // As the db fixture does: everything a test writes sits in one outer transaction
+    await db.begin();
+    await db.insert('users', user(10));
+
+    await db.begin();
+    await db.insert('users', user(11));
+    await db.begin();
+    await db.delete('users', { id: 1 });
+    await db.rollback();
+    await db.expectRow('users', { id: 1 });
+    await db.commit();
+
+    await db.expectRowCount('users', {}, 5);
+    await db.rollback();
+    await db.expectNoRow('users', { id: 10 });
+    await db.expectNoRow('users', { id: 11 });
+    await db.expectRowCount('users', {}, 3);
+  });
+
+  test('transaction() commits on success and rolls back on error @api @db', async () => {
+    await db.begin();
+
+    const inserted = await db.transaction(tx => tx.insert('users', [user(20), user(21)]));
+    await expect(
+      db.transaction(async tx => {
+        await tx.insert('users', user(22));
+        // Violates the unique email of user 20
+        await tx.insert('users', { ...user(23), email: 'user20@example.com' });
+      })
+    ).rejects.toThrow(/UNIQUE/);
+
+    expect(inserted).toBe(2);
+    await db.expectRowCount('users', {}, 5);
+    await db.expectNoRow('users', { id: 22 });
+    await db.rollback();
+    await db.expectRowCount('users', {}, 3);
+  });
+
+  test('seeding again inserts nothing and row assertions name the table @api @db', async () => {
+    const again = await db.seed(SEED_DIR);
+
+    expect(again.files.map(file => file.replace(/\\/g, '/'))).toEqual([
+      `${SEED_DIR}/001-schema.sql`,
+      `${SEED_DIR}/002-sample-data.json`
+    ]);
+    expect(again.rows).toBe(0);
+    expect(await db.expectRow('users', { role: 'admin' })).toMatchObject({ id: 2 });
+    await expect(db.expectRow('users', { role: 'user' })).rejects.toThrow(
+      'Expected one row in users matching {"role":"user"}, found 2'
+    );
+    await expect(db.expectNoRow('users', { id: 1 })).rejects.toBeInstanceOf(DbAssertionError);
+  });
+});
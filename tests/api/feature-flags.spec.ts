@@ -0,0 +1,45 @@
+import { FeatureFlagManager, HttpFlagProvider } from '../../utils/feature-flags';
+import { expect, flagVariant, test } from '../../fixtures';
+import { ApiClient } from '../../utils/api-client';
+
+test.describe('Feature flags', () => {
+  test.afterEach(async () => {
+    delete process.env.FEATURE_FLAGS;
+    // Back to the worker's configured flags for the tests that follow
+    FeatureFlagManager.useProvider(undefined);
+    await FeatureFlagManager.load();
+  });
+
+  test('HTTP provider accepts every flag document shape @api @flags', async ({ mockApi }) => {
+    mockApi
+      .route('GET /flags/plain', { body: { 'new-dashboard': true } })
+      .route('GET /flags/wrapped', { body: { flags: { 'new-dashboard': true } } })
+      .route('GET /flags/list', { body: [{ name: 'new-dashboard', enabled: true }] })
+      .route('GET /flags/invalid', { body: { 'new-dashboard': 'yes' } });
+    const client = new ApiClient(mockApi.url);
+
+    for (const endpoint of ['/flags/plain', '/flags/wrapped', '/flags/list']) {
+      expect(await new HttpFlagProvider(endpoint, client).load()).toEqual({
+        'new-dashboard': true
+      });
+    }
+    await expect(new HttpFlagProvider('/flags/invalid', client).load()).rejects.toThrow(
+      'Invalid feature flag entry in http:/flags/invalid'
+    );
+  });
+
+  test('FEATURE_FLAGS overrides provider values @api @flags', async ({ mockApi }) => {
+    mockApi.route('GET /flags', { body: { 'new-dashboard': false, 'beta-search': true } });
+    process.env.FEATURE_FLAGS = 'new-dashboard=on';
+    FeatureFlagManager.useProvider(new HttpFlagProvider('/flags', new ApiClient(mockApi.url)));
+
+    expect(await FeatureFlagManager.load()).toEqual({ 'new-dashboard': true, 'beta-search': true });
+    expect(FeatureFlagManager.getResolved()?.source).toBe('http:/flags');
+    expect(FeatureFlagManager.isEnabled('unknown-flag')).toBe(false);
+    expect(flagVariant('new-dashboard', { on: () => 'new', off: () => 'old' })).toBe('new');
+    expect(test.info().annotations).toContainEqual({
+      type: 'feature-flag',
+      description: 'new-dashboard=on'
+    });
+  });
+});
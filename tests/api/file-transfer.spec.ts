@@ -0,0 +1,83 @@
+import { ChecksumMismatchError, TransferProgress } from '../../utils/file-transfer';
+import { expect, test } from '../../fixtures';
+import { ApiClient } from '../../utils/api-client';
+import crypto from 'crypto';
+import fs from 'fs';
+import zlib from 'zlib';
+
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+test.describe('File transfer', () => {
+  test('streams multipart uploads and sends them again on retry @api @files', async ({
+    mockApi
+  }) => {
+    const report = test.info().outputPath('report.csv');
+    fs.writeFileSync(report, 'id,total\n1,9.99\n');
+    const received: Array<{ contentType: unknown; length: unknown; body: string }> = [];
+    mockApi.route('POST /uploads', ({ headers, body }) => {
+      received.push({
+        contentType: headers['content-type'],
+        length: headers['content-length'],
+        body: String(body)
+      });
+      return received.length === 1 ? { status: 503 } : { status: 201, body: { stored: 2 } };
+    });
+    const progress: TransferProgress[] = [];
+
+    const response = await new ApiClient(mockApi.url).uploadFile(
+      '/uploads',
+      [report, { source: Buffer.from('PNG-bytes'), field: 'avatar', filename: 'avatar.png' }],
+      {
+        fields: { owner: 'qa', meta: { tags: ['nightly'] } },
+        onProgress: update => progress.push(update),
+        config: { retry: { nonIdempotent: true, baseDelayMs: 10, maxDelayMs: 20 } }
+      }
+    );
+
+    expect(response.status).toBe(201);
+    expect(received).toHaveLength(2);
+    // The retried attempt, streamed from the file again
+    const upload = received[1] as (typeof received)[number];
+    expect(upload.contentType).toMatch(/^multipart\/form-data; boundary=/);
+    expect(Number(upload.length)).toBe(Buffer.byteLength(upload.body));
+    expect(upload.body).toContain('name="file"; filename="report.csv"');
+    expect(upload.body).toContain('Content-Type: text/csv');
+    expect(upload.body).toContain('id,total\n1,9.99\n');
+    expect(upload.body).toContain('name="avatar"; filename="avatar.png"');
+    expect(upload.body).toContain('{"tags":["nightly"]}');
+    const last = progress[progress.length - 1];
+    expect(last?.loaded).toBe(last?.total);
+  });
+
+  test('verifies the checksum of downloads and keeps no corrupt file @api @files', async ({
+    mockApi
+  }) => {
+    const content = Buffer.from('quarterly export\n'.repeat(100));
+    mockApi
+      .route('GET /exports/plain', { headers: { 'content-type': 'text/csv' }, body: content })
+      .route('GET /exports/gzip', {
+        headers: { 'content-type': 'text/csv', 'content-encoding': 'gzip' },
+        body: zlib.gzipSync(content)
+      });
+    const client = new ApiClient(mockApi.url);
+    const destination = test.info().outputPath('export.csv');
+
+    const result = await client.downloadToFile('/exports/plain', destination, {
+      checksum: `sha256:${sha256(content)}`
+    });
+    expect(result).toMatchObject({ bytes: content.length, contentType: 'text/csv' });
+    expect(fs.readFileSync(destination)).toEqual(content);
+
+    const gzipped = await client.downloadToFile('/exports/gzip', destination, {
+      checksum: sha256(content)
+    });
+    expect(gzipped.bytes).toBe(content.length);
+
+    const corrupt = test.info().outputPath('corrupt.csv');
+    await expect(
+      client.downloadToFile('/exports/plain', corrupt, { checksum: sha256(Buffer.from('x')) })
+    ).rejects.toThrow(ChecksumMismatchError);
+    expect(fs.existsSync(corrupt)).toBe(false);
+    expect(fs.existsSync(`${corrupt}.part`)).toBe(false);
+  });
+});
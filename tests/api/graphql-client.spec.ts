@@ -0,0 +1,135 @@
+import {
+  GraphQLClient,
+  GraphQLRequestError,
+  GraphQLUpload,
+  GraphQLValidationError
+} from '../../utils/graphql-client';
+import { expect, test } from '../../fixtures';
+import { ApiClient } from '../../utils/api-client';
+import { GraphQLSchemaValidator } from '../../utils/graphql-schema';
+import { MockApiServer } from '../../utils/mock-api-server';
+import { config } from '../../utils/config';
+
+const SDL = `
+  type Query { user(id: ID!): User }
+  type Mutation { uploadAvatar(file: Upload!): Boolean! }
+  type User { id: ID! name: String! }
+  scalar Upload
+`;
+
+const USER_QUERY = 'query GetUser($id: ID!) { user(id: $id) { id name } }';
+const UPLOAD_MUTATION = 'mutation Upload($file: Upload!) { uploadAvatar(file: $file) }';
+
+interface GraphQLBody {
+  query?: string;
+  operationName?: string;
+  variables?: Record<string, unknown>;
+  extensions?: { persistedQuery?: { sha256Hash: string } };
+}
+
+function graphqlClient(mockApi: MockApiServer): GraphQLClient {
+  const graphql = new GraphQLClient(new ApiClient(mockApi.url), '/graphql');
+  graphql.useSchema(new GraphQLSchemaValidator(SDL));
+  return graphql;
+}
+
+test.describe('GraphQL client', () => {
+  test('returns data and validates it against the schema @api @graphql', async ({
+    mockApi
+  }) => {
+    let name: unknown = 'Ada';
+    mockApi.route('POST /graphql', ({ body }) => ({
+      body: { data: { user: { id: (body as GraphQLBody).variables?.id, name } } }
+    }));
+    const graphql = graphqlClient(mockApi);
+
+    const { data } = await graphql.query<{ user: { id: string; name: string } }>(USER_QUERY, {
+      id: '1'
+    });
+    expect(data.user).toEqual({ id: '1', name: 'Ada' });
+
+    name = 42;
+    await expect(graphql.query(USER_QUERY, { id: '1' })).rejects.toThrow(GraphQLValidationError);
+  });
+
+  test('fails on errors[] unless errorPolicy is all @api @graphql', async ({ mockApi }) => {
+    const errors = [
+      { message: 'Not allowed', path: ['user'], extensions: { code: 'FORBIDDEN' } }
+    ];
+    mockApi.route('POST /graphql', { body: { data: { user: null }, errors } });
+    const graphql = graphqlClient(mockApi);
+
+    const failure = await graphql.query(USER_QUERY, { id: '1' }).catch(error => error);
+    expect(failure).toBeInstanceOf(GraphQLRequestError);
+    expect((failure as GraphQLRequestError).codes).toEqual(['FORBIDDEN']);
+
+    const partial = await graphql.query(USER_QUERY, { id: '1' }, { errorPolicy: 'all' });
+    expect(partial.data).toEqual({ user: null });
+    expect(partial.errors).toEqual(errors);
+  });
+
+  test('sends a persisted query document only when asked for it @api @graphql', async ({
+    mockApi
+  }) => {
+    const known = new Map<string, string>();
+    const sent: Array<'hash' | 'document'> = [];
+    mockApi.route('POST /graphql', ({ body }) => {
+      const { query, extensions } = body as GraphQLBody;
+      const hash = extensions?.persistedQuery?.sha256Hash as string;
+      sent.push(query ? 'document' : 'hash');
+      if (query) {
+        known.set(hash, query);
+      } else if (!known.has(hash)) {
+        const error = {
+          message: 'PersistedQueryNotFound',
+          extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' }
+        };
+        return { body: { errors: [error] } };
+      }
+      return { body: { data: { user: { id: '1', name: 'Ada' } } } };
+    });
+    const graphql = graphqlClient(mockApi);
+
+    await graphql.query(USER_QUERY, { id: '1' }, { persisted: true });
+    await graphql.query(USER_QUERY, { id: '1' }, { persisted: true });
+
+    expect(sent).toEqual(['hash', 'document', 'hash']);
+  });
+
+  test('sends uploads as a GraphQL multipart request @api @graphql', async ({ mockApi }) => {
+    // The mock echoes the raw request in extensions
+    mockApi.route('POST /graphql', ({ headers, body }) => ({
+      body: {
+        data: { uploadAvatar: true },
+        extensions: { contentType: headers['content-type'], body }
+      }
+    }));
+
+    const { data, extensions } = await graphqlClient(mockApi).mutate(UPLOAD_MUTATION, {
+      file: new GraphQLUpload(Buffer.from('avatar-bytes'), { filename: 'avatar.png' })
+    });
+
+    expect(data).toEqual({ uploadAvatar: true });
+    expect(extensions?.contentType).toMatch(/^multipart\/form-data; boundary=.+/);
+    const form = String(extensions?.body);
+    expect(form).toContain('"variables":{"file":null}');
+    expect(form).toContain('{"0":["variables.file"]}');
+    expect(form).toContain('filename="avatar.png"');
+    expect(form).toContain('avatar-bytes');
+  });
+
+  test('retries queries but sends mutations once @api @graphql', async ({ mockApi }) => {
+    mockApi.route('POST /graphql', { status: 503 });
+    const graphql = graphqlClient(mockApi);
+    const { maxAttempts } = config.getApiConfig().retry;
+
+    await expect(graphql.query(USER_QUERY, { id: '1' })).rejects.toMatchObject({ status: 503 });
+    expect(mockApi.journal).toHaveLength(maxAttempts);
+
+    mockApi.journal.length = 0;
+    await expect(graphql.mutate(UPLOAD_MUTATION, { file: null })).rejects.toMatchObject({
+      status: 503
+    });
+    expect(mockApi.journal).toHaveLength(1);
+  });
+});
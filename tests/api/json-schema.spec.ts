@@ -0,0 +1,59 @@
+import { JsonSchema, validateJsonSchema } from '../../utils/json-schema';
+import { expect, test } from '../../fixtures';
+import { ApiValidator } from '../../utils/api-client';
+
+const keywords = (schema: JsonSchema, data: unknown) =>
+  validateJsonSchema(schema, data).map(violation => violation.keyword);
+
+test.describe('JSON Schema validation', () => {
+  test.describe('Object keywords only see own properties @api @schema', () => {
+    test('additionalProperties rejects names of Object.prototype', () => {
+      const schema: JsonSchema = { type: 'object', properties: {}, additionalProperties: false };
+
+      expect(keywords(schema, { constructor: 1, toString: 'x' })).toEqual([
+        'additionalProperties',
+        'additionalProperties'
+      ]);
+    });
+
+    test('required is not met by inherited properties', () => {
+      const schema: JsonSchema = { type: 'object', required: ['constructor'] };
+
+      expect(keywords(schema, {})).toEqual(['required']);
+      expect(keywords(schema, { constructor: 1 })).toEqual([]);
+    });
+
+    test('unevaluatedProperties is not satisfied by inherited property schemas', () => {
+      const schema: JsonSchema = {
+        type: 'object',
+        properties: { id: { type: 'integer' } },
+        unevaluatedProperties: false
+      };
+
+      expect(validateJsonSchema(schema, { id: 1, hasOwnProperty: 1 })).toMatchObject([
+        { pointer: '/hasOwnProperty', schemaPath: '/unevaluatedProperties' }
+      ]);
+    });
+
+    test('dependentRequired and dependentSchemas ignore inherited properties', () => {
+      const schema: JsonSchema = {
+        type: 'object',
+        dependentRequired: { toString: ['valueOf'] },
+        dependentSchemas: { constructor: false }
+      };
+
+      expect(keywords(schema, {})).toEqual([]);
+      expect(keywords(schema, { toString: 'x' })).toEqual(['dependentRequired']);
+    });
+  });
+
+  test('validateSchema returns a boolean, schemaViolations the violations @api @schema', () => {
+    const schema: JsonSchema = { type: 'object', required: ['id'] };
+
+    expect(ApiValidator.validateSchema({ id: 1 }, schema)).toBe(true);
+    expect(ApiValidator.validateSchema({}, schema)).toBe(false);
+    expect(ApiValidator.schemaViolations({}, schema)).toMatchObject([
+      { pointer: '', keyword: 'required' }
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import { MockApiServer, MockSetup } from '../../utils/mock-api-server';
+import { expect, test } from '../../fixtures';
+import { ApiClient } from '../../utils/api-client';
+import { CassetteFile } from '../../utils/vcr';
+import { OpenApiValidator } from '../../utils/openapi';
+import fs from 'fs';
+
+const OPENAPI_SPEC = 'sample-apps/api-server/openapi.json';
+
+const NO_RETRY = { retry: false } as const;
+
+test.describe('Mock API server', () => {
+  test('routes by method, path parameters and query @api @mock', async ({ mockApi }) => {
+    mockApi
+      .route('/items/{id}', { status: 405 })
+      .route('GET /items/:id', ({ params }) => ({ body: { id: params.id } }))
+      .route('GET /items/special', ({ query }) => ({ body: { special: true, query } }));
+    const client = new ApiClient(mockApi.url);
+
+    expect((await client.get('/items/7')).data).toEqual({ id: '7' });
+    // The route added last wins when several match
+    expect((await client.get('/items/special', { params: { tag: 'new' } })).data).toEqual({
+      special: true,
+      query: { tag: 'new' }
+    });
+    await expect(client.delete('/items/8', NO_RETRY)).rejects.toMatchObject({ status: 405 });
+    await expect(client.get('/unknown', NO_RETRY)).rejects.toMatchObject({ status: 404 });
+    expect(mockApi.journal.map(({ path, route, status }) => [path, route, status])).toEqual([
+      ['/items/7', 'GET /items/:id', 200],
+      ['/items/special', 'GET /items/special', 200],
+      ['/items/8', '/items/{id}', 405],
+      ['/unknown', undefined, 404]
+    ]);
+  });
+
+  test('injected failures follow the seed @api @mock', async () => {
+    const setup: MockSetup = mock => {
+      mock
+        .route('GET /flaky', { body: 'ok' })
+        .inject('GET /flaky', { failWith: 503, failureRate: 0.5 });
+    };
+    const outcomes = async (seed: number) => {
+      const mock = await MockApiServer.start(setup, { seed });
+      try {
+        const client = new ApiClient(mock.url);
+        for (let i = 0; i < 8; i++) {
+          await client.get('/flaky', NO_RETRY).catch(() => undefined);
+        }
+        const statuses = mock.journal.map(entry => entry.status);
+        // A reset starts the seeded sequence over
+        await mock.reset();
+        for (let i = 0; i < 8; i++) {
+          await client.get('/flaky', NO_RETRY).catch(() => undefined);
+        }
+        expect(mock.journal.map(entry => entry.status)).toEqual(statuses);
+        return statuses;
+      } finally {
+        await mock.stop();
+      }
+    };
+
+    const first = await outcomes(42);
+
+    expect(first).toContain(503);
+    expect(first).toContain(200);
+    expect(await outcomes(42)).toEqual(first);
+  });
+
+  test('simulates resets, timeouts and latency @api @mock', async ({ mockApi }) => {
+    mockApi
+      .route('GET /reset', { body: 'never' }, { failWith: 'reset' })
+      .route('GET /hang', { body: 'never' }, { failWith: 'timeout' })
+      .route('GET /slow', { body: 'late' }, { latencyMs: [100, 150] });
+    const client = new ApiClient(mockApi.url);
+
+    await expect(client.get('/reset', NO_RETRY)).rejects.toThrow(/socket hang up|ECONNRESET/);
+    await expect(client.get('/hang', { ...NO_RETRY, timeout: 200 })).rejects.toThrow(/timeout/);
+    const startedAt = Date.now();
+    await client.get('/slow');
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(100);
+  });
+
+  test('answers OpenAPI operations with responses that match the spec @api @mock', async () => {
+    const mock = await MockApiServer.start(server => {
+      server.loadOpenApi(OPENAPI_SPEC);
+    });
+    try {
+      const client = new ApiClient(mock.url);
+      client.useOpenApi(OpenApiValidator.fromFile(OPENAPI_SPEC));
+
+      const user = await client.get('/users/1');
+      const search = await client.get('/products/search', { params: { q: 'laptop' } });
+
+      expect(user.status).toBe(200);
+      expect(user.data).toBeDefined();
+      expect(search.status).toBe(200);
+      expect(mock.journal.map(entry => entry.route)).toEqual([
+        'GET /users/{id}',
+        'GET /products/search'
+      ]);
+    } finally {
+      await mock.stop();
+    }
+  });
+
+  test('replays cassettes in recorded order @api @mock', async ({ mockApi }) => {
+    const file = test.info().outputPath('orders.json');
+    const recorded = (status: number, body: unknown) => ({
+      status,
+      statusText: '',
+      headers: { 'content-type': 'application/json' },
+      body,
+      encoding: 'json' as const
+    });
+    const request = { method: 'GET', path: '/orders', query: {}, headers: {}, body: undefined };
+    const cassette: CassetteFile = {
+      name: 'orders',
+      recordedAt: new Date().toISOString(),
+      interactions: [
+        { request, response: recorded(200, { count: 0 }) },
+        { request, response: recorded(200, { count: 1 }) }
+      ]
+    };
+    fs.writeFileSync(file, JSON.stringify(cassette));
+    mockApi.loadCassettes(file);
+    const client = new ApiClient(mockApi.url);
+
+    const counts: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      counts.push((await client.get('/orders')).data.count);
+    }
+
+    expect(counts).toEqual([0, 1, 1]);
+  });
+});
@@ -0,0 +1,100 @@
+import { ProductionGuard, ProductionGuardError } from '../../utils/production-guard';
+import { expect, test } from '../../fixtures';
+import { ApiClient } from '../../utils/api-client';
+import { MockApiServer } from '../../utils/mock-api-server';
+import { config } from '../../utils/config';
+
+/** acme-sandbox is a production profile; its base URL's host confirms an override */
+const PRODUCTION_TARGET = 'acme-sandbox';
+const PRODUCTION_HOST = 'acme.sandbox.example.com';
+
+const GUARD_ENV = [
+  'PRODUCTION_GUARD_MODE',
+  'PRODUCTION_ALLOW_MUTATIONS',
+  'PRODUCTION_CONFIRM_HOST'
+];
+
+function clientFor(mockApi: MockApiServer): ApiClient {
+  const client = new ApiClient(mockApi.url);
+  client.useAuth(null);
+  return client;
+}
+
+test.describe('Production guard', () => {
+  test.beforeEach(({ mockApi }) => {
+    mockApi.route('/items', ({ method }) => ({ status: method === 'POST' ? 201 : 200, body: [] }));
+  });
+
+  test('mutations inside a readonly step are refused @api @guard', async ({ mockApi }) => {
+    const client = clientFor(mockApi);
+
+    await ProductionGuard.step('readonly', 'Check items', async () => {
+      await expect(client.post('/items', {})).rejects.toThrow(ProductionGuardError);
+      // Marked read-only, e.g. a GraphQL query sent as POST
+      expect((await client.post('/items', {}, { readOnly: true })).status).toBe(201);
+    });
+    expect((await client.post('/items', {})).status).toBe(201);
+    expect(mockApi.journal.map(entry => entry.method)).toEqual(['POST', 'POST']);
+  });
+
+  test.describe('in production', () => {
+    let previousTarget: string | undefined;
+
+    const activate = (env: Record<string, string> = {}) => {
+      Object.assign(process.env, env);
+      config.useTarget(PRODUCTION_TARGET);
+    };
+
+    test.beforeEach(() => {
+      previousTarget = config.getTarget()?.name;
+    });
+
+    test.afterEach(() => {
+      for (const name of GUARD_ENV) {
+        delete process.env[name];
+      }
+      config.useTarget(previousTarget);
+    });
+
+    test('refuses mutations before they are sent @api @guard', async ({ mockApi }) => {
+      activate();
+      const client = clientFor(mockApi);
+
+      expect((await client.get('/items')).status).toBe(200);
+      const refused = client.post('/items', {});
+
+      await expect(refused).rejects.toThrow(ProductionGuardError);
+      await expect(refused).rejects.toThrow(`refused in production (target ${PRODUCTION_TARGET})`);
+      expect(mockApi.journal.map(entry => entry.method)).toEqual(['GET']);
+    });
+
+    test('answers mutations locally in dry-run mode @api @guard', async ({ mockApi }) => {
+      activate({ PRODUCTION_GUARD_MODE: 'dry-run' });
+
+      const response = await clientFor(mockApi).delete('/items');
+
+      expect(response.status).toBe(202);
+      expect(response.headers['x-dry-run']).toBe('true');
+      expect(mockApi.journal).toEqual([]);
+    });
+
+    test('is lifted only with the flag and the confirmed host @api @guard', async ({ mockApi }) => {
+      const client = clientFor(mockApi);
+
+      activate({ PRODUCTION_ALLOW_MUTATIONS: 'true' });
+      expect(ProductionGuard.isOverridden()).toBe(false);
+      const error = await client.post('/items', {}).catch((reason: Error) => reason);
+      expect(error).toBeInstanceOf(ProductionGuardError);
+      // Nothing to copy from the message that would lift the guard
+      expect((error as Error).message).not.toContain('PRODUCTION_ALLOW_MUTATIONS');
+      expect((error as Error).message).not.toContain(PRODUCTION_HOST);
+
+      activate({ PRODUCTION_CONFIRM_HOST: 'other.example.com' });
+      expect(ProductionGuard.isOverridden()).toBe(false);
+
+      activate({ PRODUCTION_CONFIRM_HOST: PRODUCTION_HOST });
+      expect(ProductionGuard.isOverridden()).toBe(true);
+      expect((await client.post('/items', {})).status).toBe(201);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { MockApiServer, MockResponse } from '../../utils/mock-api-server';
+import { expect, test } from '../../fixtures';
+import { ApiClient } from '../../utils/api-client';
+
+/** Fast backoff so failing attempts do not slow the suite down */
+const FAST_RETRY = { baseDelayMs: 10, maxDelayMs: 50 };
+
+/**
+ * Route answering `failures` requests with `failure` before it succeeds
+ */
+function flaky(mockApi: MockApiServer, spec: string, failures: number, failure: MockResponse) {
+  let calls = 0;
+  mockApi.route(spec, () => (++calls <= failures ? failure : { body: { ok: true } }));
+}
+
+const statuses = (mockApi: MockApiServer) => mockApi.journal.map(entry => entry.status);
+
+test.describe('Retry policy', () => {
+  test('waits out a Retry-After longer than maxDelayMs @api @retry', async ({ mockApi }) => {
+    flaky(mockApi, 'GET /orders', 1, { status: 503, headers: { 'retry-after': '1' } });
+    const startedAt = Date.now();
+
+    const response = await new ApiClient(mockApi.url).get('/orders', { retry: FAST_RETRY });
+
+    expect(response.data).toEqual({ ok: true });
+    expect(statuses(mockApi)).toEqual([503, 200]);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+  });
+
+  test('does not retry when Retry-After exceeds maxRetryAfterMs @api @retry', async ({
+    mockApi
+  }) => {
+    flaky(mockApi, 'GET /orders', 1, { status: 503, headers: { 'retry-after': '30' } });
+    const startedAt = Date.now();
+
+    const failure = new ApiClient(mockApi.url).get('/orders', {
+      retry: { ...FAST_RETRY, maxRetryAfterMs: 5000 }
+    });
+
+    await expect(failure).rejects.toMatchObject({ status: 503 });
+    expect(statuses(mockApi)).toEqual([503]);
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+
+  test('gives up after maxAttempts @api @retry', async ({ mockApi }) => {
+    mockApi.route('GET /orders', { status: 502 });
+
+    const failure = new ApiClient(mockApi.url).get('/orders', {
+      retry: { ...FAST_RETRY, maxAttempts: 3 }
+    });
+
+    await expect(failure).rejects.toMatchObject({ status: 502 });
+    expect(statuses(mockApi)).toEqual([502, 502, 502]);
+  });
+
+  test('retries timeouts of idempotent requests @api @retry', async ({ mockApi }) => {
+    let calls = 0;
+    mockApi.route('PUT /orders/1', async () => {
+      if (++calls === 1) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+      return { body: { id: 1 } };
+    });
+
+    const response = await new ApiClient(mockApi.url).put('/orders/1', {}, {
+      timeout: 200,
+      retry: FAST_RETRY
+    });
+
+    expect(response.data).toEqual({ id: 1 });
+    expect(calls).toBe(2);
+  });
+
+  test('sends non-idempotent requests once unless allowed @api @retry', async ({ mockApi }) => {
+    flaky(mockApi, 'POST /orders', 1, { status: 503 });
+    const client = new ApiClient(mockApi.url);
+
+    await expect(client.post('/orders', {}, { retry: FAST_RETRY })).rejects.toMatchObject({
+      status: 503
+    });
+    mockApi.journal.length = 0;
+    flaky(mockApi, 'POST /orders', 1, { status: 503 });
+    await client.post('/orders', {}, { retry: { ...FAST_RETRY, nonIdempotent: true } });
+
+    expect(statuses(mockApi)).toEqual([503, 200]);
+  });
+
+  test('does not retry statuses outside statusCodes or with retry: false @api @retry', async ({
+    mockApi
+  }) => {
+    mockApi.route('GET /orders', { status: 404 }).route('GET /busy', { status: 503 });
+    const client = new ApiClient(mockApi.url);
+
+    await expect(client.get('/orders', { retry: FAST_RETRY })).rejects.toMatchObject({
+      status: 404
+    });
+    await expect(client.get('/busy', { retry: false })).rejects.toMatchObject({ status: 503 });
+    expect(statuses(mockApi)).toEqual([404, 503]);
+  });
+});
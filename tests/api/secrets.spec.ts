@@ -0,0 +1,71 @@
+import { EncryptedFileSecretProvider, REDACTED, Secret, SecretManager } from '../../utils/secrets';
+import { expect, test } from '../../fixtures';
+import { inspect } from 'util';
+
+test.describe('Secrets', () => {
+  test('a Secret masks itself wherever it is printed @api @secrets', async () => {
+    const secret = Secret.of('pa55-w0rd-value', 'env');
+
+    expect(String(secret)).toBe(REDACTED);
+    expect(JSON.stringify({ password: secret })).toBe(`{"password":"${REDACTED}"}`);
+    expect(inspect(secret)).toBe(`Secret(${REDACTED})`);
+    expect(secret.reveal()).toBe('pa55-w0rd-value');
+    expect(secret.source).toBe('env');
+    // Once created its value is known, so it is masked inside any text as well
+    expect(SecretManager.redactText('login with pa55-w0rd-value failed')).toBe(
+      `login with ${REDACTED} failed`
+    );
+  });
+
+  test('redact masks credential keys but not settings named after them @api @secrets', async () => {
+    const redacted = SecretManager.redact({
+      password: 'hunter22',
+      DB_PASSWORD: 'db-pass',
+      auth: {
+        accessToken: 'at-1',
+        'x-api-key': 'k-1',
+        clientSecret: 'cs-1',
+        apiKeyIn: 'header',
+        apiKeyName: 'X-API-Key',
+        tokenUrl: 'https://idp.example.com/token'
+      },
+      headers: { Authorization: 'Bearer abc', 'set-cookie': 'sid=1' },
+      nested: { token: { value: 'kept as an object' } }
+    });
+
+    expect(redacted).toEqual({
+      password: REDACTED,
+      DB_PASSWORD: REDACTED,
+      auth: {
+        accessToken: REDACTED,
+        'x-api-key': REDACTED,
+        clientSecret: REDACTED,
+        apiKeyIn: 'header',
+        apiKeyName: 'X-API-Key',
+        tokenUrl: 'https://idp.example.com/token'
+      },
+      headers: { Authorization: REDACTED, 'set-cookie': REDACTED },
+      nested: { token: { value: 'kept as an object' } }
+    });
+    const sensitive = (keys: string[]) => keys.map(key => SecretManager.isSensitiveKey(key));
+    expect(sensitive(['webhookUrl', 'refresh_token', 'APIKey', 'secrets'])).toEqual([
+      true,
+      true,
+      true,
+      true
+    ]);
+    expect(sensitive(['tokenType', 'passwordHint', 'cookieDomain'])).toEqual([false, false, false]);
+  });
+
+  test('the encrypted secrets file only opens with its passphrase @api @secrets', async () => {
+    const file = test.info().outputPath('secrets.enc.json');
+    EncryptedFileSecretProvider.encrypt(file, 'open sesame', { DB_PASSWORD: 'from-the-file' });
+
+    const provider = new EncryptedFileSecretProvider(file, 'open sesame');
+    const locked = new EncryptedFileSecretProvider(file, 'wrong');
+
+    expect(provider.get('DB_PASSWORD')).toBe('from-the-file');
+    expect(provider.get('API_KEY')).toBeUndefined();
+    expect(() => locked.get('DB_PASSWORD')).toThrow(/Failed to decrypt secrets file/);
+  });
+});
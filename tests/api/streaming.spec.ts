@@ -0,0 +1,124 @@
+import { SseClient, WebSocketClient } from '../../utils/streaming';
+import { expect, test } from '../../fixtures';
+import { AddressInfo } from 'net';
+import { ApiClient } from '../../utils/api-client';
+import { Duplex } from 'stream';
+import crypto from 'crypto';
+import http from 'http';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/**
+ * Unmasked frame as a server sends it; test payloads stay below 126 bytes
+ */
+function serverFrame(opcode: number, payload: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([0x80 | opcode, payload.length]), payload]);
+}
+
+/**
+ * WebSocket server echoing text frames and answering close frames; other frames are written
+ * by the test through `sendRaw`. MockApiServer speaks plain HTTP only.
+ */
+async function startEchoServer() {
+  const server = http.createServer();
+  let connection: Duplex | undefined;
+  server.on('upgrade', (request, socket) => {
+    connection = socket;
+    const accept = crypto
+      .createHash('sha1')
+      .update(`${request.headers['sec-websocket-key']}${WEBSOCKET_GUID}`)
+      .digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    socket.on('data', (chunk: Buffer) => {
+      // Client frames are masked; one small frame per chunk is enough here
+      const opcode = (chunk[0] as number) & 0x0f;
+      const mask = chunk.subarray(2, 6);
+      const payload = chunk.subarray(6).map((byte, i) => byte ^ (mask[i % 4] as number));
+      socket.write(serverFrame(opcode, Buffer.from(payload)));
+      if (opcode === 0x8) {
+        socket.end();
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    client: new ApiClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`),
+    sendRaw: (frame: Buffer) => connection?.write(frame),
+    stop: () => {
+      connection?.destroy();
+      return new Promise(resolve => server.close(resolve));
+    }
+  };
+}
+
+test.describe('Streaming clients', () => {
+  test('WebSocket round trip with JSON messages and a clean close @api @streaming', async () => {
+    const server = await startEchoServer();
+    try {
+      const socket = await WebSocketClient.connect('/live', { client: server.client });
+
+      socket.send({ type: 'subscribe', channel: 'orders' });
+      const reply = await socket.waitForJson<{ type: string; channel: string }>(
+        message => message.type === 'subscribe'
+      );
+
+      expect(reply.channel).toBe('orders');
+      expect(socket.transcript.map(entry => entry.direction)).toEqual(['sent', 'received']);
+      expect(await socket.close(1000, 'done')).toEqual({ code: 1000, reason: 'done' });
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('WebSocket protocol violations fail pending waits @api @streaming', async () => {
+    const server = await startEchoServer();
+    try {
+      const socket = await WebSocketClient.connect('/live', { client: server.client });
+      const waiting = socket.waitFor(() => true);
+
+      // Opcode 0x3 is reserved
+      server.sendRaw(serverFrame(0x3, Buffer.from('?')));
+
+      await expect(waiting).rejects.toThrow('protocol error: unknown opcode 0x3');
+      expect((await socket.closed).code).toBe(1002);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('SSE events are parsed and resume after Last-Event-ID @api @streaming', async ({
+    mockApi
+  }) => {
+    const events = ['order.created', 'order.paid', 'order.shipped'];
+    mockApi.route('GET /events', ({ headers }) => {
+      const after = Number(headers['last-event-id'] ?? 0);
+      const body = events
+        .map((event, index) => ({ event, id: index + 1 }))
+        .filter(({ id }) => id > after)
+        .map(({ event, id }) => `id: ${id}\nevent: ${event}\ndata: {"id":${id}}\n\n`)
+        .join('');
+      return {
+        headers: { 'content-type': 'text/event-stream' },
+        body: `retry: 500\n: keep-alive\n\n${body}`
+      };
+    });
+    const client = new ApiClient(mockApi.url);
+
+    const stream = await SseClient.connect('/events', { client });
+    const paid = await stream.waitForEvent('order.paid');
+    expect(JSON.parse(paid.data)).toEqual({ id: 2 });
+    expect(paid.id).toBe('2');
+    await stream.waitForEvent('order.shipped');
+    expect(stream.retryMs).toBe(500);
+    // The server ended the response: nothing more will arrive
+    await expect(stream.waitForEvent('order.refunded')).rejects.toThrow('closed');
+
+    const resumed = await SseClient.connect('/events', { client, lastEventId: '2' });
+    await resumed.waitForEvent('order.shipped');
+    expect(resumed.received.map(event => event.event)).toEqual(['order.shipped']);
+    resumed.close();
+  });
+});
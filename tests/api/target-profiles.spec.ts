@@ -0,0 +1,69 @@
+import { allowedTagsPattern, validateTargetProfile } from '../../utils/target-profiles';
+import { expect, test } from '../../fixtures';
+import { config } from '../../utils/config';
+import { targetProject } from '../../fixtures/target.fixture';
+
+test.describe('Target profiles', () => {
+  let previousTarget: string | undefined;
+
+  test.beforeEach(() => {
+    previousTarget = config.getTarget()?.name;
+  });
+
+  test.afterEach(() => {
+    config.useTarget(previousTarget);
+  });
+
+  test('selecting a target switches environment, URLs and credentials @api @config', async () => {
+    config.useTarget('eu-staging');
+
+    expect(config.getTarget()?.name).toBe('eu-staging');
+    expect(config.getEnvironment()).toBe('staging');
+    expect(config.getUrls().base).toBe('https://eu.staging.example.com');
+    expect(config.getCredentialsFile()).toBe('test-credentials.json');
+    expect(config.explain('urls.base')[0]).toMatchObject({
+      layer: 'target',
+      origin: 'config/targets.json#eu-staging'
+    });
+
+    config.useTarget('acme-sandbox');
+
+    expect(config.isProduction()).toBe(true);
+    expect(config.getUrls().base).toBe('https://acme.sandbox.example.com');
+    expect(config.getCredentialsFile()).toBe('acme-credentials.json');
+  });
+
+  test('an unknown target is a configuration issue @api @config', async () => {
+    config.useTarget('nowhere');
+
+    expect(config.getTarget()).toBeUndefined();
+    expect(config.getValidationIssues()).toContainEqual({
+      path: 'target',
+      message: 'unknown target "nowhere" (declared: local, eu-staging, acme-sandbox)'
+    });
+    expect(() => targetProject('nowhere')).toThrow('Unknown target profile "nowhere"');
+  });
+
+  test('profiles are checked and restrict tests to their tags @api @config', async () => {
+    const sandbox = config.getTargetProfile('acme-sandbox');
+
+    expect(
+      validateTargetProfile({ name: 'broken', baseUrl: '', apiUrl: 'https://api.example.com' })
+    ).toEqual(['baseUrl is required']);
+    expect(
+      validateTargetProfile({
+        name: 'lost',
+        baseUrl: 'https://example.com',
+        apiUrl: 'https://api.example.com',
+        credentialsFile: 'missing.json'
+      })
+    ).toEqual(['credentialsFile data/missing.json does not exist']);
+    expect(sandbox && validateTargetProfile(sandbox)).toEqual([]);
+    expect(allowedTagsPattern(sandbox)?.test('login works @smoke')).toBe(true);
+    expect(allowedTagsPattern(sandbox)?.test('checkout @smokey')).toBe(false);
+    expect(targetProject('acme-sandbox')).toMatchObject({
+      name: 'target-acme-sandbox',
+      use: { baseURL: 'https://acme.sandbox.example.com', target: 'acme-sandbox' }
+    });
+  });
+});
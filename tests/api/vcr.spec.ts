@@ -0,0 +1,78 @@
+import { Cassette, CassetteFile, CassetteOptions, VcrError } from '../../utils/vcr';
+import { expect, test } from '../../fixtures';
+import { ApiClient } from '../../utils/api-client';
+import fs from 'fs';
+
+const OPTIONS: Omit<CassetteOptions, 'mode'> = {
+  matchQuery: true,
+  matchBody: true,
+  matchHeaders: []
+};
+
+test.describe('VCR cassettes', () => {
+  test('replays recorded traffic without reaching the server @api @vcr', async ({ mockApi }) => {
+    let version = 0;
+    mockApi
+      .route('GET /users', () => ({
+        headers: { 'set-cookie': 'session=recorded-session' },
+        body: { version: ++version }
+      }))
+      .route('POST /users', ({ body }) => ({ status: 201, body: { id: 7, ...(body as object) } }))
+      .route('GET /users/404', { status: 404, body: { error: 'Not found' } });
+    const file = test.info().outputPath('users.json');
+
+    const recorder = new ApiClient(mockApi.url);
+    const recording = new Cassette(file, { ...OPTIONS, mode: 'record' });
+    recorder.useCassette(recording);
+    await recorder.get('/users', { params: { page: 1 } });
+    await recorder.get('/users', { params: { page: 1 } });
+    await recorder.post('/users', { name: 'Ada' });
+    await expect(recorder.get('/users/404', { retry: false })).rejects.toMatchObject({
+      status: 404
+    });
+    recording.save();
+
+    const recorded = JSON.parse(fs.readFileSync(file, 'utf-8')) as CassetteFile;
+    expect(recorded.interactions).toHaveLength(4);
+    expect(JSON.stringify(recorded)).not.toContain('recorded-session');
+
+    const requestsSent = mockApi.journal.length;
+    const player = new ApiClient(mockApi.url);
+    player.useCassette(new Cassette(file, { ...OPTIONS, mode: 'replay' }));
+
+    // Identical requests in recorded order, the last one repeating
+    const versions: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      versions.push((await player.get('/users', { params: { page: 1 } })).data.version);
+    }
+    expect(versions).toEqual([1, 2, 2]);
+    expect((await player.post('/users', { name: 'Ada' })).data).toEqual({ id: 7, name: 'Ada' });
+    await expect(player.get('/users/404', { retry: false })).rejects.toMatchObject({
+      status: 404
+    });
+    expect(mockApi.journal).toHaveLength(requestsSent);
+  });
+
+  test('replay fails for requests the cassette does not contain @api @vcr', async ({
+    mockApi
+  }) => {
+    mockApi.route('POST /users', { status: 201, body: { id: 1 } });
+    const file = test.info().outputPath('users.json');
+    const recorder = new ApiClient(mockApi.url);
+    const recording = new Cassette(file, { ...OPTIONS, mode: 'record' });
+    recorder.useCassette(recording);
+    await recorder.post('/users', { name: 'Ada' });
+    recording.save();
+
+    const player = new ApiClient(mockApi.url);
+    player.useCassette(new Cassette(file, { ...OPTIONS, mode: 'replay' }));
+    const unmatched = player.post('/users', { name: 'Grace' });
+
+    await expect(unmatched).rejects.toThrow(VcrError);
+    await expect(unmatched).rejects.toThrow('No recorded interaction for POST /users');
+
+    const lenient = new ApiClient(mockApi.url);
+    lenient.useCassette(new Cassette(file, { ...OPTIONS, matchBody: false, mode: 'replay' }));
+    expect((await lenient.post('/users', { name: 'Grace' })).data).toEqual({ id: 1 });
+  });
+});
@@ -1,45 +1,13 @@
-import { test, expect } from '@playwright/test';
-import { LoginPage } from '../../pages/login-page';
-import { DashboardPage } from '../../pages/dashboard-page';
+import { expect, test } from '../../fixtures';
 import { TestDataManager } from '../../utils/test-data-manager';
-import { logger } from '../../utils/logger';
 
 test.describe('Authentication Tests', () => {
-  let loginPage: LoginPage;
-  let dashboardPage: DashboardPage;
-  let testCredentials: any;
-
-  test.beforeAll(async () => {
-    // Load test data
-    testCredentials = await TestDataManager.loadJsonData('test-credentials.json');
-    logger.info('Test data loaded for authentication tests');
-  });
-
-  test.beforeEach(async ({ page }) => {
-    loginPage = new LoginPage(page);
-    dashboardPage = new DashboardPage(page);
-    
-    logger.testStart(test.info().title, test.info().file);
+  test.beforeEach(async ({ loginPage }) => {
     await loginPage.goto();
   });
 
-  test.afterEach(async ({ page }, testInfo) => {
-    if (testInfo.status === 'failed') {
-      await page.screenshot({ 
-        path: `test-results/screenshots/${testInfo.title}-${Date.now()}.png`,
-        fullPage: true 
-      });
-    }
-    
-    logger.testEnd(
-      testInfo.title, 
-      testInfo.status as 'passed' | 'failed' | 'skipped', 
-      testInfo.duration
-    );
-  });
-
-  test('should login with valid credentials @smoke', async ({ page }) => {
-    const validUser = testCredentials.validUser;
+  test('should login with valid credentials @smoke', async ({ page, loginPage, dashboardPage, testData }) => {
+    const validUser = testData.validUser;
     
     // Validate login form is displayed
     await loginPage.validateLoginForm();
@@ -55,8 +23,8 @@ test.describe('Authentication Tests', () => {
     expect(welcomeMessage).toContain('Welcome');
   });
 
-  test('should not login with invalid credentials @negative', async ({ page }) => {
-    const invalidUser = testCredentials.invalidUser;
+  test('should not login with invalid credentials @negative', async ({ loginPage, testData }) => {
+    const invalidUser = testData.invalidUser;
     
     // Attempt login with invalid credentials
     await loginPage.login(invalidUser.username, invalidUser.password);
@@ -71,7 +39,7 @@ test.describe('Authentication Tests', () => {
     expect(errorMessage).toMatch(/invalid|incorrect|wrong/i);
   });
 
-  test('should show validation for empty fields @validation', async ({ page }) => {
+  test('should show validation for empty fields @validation', async ({ loginPage }) => {
     // Try to login with empty fields
     await loginPage.clickLoginButton();
     
@@ -80,15 +48,15 @@ test.describe('Authentication Tests', () => {
     expect(currentUrl).toContain('/login');
   });
 
-  test('should navigate to forgot password page', async ({ page }) => {
+  test('should navigate to forgot password page', async ({ loginPage }) => {
     await loginPage.clickForgotPassword();
     
     const currentUrl = await loginPage.getCurrentUrl();
     expect(currentUrl).toMatch(/forgot|reset/);
   });
 
-  test('should login with remember me checked @functionality', async ({ page }) => {
-    const validUser = testCredentials.validUser;
+  test('should login with remember me checked @functionality', async ({ page, loginPage, dashboardPage, testData }) => {
+    const validUser = testData.validUser;
     
     await loginPage.login(validUser.username, validUser.password, true);
     
@@ -100,8 +68,8 @@ test.describe('Authentication Tests', () => {
     await expect(page).toHaveURL(/.*dashboard/);
   });
 
-  test('should clear form fields', async ({ page }) => {
-    const testUser = testCredentials.validUser;
+  test('should clear form fields', async ({ loginPage, testData }) => {
+    const testUser = testData.validUser;
     
     // Fill form
     await loginPage.enterUsername(testUser.username);
@@ -119,11 +87,11 @@ test.describe('Authentication Tests', () => {
   });
 
   test.describe('Multiple User Types', () => {
-    const userTypes = ['validUser', 'adminUser'];
+    const userTypes = ['validUser', 'adminUser'] as const;
     
     userTypes.forEach(userType => {
-      test(`should login as ${userType} @regression`, async ({ page }) => {
-        const user = testCredentials[userType];
+      test(`should login as ${userType} @regression`, async ({ loginPage, dashboardPage, testData }) => {
+        const user = testData[userType];
         
         await loginPage.login(user.username, user.password);
         await dashboardPage.validateDashboardLoaded();
@@ -135,7 +103,7 @@ test.describe('Authentication Tests', () => {
     });
   });
 
-  test('should handle login with special characters in password @edge-case', async ({ page }) => {
+  test('should handle login with special characters in password @edge-case', async ({ loginPage }) => {
     // Generate a user with special characters in password
     const specialUser = TestDataManager.generateUserData(1) as any;
     specialUser.password = 'Test@#$%^&*()123!';
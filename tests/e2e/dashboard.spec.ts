@@ -0,0 +1,24 @@
+import { expect, test } from '../../fixtures';
+
+test.describe('Dashboard Tests', () => {
+  // Start every test already logged in, no trip through the login page
+  test.use({ role: 'user' });
+
+  test.beforeEach(async ({ dashboardPage }) => {
+    await dashboardPage.goto();
+  });
+
+  test('should open dashboard with cached session @smoke', async ({ page, dashboardPage }) => {
+    await dashboardPage.validateDashboardLoaded();
+    await expect(page).toHaveURL(/.*dashboard/);
+  });
+
+  test.describe('Admin', () => {
+    test.use({ role: 'admin' });
+
+    test('should show welcome message for admin @regression', async ({ dashboardPage }) => {
+      const welcomeMessage = await dashboardPage.getWelcomeMessage();
+      expect(welcomeMessage).toContain('Welcome');
+    });
+  });
+});
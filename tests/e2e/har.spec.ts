@@ -0,0 +1,122 @@
+import { Browser, Page } from '@playwright/test';
+import { HarFile, HarReplay, TestHar } from '../../utils/har';
+import { expect, test } from '../../fixtures';
+import { HarConfig } from '../../utils/config-schema';
+import { MockApiServer } from '../../utils/mock-api-server';
+import { REDACTED } from '../../utils/secrets';
+import fs from 'fs';
+
+function serveApp(mockApi: MockApiServer): void {
+  mockApi
+    .route('GET /', { headers: { 'content-type': 'text/html' }, body: '<h1>Profile</h1>' })
+    .route('GET /api/profile', {
+      headers: { 'set-cookie': 'session=sess-v4lue; Path=/' },
+      body: { name: 'Ada', apiToken: 'tok-v4lue' }
+    })
+    .route('GET /api/orders', { body: [{ id: 1 }] });
+}
+
+/**
+ * Fetch each path from the page in order: the JSON body, or 'failed' when the request was
+ * aborted
+ */
+async function fetchAll(page: Page, paths: string[]): Promise<unknown[]> {
+  return page.evaluate(async urls => {
+    const results: unknown[] = [];
+    for (const url of urls) {
+      try {
+        const response = await fetch(url, { headers: { authorization: 'Bearer s3cr3t-v4lue' } });
+        results.push(await response.json());
+      } catch {
+        results.push('failed');
+      }
+    }
+    return results;
+  }, paths);
+}
+
+/**
+ * Record the profile lookup of a fresh context into `file`
+ */
+async function recordProfile(browser: Browser, mockApi: MockApiServer, file: string) {
+  const context = await browser.newContext({
+    recordHar: { path: file, content: 'embed', urlFilter: '**/api/**' }
+  });
+  const page = await context.newPage();
+  await page.goto(mockApi.url);
+  await fetchAll(page, ['/api/profile']);
+  await context.close();
+}
+
+test.describe('HAR', () => {
+  test('records a sanitized HAR and replays it without the server @har', async ({
+    browser,
+    mockApi
+  }) => {
+    serveApp(mockApi);
+    const options: HarConfig = {
+      mode: 'record',
+      dir: test.info().outputPath('hars'),
+      urlFilter: '**/api/**',
+      matching: 'strict'
+    };
+    const recording = TestHar.forTest(test.info(), options) as TestHar;
+    const recordContext = await browser.newContext(recording.contextOptions());
+    const recordPage = await recordContext.newPage();
+    await recordPage.goto(mockApi.url);
+    await fetchAll(recordPage, ['/api/profile']);
+    await recordContext.close();
+    await recording.finish(test.info());
+
+    const saved = fs.readFileSync(recording.file, 'utf-8');
+    expect(saved).not.toContain('s3cr3t-v4lue');
+    expect(saved).not.toContain('sess-v4lue');
+    expect(saved).not.toContain('tok-v4lue');
+    const [entry] = (JSON.parse(saved) as HarFile).log.entries;
+    expect(entry?.request.headers).toContainEqual({ name: 'authorization', value: REDACTED });
+
+    const replaying = TestHar.forTest(test.info(), { ...options, mode: 'replay' }) as TestHar;
+    const replayContext = await browser.newContext();
+    await replaying.attach(replayContext);
+    const replayPage = await replayContext.newPage();
+    await replayPage.goto(mockApi.url);
+    const served = mockApi.journal.length;
+
+    expect(await fetchAll(replayPage, ['/api/profile'])).toEqual([
+      { name: 'Ada', apiToken: REDACTED }
+    ]);
+    expect(mockApi.journal).toHaveLength(served);
+    await replayContext.close();
+    await replaying.finish(test.info());
+  });
+
+  test('strict replay aborts unrecorded requests, lenient sends them on @har', async ({
+    browser,
+    mockApi
+  }) => {
+    serveApp(mockApi);
+    const file = test.info().outputPath('profile.har');
+    await recordProfile(browser, mockApi, file);
+
+    const replayWith = async (matching: 'strict' | 'lenient') => {
+      const context = await browser.newContext();
+      try {
+        const replay = await HarReplay.start(context, file, { urlFilter: '**/api/**', matching });
+        const page = await context.newPage();
+        await page.goto(mockApi.url);
+        const results = await fetchAll(page, ['/api/profile', '/api/orders']);
+        return { results, unmatched: replay.unmatched.map(request => request.url) };
+      } finally {
+        await context.close();
+      }
+    };
+
+    const strict = await replayWith('strict');
+    const lenient = await replayWith('lenient');
+
+    expect(strict.results).toEqual([{ name: 'Ada', apiToken: 'tok-v4lue' }, 'failed']);
+    expect(lenient.results).toEqual([{ name: 'Ada', apiToken: 'tok-v4lue' }, [{ id: 1 }]]);
+    expect(strict.unmatched).toEqual([`${mockApi.url}/api/orders`]);
+    expect(lenient.unmatched).toEqual(strict.unmatched);
+  });
+});
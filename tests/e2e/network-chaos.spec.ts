@@ -0,0 +1,88 @@
+import { Browser, Page } from '@playwright/test';
+import { ChaosRule, NetworkChaos } from '../../utils/network-chaos';
+import { expect, test } from '../../fixtures';
+import { MockApiServer } from '../../utils/mock-api-server';
+
+const FLAKY_API: ChaosRule = {
+  name: 'flaky API',
+  url: '**/api/**',
+  rate: 0.5,
+  failWith: [500, 503]
+};
+
+function serveApp(mockApi: MockApiServer): void {
+  mockApi
+    .route('GET /', { headers: { 'content-type': 'text/html' }, body: '<h1>Chaos</h1>' })
+    .route('GET /api/items/:id', ({ params }) => ({ body: { id: params.id } }));
+}
+
+/**
+ * Fetch each path from the page in order: the status, 'dropped' or 'corrupt' when the JSON
+ * does not parse
+ */
+async function fetchAll(page: Page, paths: string[]): Promise<string[]> {
+  return page.evaluate(async urls => {
+    const results: string[] = [];
+    for (const url of urls) {
+      try {
+        const response = await fetch(url);
+        const parsed = await response.json().then(
+          () => true,
+          () => false
+        );
+        results.push(parsed ? String(response.status) : 'corrupt');
+      } catch {
+        results.push('dropped');
+      }
+    }
+    return results;
+  }, paths);
+}
+
+/**
+ * Statuses and applied faults of a fresh context running the same requests under `seed`
+ */
+async function runWithSeed(browser: Browser, mockApi: MockApiServer, seed: number) {
+  const context = await browser.newContext();
+  try {
+    const chaos = await NetworkChaos.apply(context, [FLAKY_API], seed);
+    const page = await context.newPage();
+    await page.goto(mockApi.url);
+    const statuses = await fetchAll(page, Array.from({ length: 12 }, (_, i) => `/api/items/${i}`));
+    return { statuses, faults: chaos.applied.map(({ url, faults }) => ({ url, faults })) };
+  } finally {
+    await context.close();
+  }
+}
+
+test.describe('Network chaos', () => {
+  test('the same seed injects the same faults @chaos', async ({ browser, mockApi }) => {
+    serveApp(mockApi);
+
+    const first = await runWithSeed(browser, mockApi, 1234);
+    const second = await runWithSeed(browser, mockApi, 1234);
+
+    expect(first.statuses).toContain('200');
+    expect(first.statuses.some(status => status === '500' || status === '503')).toBe(true);
+    expect(second).toEqual(first);
+  });
+
+  test('drops requests and corrupts JSON responses @chaos', async ({
+    page,
+    mockApi,
+    networkChaos
+  }) => {
+    serveApp(mockApi);
+    await networkChaos.add(
+      { name: 'offline', url: '**/api/items/1', drop: 'internetdisconnected' },
+      { name: 'truncated', url: '**/api/items/2', corruptJson: true }
+    );
+    await page.goto(mockApi.url);
+
+    const results = await fetchAll(page, ['/api/items/1', '/api/items/2', '/api/items/3']);
+
+    expect(results).toEqual(['dropped', 'corrupt', '200']);
+    expect(networkChaos.applied.map(fault => fault.rule)).toEqual(['offline', 'truncated']);
+    expect(networkChaos.describe()).toContain(`CHAOS_SEED=${networkChaos.seed}`);
+  });
+});
@@ -1,22 +1,122 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { logger } from './logger';
+import { ApiAttempt, logger } from './logger';
+import { ApiMetrics, ApiTimings } from './api-metrics';
+import { AuthStrategy, configuredAuthStrategy } from './auth-strategies';
+import {
+  ChecksumMismatchError,
+  ChecksumStream,
+  MultipartBody,
+  MultipartFields,
+  MultipartFile,
+  ProgressCallback,
+  parseChecksum
+} from './file-transfer';
+import {
+  JsonSchemaDefinition,
+  SchemaValidationOptions,
+  SchemaViolation,
+  validateJsonSchema
+} from './json-schema';
+import { OpenApiValidationError, OpenApiValidator } from './openapi';
+import { ProductionGuard, ProductionGuardError } from './production-guard';
+import { RetryOption, resolveRetryPolicy, retryDelay } from './retry-policy';
+import axios, {
+  AxiosAdapter,
+  AxiosHeaders,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig
+} from 'axios';
+import { ApiAuthStrategyName } from './config-schema';
+import { Cassette } from './vcr';
+import { ContractRecorder } from './contracts';
+import { Readable } from 'stream';
 import { config } from './config';
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Authentication for this request: a strategy, one named in api.auth, or false for none */
+    authStrategy?: AuthStrategy | ApiAuthStrategyName | false;
+    /** Retry policy override for this request, or false to send it only once */
+    retry?: RetryOption;
+    /** The request changes nothing although its method is mutating, e.g. a GraphQL query */
+    readOnly?: boolean;
+    /** Set by ApiClient on requests that may be retried */
+    attempt?: ApiAttempt;
+    /** Path template the request is reported under, e.g. /users/{id}; derived from the URL */
+    endpoint?: string;
+  }
+
+  interface AxiosResponse {
+    /** Set by ApiClient on every response */
+    timings?: ApiTimings;
+  }
+}
+
+export interface UploadOptions {
+  /** Field of files that do not name one; default file */
+  field?: string;
+  /** Other form values; objects are sent as JSON parts */
+  fields?: MultipartFields;
+  onProgress?: ProgressCallback;
+  config?: AxiosRequestConfig;
+}
+
+export interface DownloadOptions {
+  /** Expected checksum as `<algorithm>:<hex>`, e.g. sha256:9f86d0...; bare hex means sha256 */
+  checksum?: string;
+  onProgress?: ProgressCallback;
+  config?: AxiosRequestConfig;
+}
+
+export interface DownloadResult {
+  path: string;
+  bytes: number;
+  /** Checksum of what was written, in the algorithm of the expected one (sha256 by default) */
+  checksum: string;
+  contentType: string | undefined;
+}
+
+/**
+ * Adapter answering a request locally instead of sending it (production dry-run)
+ */
+const dryRunAdapter: AxiosAdapter = async requestConfig => ({
+  data: null,
+  status: 202,
+  statusText: 'Accepted (dry-run)',
+  headers: { 'x-dry-run': 'true' },
+  config: requestConfig
+});
 
 /**
  * API Client utility for handling HTTP requests
  */
 export class ApiClient {
   private client: AxiosInstance;
-  private baseURL: string;
+  private explicitBaseURL: string | undefined;
+  private explicitValidator: OpenApiValidator | null | undefined;
+  private explicitAuth: AuthStrategy | null | undefined;
+  private cassette: Cassette | undefined;
+  private contract: ContractRecorder | undefined;
 
   constructor(baseURL?: string) {
-    this.baseURL = baseURL || config.get('urls.api');
+    this.explicitBaseURL = baseURL;
     this.client = this.createAxiosInstance();
   }
 
+  /**
+   * Base URL for requests; without an explicit one it follows the active target profile
+   */
+  get baseURL(): string {
+    return this.explicitBaseURL || config.getUrls().api;
+  }
+
   private createAxiosInstance(): AxiosInstance {
     const instance = axios.create({
-      baseURL: this.baseURL,
       timeout: config.get('api.timeout') || 30000,
       headers: {
         'Content-Type': 'application/json',
@@ -27,8 +127,38 @@ export class ApiClient {
 
     // Request interceptor
     instance.interceptors.request.use(
-      (config) => {
-        logger.apiRequest(config.method?.toUpperCase() || 'GET', config.url || '');
+      async (config) => {
+        config.baseURL = config.baseURL || this.baseURL;
+        // Replayed requests never reach a server, so they need no token or login
+        if (this.cassette?.mode !== 'replay') {
+          await this.authStrategyFor(config.authStrategy)?.apply(config);
+        }
+        // Every attempt streams the form anew, so uploads can be retried
+        if (config.data instanceof MultipartBody) {
+          const { stream, length } = await config.data.open();
+          config.headers.setContentType(config.data.contentType);
+          config.headers.setContentLength(length);
+          config.data = stream;
+        }
+        const dryRun =
+          ProductionGuard.checkRequest(config.method || 'GET', config.url || '', {
+            readOnly: config.readOnly
+          }) === 'dry-run';
+        let adapter = dryRun ? dryRunAdapter : axios.getAdapter(config.adapter);
+        if (!dryRun && this.cassette) {
+          adapter = this.cassette.adapter(adapter);
+        }
+        if (!dryRun && this.contract) {
+          adapter = this.contract.adapter(adapter);
+        }
+        // Only requests that reached the server count towards the run's metrics
+        config.adapter = ApiMetrics.measure(adapter, !dryRun && this.cassette?.mode !== 'replay');
+        logger.apiRequest(
+          config.method?.toUpperCase() || 'GET',
+          config.url || '',
+          undefined,
+          config.attempt
+        );
         return config;
       },
       (error) => {
@@ -43,11 +173,23 @@ export class ApiClient {
         logger.apiRequest(
           response.config.method?.toUpperCase() || 'GET',
           response.config.url || '',
-          response.status
+          response.status,
+          response.config.attempt
         );
+        this.validateAgainstSpec(response);
         return response;
       },
       (error) => {
+        if (error instanceof ProductionGuardError) {
+          return Promise.reject(error);
+        }
+        if (error.response) {
+          try {
+            this.validateAgainstSpec(error.response);
+          } catch (validationError) {
+            return Promise.reject(validationError);
+          }
+        }
         const status = error.response?.status;
         const url = error.config?.url;
         const method = error.config?.method?.toUpperCase();
@@ -66,6 +208,109 @@ export class ApiClient {
     return instance;
   }
 
+  /**
+   * Validate responses against this OpenAPI validator instead of the one configured by
+   * `api.openApiSpec`; null turns validation off for this client
+   */
+  useOpenApi(validator: OpenApiValidator | null): void {
+    this.explicitValidator = validator;
+  }
+
+  /**
+   * Record this client's requests to, or replay them from, a cassette; null sends them as usual
+   */
+  useCassette(cassette: Cassette | null): void {
+    this.cassette = cassette ?? undefined;
+  }
+
+  /**
+   * Note this client's requests and responses in a consumer contract; null stops noting them
+   */
+  useContract(contract: ContractRecorder | null): void {
+    this.contract = contract ?? undefined;
+  }
+
+  /**
+   * Authenticate this client's requests with `strategy` instead of the one configured by
+   * `api.auth.strategy`; null sends them unauthenticated
+   */
+  useAuth(strategy: AuthStrategy | null): void {
+    this.explicitAuth = strategy;
+  }
+
+  /**
+   * Absolute URL and headers a GET of `url` would be sent with, authenticated like this
+   * client's requests; for connections axios does not make, such as WebSockets
+   */
+  async prepareRequest(
+    url: string,
+    authStrategy?: AxiosRequestConfig['authStrategy']
+  ): Promise<{ url: string; headers: Record<string, string> }> {
+    const request = {
+      url,
+      method: 'get',
+      baseURL: this.baseURL,
+      headers: new AxiosHeaders(this.client.defaults.headers.common as Record<string, string>)
+    } as InternalAxiosRequestConfig;
+    await this.authStrategyFor(authStrategy)?.apply(request);
+    return {
+      url: axios.getUri(request),
+      headers: request.headers.toJSON(true) as Record<string, string>
+    };
+  }
+
+  private authStrategyFor(option: AxiosRequestConfig['authStrategy']): AuthStrategy | undefined {
+    if (option === false) {
+      return undefined;
+    }
+    if (typeof option === 'object') {
+      return option;
+    }
+    if (option === undefined && this.explicitAuth !== undefined) {
+      return this.explicitAuth ?? undefined;
+    }
+    return configuredAuthStrategy(option);
+  }
+
+  private openApiValidator(): OpenApiValidator | undefined {
+    if (this.explicitValidator !== undefined) {
+      return this.explicitValidator ?? undefined;
+    }
+    const { openApiSpec } = config.getApiConfig();
+    return openApiSpec ? OpenApiValidator.fromFile(openApiSpec) : undefined;
+  }
+
+  /**
+   * Check a response against the schema its operation declares for the status code
+   */
+  private validateAgainstSpec(response: AxiosResponse): void {
+    const mode = config.getApiConfig().responseValidation;
+    const validator = mode === 'off' ? undefined : this.openApiValidator();
+    if (!validator || response.headers['x-dry-run'] || response.data instanceof Readable) {
+      return;
+    }
+    const result = validator.validateResponse(
+      response.config.method || 'GET',
+      response.config.url || '',
+      response.status,
+      response.data
+    );
+    if (!result || result.violations.length === 0) {
+      return;
+    }
+    const error = new OpenApiValidationError(
+      result.operation.id,
+      response.status,
+      result.violations,
+      response.data
+    );
+    if (mode === 'warn') {
+      logger.warn(error.message);
+      return;
+    }
+    throw error;
+  }
+
   /**
    * Set authorization header
    */
@@ -90,127 +335,218 @@ export class ApiClient {
     logger.info('Custom headers set', headers);
   }
 
+  /**
+   * Send a request, retrying it as its retry policy allows and replaying it once with
+   * refreshed credentials after a 401; each attempt is reported through logger.apiRequest
+   */
+  private async send<T>(requestConfig: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const method = (requestConfig.method || 'get').toUpperCase();
+    const url = requestConfig.url || '';
+    const policy = resolveRetryPolicy(method, config.getApiConfig().retry, requestConfig.retry);
+    const auth = this.authStrategyFor(requestConfig.authStrategy);
+    let refreshed = false;
+
+    for (let attempt = 1; ; attempt++) {
+      const tracked = policy.maxAttempts > 1;
+      try {
+        const response = await this.client.request<T>({
+          ...requestConfig,
+          authStrategy: auth ?? false,
+          ...(tracked && { attempt: { attempt, maxAttempts: policy.maxAttempts } })
+        });
+        this.logResponseDetails(response);
+        return response;
+      } catch (error) {
+        const unauthorized = axios.isAxiosError(error) && error.response?.status === 401;
+        if (unauthorized && auth?.refresh && !refreshed) {
+          refreshed = true;
+          if (await auth.refresh()) {
+            logger.info(`Credentials of ${auth.name} auth refreshed after HTTP 401, replaying`);
+            attempt--;
+            continue;
+          }
+        }
+        const delay = retryDelay(error, attempt, policy);
+        if (delay === undefined) {
+          throw this.handleError(error);
+        }
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        logger.apiRequest(method, url, status, {
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          retryInMs: delay,
+          reason: status ? `HTTP ${status}` : (error as { code?: string }).code || 'network error'
+        });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Request with any method, e.g. one replayed from a contract
+   */
+  async request<T = any>(requestConfig: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return this.send<T>(requestConfig);
+  }
+
   /**
    * GET request
    */
   async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    try {
-      const response = await this.client.get<T>(url, config);
-      this.logResponseDetails(response);
-      return response;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return this.send<T>({ ...config, method: 'get', url });
   }
 
   /**
-   * POST request
+   * POST request; only retried when `config.retry.nonIdempotent` is set
    */
   async post<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    try {
-      const response = await this.client.post<T>(url, data, config);
-      this.logResponseDetails(response);
-      return response;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return this.send<T>({ ...config, method: 'post', url, data });
   }
 
   /**
    * PUT request
    */
   async put<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    try {
-      const response = await this.client.put<T>(url, data, config);
-      this.logResponseDetails(response);
-      return response;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return this.send<T>({ ...config, method: 'put', url, data });
   }
 
   /**
-   * PATCH request
+   * PATCH request; only retried when `config.retry.nonIdempotent` is set
    */
   async patch<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    try {
-      const response = await this.client.patch<T>(url, data, config);
-      this.logResponseDetails(response);
-      return response;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return this.send<T>({ ...config, method: 'patch', url, data });
   }
 
   /**
    * DELETE request
    */
   async delete<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    try {
-      const response = await this.client.delete<T>(url, config);
-      this.logResponseDetails(response);
-      return response;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return this.send<T>({ ...config, method: 'delete', url });
   }
 
   /**
-   * Upload file
+   * Upload files as multipart/form-data, streaming them from disk. Accepts file paths,
+   * buffers, or files with their own field, filename and content type.
    */
-  async uploadFile(url: string, file: Buffer | string, fieldName: string = 'file', additionalFields?: Record<string, any>): Promise<AxiosResponse> {
-    try {
-      const formData = new FormData();
-      
-      if (typeof file === 'string') {
-        // File path
-        const fs = require('fs');
-        const fileBuffer = fs.readFileSync(file);
-        formData.append(fieldName, new Blob([fileBuffer]), file.split('/').pop());
-      } else {
-        // Buffer
-        formData.append(fieldName, new Blob([Buffer.from(file)]));
-      }
+  async uploadFile(
+    url: string,
+    files: string | Buffer | MultipartFile | Array<string | Buffer | MultipartFile>,
+    options?: UploadOptions
+  ): Promise<AxiosResponse>;
+  /** @deprecated pass the field and additional fields as UploadOptions */
+  async uploadFile(
+    url: string,
+    file: string | Buffer,
+    fieldName: string,
+    additionalFields?: MultipartFields
+  ): Promise<AxiosResponse>;
+  async uploadFile(
+    url: string,
+    files: string | Buffer | MultipartFile | Array<string | Buffer | MultipartFile>,
+    options: UploadOptions | string = {},
+    additionalFields?: MultipartFields
+  ): Promise<AxiosResponse> {
+    const { field, fields, onProgress, config: requestConfig } =
+      typeof options === 'string'
+        ? { field: options, fields: additionalFields, onProgress: undefined, config: undefined }
+        : options;
+    const parts = (Array.isArray(files) ? files : [files]).map(file =>
+      typeof file === 'string' || Buffer.isBuffer(file) ? { source: file } : file
+    );
+    const body = new MultipartBody(parts, {
+      ...(field && { field }),
+      ...(fields && { fields }),
+      ...(onProgress && { onProgress })
+    });
+    const response = await this.send({ ...requestConfig, method: 'post', url, data: body });
+    logger.info(`Uploaded ${parts.length} file(s) to ${url}`, { status: response.status });
+    return response;
+  }
 
-      // Add additional fields if provided
-      if (additionalFields) {
-        Object.entries(additionalFields).forEach(([key, value]) => {
-          formData.append(key, value);
-        });
-      }
+  /**
+   * Download a file into memory; use downloadToFile for large artifacts
+   */
+  async downloadFile(url: string, config?: AxiosRequestConfig): Promise<Buffer> {
+    const response = await this.send<ArrayBuffer>({
+      ...config,
+      method: 'get',
+      url,
+      responseType: 'arraybuffer'
+    });
 
-      const response = await this.client.post(url, formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
+    logger.info(`File downloaded: ${url}`, {
+      size: response.data.byteLength,
+      contentType: response.headers['content-type']
+    });
 
-      this.logResponseDetails(response);
-      return response;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return Buffer.from(response.data);
   }
 
   /**
-   * Download file
+   * Stream a download to `destination`, verifying its length against Content-Length and its
+   * checksum against the expected one. The file only appears once it is complete and intact.
    */
-  async downloadFile(url: string, config?: AxiosRequestConfig): Promise<Buffer> {
+  async downloadToFile(
+    url: string,
+    destination: string,
+    options: DownloadOptions = {}
+  ): Promise<DownloadResult> {
+    const expected = options.checksum ? parseChecksum(options.checksum) : undefined;
+    const response = await this.send<Readable | Buffer | string | null>({
+      ...options.config,
+      headers: { 'Accept-Encoding': 'identity', ...options.config?.headers },
+      method: 'get',
+      url,
+      responseType: 'stream',
+      // Decoded here, so Content-Length is only compared for bodies sent as they are
+      decompress: false
+    });
+    const encoding = String(response.headers['content-encoding'] ?? 'identity').toLowerCase();
+    const declared = Number(response.headers['content-length']);
+    const total = Number.isFinite(declared) && encoding === 'identity' ? declared : undefined;
+    // Replayed cassettes and dry-runs answer with the body in memory
+    const source =
+      response.data instanceof Readable ? response.data : Readable.from([response.data ?? '']);
+    const counter = new ChecksumStream(expected?.algorithm ?? 'sha256', options.onProgress, total);
+    const partial = `${destination}.part`;
+
+    fs.mkdirSync(path.dirname(destination), { recursive: true });
     try {
-      const response = await this.client.get(url, {
-        ...config,
-        responseType: 'arraybuffer'
-      });
-
-      logger.info(`File downloaded: ${url}`, {
-        size: response.data.byteLength,
-        contentType: response.headers['content-type']
-      });
-
-      return Buffer.from(response.data);
+      const decoder = {
+        gzip: zlib.createGunzip,
+        'x-gzip': zlib.createGunzip,
+        deflate: zlib.createInflate,
+        br: zlib.createBrotliDecompress
+      }[encoding];
+      await (decoder
+        ? pipeline(source, decoder(), counter, fs.createWriteStream(partial))
+        : pipeline(source, counter, fs.createWriteStream(partial)));
+      if (!response.headers['x-dry-run']) {
+        if (total !== undefined && counter.bytes !== total) {
+          throw new ChecksumMismatchError(url, `${total} bytes`, `${counter.bytes} bytes`);
+        }
+        if (expected && counter.checksum !== `${expected.algorithm}:${expected.digest}`) {
+          throw new ChecksumMismatchError(
+            url,
+            `${expected.algorithm}:${expected.digest}`,
+            counter.checksum
+          );
+        }
+      }
+      fs.renameSync(partial, destination);
     } catch (error) {
-      throw this.handleError(error);
+      fs.rmSync(partial, { force: true });
+      throw error;
     }
+
+    const result: DownloadResult = {
+      path: destination,
+      bytes: counter.bytes,
+      checksum: counter.checksum,
+      contentType: response.headers['content-type']
+    };
+    logger.info(`File downloaded: ${url}`, result);
+    return result;
   }
 
   /**
@@ -250,7 +586,8 @@ export class ApiClient {
       status: response.status,
       statusText: response.statusText,
       headers: response.headers,
-      dataSize: JSON.stringify(response.data).length
+      dataSize:
+        response.data instanceof Readable ? 'stream' : JSON.stringify(response.data ?? '').length
     });
   }
 
@@ -292,24 +629,41 @@ export class ApiValidator {
   }
 
   /**
-   * Validate response schema
+   * Validate data against a JSON Schema (draft 2020-12)
    */
-  static validateSchema(data: any, schema: object): boolean {
-    // Basic schema validation - in a real project, use a library like Joi or Ajv
-    try {
-      const isValid = this.matchesSchema(data, schema);
-      logger.assertion('Response matches schema', isValid, schema, typeof data);
-      return isValid;
-    } catch (error) {
-      logger.assertion('Response matches schema', false, schema, error);
-      return false;
-    }
+  static validateSchema(
+    data: unknown,
+    schema: JsonSchemaDefinition,
+    options: SchemaValidationOptions = {}
+  ): boolean {
+    return this.schemaViolations(data, schema, options).length === 0;
+  }
+
+  /**
+   * Every violation of a JSON Schema (draft 2020-12) found in data; empty when it matches
+   */
+  static schemaViolations(
+    data: unknown,
+    schema: JsonSchemaDefinition,
+    options: SchemaValidationOptions = {}
+  ): SchemaViolation[] {
+    const violations = validateJsonSchema(schema, data, options);
+    logger.assertion(
+      'Response matches schema',
+      violations.length === 0,
+      'no violations',
+      violations.map(violation => `${violation.pointer || '/'}: ${violation.message}`)
+    );
+    return violations;
   }
 
   /**
    * Validate response time
    */
-  static validateResponseTime(responseTime: number, maxTime: number): boolean {
+  static validateResponseTime(responseTime: number | AxiosResponse, maxTime: number): boolean {
+    if (typeof responseTime !== 'number') {
+      responseTime = responseTime.timings?.totalMs ?? 0;
+    }
     const isValid = responseTime <= maxTime;
     logger.assertion(
       `Response time is under ${maxTime}ms`,
@@ -319,34 +673,6 @@ export class ApiValidator {
     );
     return isValid;
   }
-
-  /**
-   * Basic schema matching
-   */
-  private static matchesSchema(data: any, schema: any): boolean {
-    if (typeof schema !== typeof data) {
-      return false;
-    }
-
-    if (schema === null || data === null) {
-      return schema === data;
-    }
-
-    if (Array.isArray(schema)) {
-      return Array.isArray(data) && data.every(item => this.matchesSchema(item, schema[0]));
-    }
-
-    if (typeof schema === 'object') {
-      if (typeof data !== 'object') return false;
-      
-      for (const key in schema) {
-        if (!(key in data)) return false;
-        if (!this.matchesSchema(data[key], schema[key])) return false;
-      }
-    }
-
-    return true;
-  }
 }
 
 // Export default API client instance
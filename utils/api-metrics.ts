@@ -0,0 +1,290 @@
+import { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
+import { ClientRequest } from 'http';
+import { Socket } from 'net';
+import axios from 'axios';
+import diagnosticsChannel from 'diagnostics_channel';
+import fs from 'fs';
+import path from 'path';
+import { performance } from 'perf_hooks';
+
+/**
+ * Phases of one request in milliseconds. Connection phases are missing when a kept-alive
+ * socket was reused or no socket was involved (dry-run, replayed cassette).
+ */
+export interface ApiTimings {
+  dnsMs?: number;
+  connectMs?: number;
+  tlsMs?: number;
+  /** Until the response headers arrived */
+  ttfbMs?: number;
+  totalMs: number;
+}
+
+/**
+ * One measured attempt of a request, as written by the worker that sent it
+ */
+export interface ApiSample {
+  method: string;
+  /** Path template the request counts towards, e.g. /users/{id} */
+  endpoint: string;
+  /** Missing when no response arrived */
+  status?: number;
+  errorCode?: string;
+  timings: ApiTimings;
+  requestBytes?: number;
+  responseBytes?: number;
+  timestamp: string;
+}
+
+export interface Percentiles {
+  min: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+  mean: number;
+}
+
+/**
+ * Aggregate of all samples of one method and endpoint template across the run
+ */
+export interface EndpointMetrics {
+  method: string;
+  endpoint: string;
+  count: number;
+  /** Responses by status code, and requests without one by error code */
+  statuses: Record<string, number>;
+  totalMs: Percentiles;
+  ttfbMs?: Percentiles;
+  dnsMs?: Percentiles;
+  connectMs?: Percentiles;
+  tlsMs?: Percentiles;
+  requestBytes?: Percentiles;
+  responseBytes?: Percentiles;
+}
+
+interface PhaseMarks {
+  start: number;
+  lookup?: number;
+  connect?: number;
+  secureConnect?: number;
+  firstByte?: number;
+}
+
+/** Marks of the request the current async context is sending */
+const phaseMarks = new AsyncLocalStorage<PhaseMarks>();
+
+// Node announces every outgoing http(s) request here, synchronously inside the context that
+// created it, so the marks of the adapter call that sent it are at hand
+diagnosticsChannel.subscribe('http.client.request.start', message => {
+  const marks = phaseMarks.getStore();
+  if (!marks) {
+    return;
+  }
+  const { request } = message as { request: ClientRequest };
+  const watch = (socket: Socket) => {
+    if (!socket.connecting) {
+      return;
+    }
+    socket.once('lookup', () => (marks.lookup = performance.now()));
+    socket.once('connect', () => (marks.connect = performance.now()));
+    socket.once('secureConnect', () => (marks.secureConnect = performance.now()));
+  };
+  // The agent has usually assigned a socket already; queued requests get one later
+  if (request.socket) {
+    watch(request.socket);
+  } else {
+    request.once('socket', watch);
+  }
+  request.once('response', () => (marks.firstByte = performance.now()));
+});
+
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}|[0-9a-f]{24,})$/i;
+
+/**
+ * Path template of a URL: numeric, UUID and long hex segments become {id}
+ */
+export function endpointTemplate(url: string): string {
+  const pathname = url.replace(/^[a-z][a-z\d+.-]*:\/\/[^/]+/i, '').split(/[?#]/)[0] || '/';
+  return pathname
+    .split('/')
+    .map(segment => (ID_SEGMENT.test(segment) ? '{id}' : segment))
+    .join('/');
+}
+
+function byteLength(data: unknown): number | undefined {
+  if (typeof data === 'string') {
+    return Buffer.byteLength(data);
+  }
+  if (Buffer.isBuffer(data)) {
+    return data.length;
+  }
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data.byteLength;
+  }
+  return undefined;
+}
+
+function responseBytes(response: AxiosResponse): number | undefined {
+  const length = Number(response.headers['content-length']);
+  return byteLength(response.data) ?? (Number.isFinite(length) ? length : undefined);
+}
+
+function elapsed(from: number | undefined, to: number | undefined): number | undefined {
+  return from === undefined || to === undefined ? undefined : Math.round((to - from) * 10) / 10;
+}
+
+function timingsOf(marks: PhaseMarks, end: number): ApiTimings {
+  const dnsMs = elapsed(marks.start, marks.lookup);
+  const connectMs = elapsed(marks.lookup ?? marks.start, marks.connect);
+  const tlsMs = elapsed(marks.connect, marks.secureConnect);
+  const ttfbMs = elapsed(marks.start, marks.firstByte);
+  return {
+    ...(dnsMs !== undefined && { dnsMs }),
+    ...(connectMs !== undefined && { connectMs }),
+    ...(tlsMs !== undefined && { tlsMs }),
+    ...(ttfbMs !== undefined && { ttfbMs }),
+    totalMs: elapsed(marks.start, end) ?? 0
+  };
+}
+
+/**
+ * Nearest-rank percentiles of a non-empty list
+ */
+export function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)] ?? 0;
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  return {
+    min: sorted[0] ?? 0,
+    p50: rank(50),
+    p90: rank(90),
+    p95: rank(95),
+    p99: rank(99),
+    max: sorted[sorted.length - 1] ?? 0,
+    mean: Math.round(mean * 10) / 10
+  };
+}
+
+/**
+ * Timing and size of every request ApiClient sends. Workers append samples to
+ * test-results/api-metrics, and global teardown aggregates them per endpoint into
+ * performance-report.json.
+ */
+export class ApiMetrics {
+  private static readonly SAMPLES_DIR = path.join(process.cwd(), 'test-results', 'api-metrics');
+
+  /**
+   * Adapter timing `send`. The timings are set on the response (or the error's response);
+   * with `persist` the attempt is also recorded as a sample of the run.
+   */
+  static measure(send: AxiosAdapter, persist: boolean): AxiosAdapter {
+    return async request => {
+      const marks: PhaseMarks = { start: performance.now() };
+      try {
+        const response = await phaseMarks.run(marks, () => send(request));
+        response.timings = timingsOf(marks, performance.now());
+        if (persist) {
+          this.record(request, response.timings, response);
+        }
+        return response;
+      } catch (error) {
+        const timings = timingsOf(marks, performance.now());
+        const response = axios.isAxiosError(error) ? error.response : undefined;
+        if (response) {
+          response.timings = timings;
+        }
+        if (persist) {
+          this.record(request, timings, response, (error as { code?: string }).code);
+        }
+        throw error;
+      }
+    };
+  }
+
+  private static record(
+    request: InternalAxiosRequestConfig,
+    timings: ApiTimings,
+    response: AxiosResponse | undefined,
+    errorCode?: string
+  ): void {
+    const requestBytes = byteLength(request.data);
+    const received = response && responseBytes(response);
+    const sample: ApiSample = {
+      method: (request.method ?? 'get').toUpperCase(),
+      endpoint: request.endpoint ?? endpointTemplate(request.url ?? ''),
+      ...(response ? { status: response.status } : { errorCode: errorCode ?? 'ERR_NETWORK' }),
+      timings,
+      ...(requestBytes !== undefined && { requestBytes }),
+      ...(received !== undefined && { responseBytes: received }),
+      timestamp: new Date().toISOString()
+    };
+    const file = path.join(this.SAMPLES_DIR, `${process.pid}.jsonl`);
+    fs.mkdirSync(this.SAMPLES_DIR, { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify(sample)}\n`);
+  }
+
+  /**
+   * Drop the samples of a previous run
+   */
+  static reset(): void {
+    fs.rmSync(this.SAMPLES_DIR, { recursive: true, force: true });
+  }
+
+  /**
+   * Samples recorded by all workers of this run
+   */
+  static readSamples(): ApiSample[] {
+    if (!fs.existsSync(this.SAMPLES_DIR)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.SAMPLES_DIR)
+      .filter(file => file.endsWith('.jsonl'))
+      .flatMap(file => fs.readFileSync(path.join(this.SAMPLES_DIR, file), 'utf-8').split('\n'))
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as ApiSample);
+  }
+
+  /**
+   * Per-endpoint aggregates, slowest p95 first
+   */
+  static summarize(samples: ApiSample[] = this.readSamples()): EndpointMetrics[] {
+    const groups = new Map<string, ApiSample[]>();
+    for (const sample of samples) {
+      const key = `${sample.method} ${sample.endpoint}`;
+      groups.set(key, [...(groups.get(key) ?? []), sample]);
+    }
+
+    const optional = (name: keyof EndpointMetrics, values: Array<number | undefined>) => {
+      const present = values.filter((value): value is number => value !== undefined);
+      return present.length > 0 ? { [name]: percentiles(present) } : {};
+    };
+
+    return [...groups.values()]
+      .map(group => {
+        const [{ method, endpoint }] = group as [ApiSample];
+        const statuses: Record<string, number> = {};
+        for (const sample of group) {
+          const key = String(sample.status ?? sample.errorCode);
+          statuses[key] = (statuses[key] ?? 0) + 1;
+        }
+        return {
+          method,
+          endpoint,
+          count: group.length,
+          statuses,
+          totalMs: percentiles(group.map(sample => sample.timings.totalMs)),
+          ...optional('ttfbMs', group.map(sample => sample.timings.ttfbMs)),
+          ...optional('dnsMs', group.map(sample => sample.timings.dnsMs)),
+          ...optional('connectMs', group.map(sample => sample.timings.connectMs)),
+          ...optional('tlsMs', group.map(sample => sample.timings.tlsMs)),
+          ...optional('requestBytes', group.map(sample => sample.requestBytes)),
+          ...optional('responseBytes', group.map(sample => sample.responseBytes))
+        };
+      })
+      .sort((a, b) => b.totalMs.p95 - a.totalMs.p95);
+  }
+}
@@ -0,0 +1,183 @@
+import { Browser, BrowserContext, request } from '@playwright/test';
+import { TestCredentials, TestDataManager, UserCredentials } from './test-data-manager';
+import { LoginPage } from '../pages/login-page';
+import { SecretManager } from './secrets';
+import { config } from './config';
+import fs from 'fs';
+import { logger } from './logger';
+import path from 'path';
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/**
+ * Storage state file written per role, environment and target
+ */
+interface CachedState {
+  role: string;
+  username: string;
+  baseUrl: string;
+  createdAt: string;
+  expiresAt: string;
+  state: StorageState;
+}
+
+/**
+ * Credentials for a role: 'user' and 'admin' map to validUser and adminUser,
+ * any other role to the first active testUsers entry with that role
+ */
+export function credentialsForRole(credentials: TestCredentials, role: string): UserCredentials {
+  if (role === 'admin') {
+    return credentials.adminUser;
+  }
+  if (role === 'user') {
+    return credentials.validUser;
+  }
+  const user = credentials.testUsers.find(candidate => candidate.role === role && candidate.active);
+  if (!user) {
+    const known = new Set(['user', 'admin', ...credentials.testUsers.map(candidate => candidate.role)]);
+    throw new Error(`No credentials for role "${role}" (known roles: ${[...known].join(', ')})`);
+  }
+  return user;
+}
+
+/**
+ * Logs each role in once and caches its Playwright storage state on disk, so
+ * tests can start authenticated with `test.use({ role: 'admin' })`
+ */
+export class AuthManager {
+  /**
+   * Storage state for `role`, from the cache while it is fresh, otherwise by logging in
+   */
+  static async getStorageState(
+    role: string,
+    options: { launchBrowser?: () => Promise<Browser> } = {}
+  ): Promise<StorageState> {
+    const filePath = this.stateFile(role);
+    const cached = this.readCache(filePath);
+    if (cached) {
+      logger.debug(`Reusing storage state for role: ${role}`, { expiresAt: cached.expiresAt });
+      return cached.state;
+    }
+
+    const credentials = credentialsForRole(
+      await TestDataManager.loadJsonData(config.getCredentialsFile()),
+      role
+    );
+    SecretManager.registerValue(credentials.password);
+    const { loginMethod, stateTtlMinutes } = config.getAuthConfig();
+
+    logger.info(`Logging in role: ${role}`, { username: credentials.username, method: loginMethod });
+    const state =
+      loginMethod === 'ui'
+        ? await this.loginThroughUi(credentials, options.launchBrowser)
+        : await this.loginThroughApi(credentials);
+
+    const createdAt = new Date();
+    this.writeCache(filePath, {
+      role,
+      username: credentials.username,
+      baseUrl: config.getUrls().base,
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(createdAt.getTime() + stateTtlMinutes * 60_000).toISOString(),
+      state
+    });
+    return state;
+  }
+
+  /**
+   * Remove cached storage state for one role, or every role of the active environment
+   */
+  static clear(role?: string): void {
+    const target = role ? this.stateFile(role) : this.stateDir();
+    fs.rmSync(target, { recursive: true, force: true });
+    logger.info(`Cleared cached storage state: ${target}`);
+  }
+
+  /**
+   * Cache directory for the active environment and target, e.g. .auth/staging-eu-staging
+   */
+  static stateDir(): string {
+    const target = config.getTarget();
+    const scope = target ? `${config.getEnvironment()}-${target.name}` : config.getEnvironment();
+    return path.resolve(config.getAuthConfig().stateDir, scope);
+  }
+
+  private static stateFile(role: string): string {
+    return path.join(this.stateDir(), `${role.replace(/[^\w-]+/g, '_')}.json`);
+  }
+
+  private static readCache(filePath: string): CachedState | undefined {
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    try {
+      const cached: CachedState = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      const fresh = Date.parse(cached.expiresAt) > Date.now();
+      return fresh && cached.baseUrl === config.getUrls().base ? cached : undefined;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable storage state: ${filePath}`, error as Error);
+      return undefined;
+    }
+  }
+
+  private static writeCache(filePath: string, cached: CachedState): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    // Write then rename so parallel workers never read a half-written file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(cached, null, 2));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  /**
+   * POST the login endpoint and keep the cookies it sets plus the session id the
+   * web app stores in localStorage
+   */
+  private static async loginThroughApi(credentials: UserCredentials): Promise<StorageState> {
+    const baseURL = config.getUrls().base;
+    const context = await request.newContext({ baseURL });
+    try {
+      const response = await context.post(config.getAuthConfig().loginEndpoint, {
+        data: { username: credentials.username, password: credentials.password, rememberMe: true }
+      });
+      if (!response.ok()) {
+        throw new Error(`Login failed for ${credentials.username}: HTTP ${response.status()}`);
+      }
+
+      const body = await response.json().catch(() => ({}));
+      const state = await context.storageState();
+      if (typeof body.sessionId === 'string') {
+        state.origins.push({
+          origin: new URL(baseURL).origin,
+          localStorage: [{ name: 'sessionId', value: body.sessionId }]
+        });
+      }
+      return state;
+    } finally {
+      await context.dispose();
+    }
+  }
+
+  /**
+   * Log in through the login page in a throwaway browser
+   */
+  private static async loginThroughUi(
+    credentials: UserCredentials,
+    launchBrowser: (() => Promise<Browser>) | undefined
+  ): Promise<StorageState> {
+    if (!launchBrowser) {
+      throw new Error('UI login needs a browser; use the api login method outside browser tests');
+    }
+    const browser = await launchBrowser();
+    try {
+      const context = await browser.newContext({ baseURL: config.getUrls().base });
+      const page = await context.newPage();
+      const loginPage = new LoginPage(page);
+      await loginPage.goto();
+      await loginPage.login(credentials.username, credentials.password, true);
+      await page.waitForURL(/dashboard/);
+      return await context.storageState();
+    } finally {
+      await browser.close();
+    }
+  }
+}
@@ -0,0 +1,411 @@
+import { ApiAuthConfig, ApiAuthStrategyName, OAuth2Grant } from './config-schema';
+import { Secret, SecretManager } from './secrets';
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { MultipartBody } from './file-transfer';
+import { config } from './config';
+import crypto from 'crypto';
+import { logger } from './logger';
+
+/**
+ * Adds credentials to ApiClient requests. Strategies whose credentials expire implement
+ * refresh(), which ApiClient calls once when a request is answered with 401 before
+ * replaying it.
+ */
+export interface AuthStrategy {
+  readonly name: string;
+  apply(request: InternalAxiosRequestConfig): void | Promise<void>;
+  /** Drop cached credentials after a 401; false when there is nothing to renew */
+  refresh?(): Promise<boolean>;
+}
+
+function reveal(value: Secret | string): string {
+  return typeof value === 'string' ? value : value.reveal();
+}
+
+/**
+ * Static `Authorization: <scheme> <token>` header
+ */
+export class TokenAuth implements AuthStrategy {
+  readonly name = 'bearer';
+
+  constructor(
+    private readonly token: Secret | string,
+    private readonly scheme: 'Bearer' | 'Basic' = 'Bearer'
+  ) {}
+
+  apply(request: InternalAxiosRequestConfig): void {
+    request.headers.set('Authorization', `${this.scheme} ${reveal(this.token)}`);
+  }
+}
+
+/**
+ * API key sent as a header or a query parameter
+ */
+export class ApiKeyAuth implements AuthStrategy {
+  readonly name = 'api-key';
+
+  constructor(
+    private readonly key: Secret | string,
+    private readonly options: { in: 'header' | 'query'; name: string } = {
+      in: 'header',
+      name: 'X-API-Key'
+    }
+  ) {}
+
+  apply(request: InternalAxiosRequestConfig): void {
+    if (this.options.in === 'query') {
+      request.params = { ...request.params, [this.options.name]: reveal(this.key) };
+    } else {
+      request.headers.set(this.options.name, reveal(this.key));
+    }
+  }
+}
+
+export interface OAuth2Options {
+  grant: OAuth2Grant;
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: Secret | string;
+  scope?: string;
+  /** Resource owner for the password grant */
+  username?: string;
+  password?: Secret | string;
+}
+
+interface OAuth2Token {
+  accessToken: string;
+  tokenType: string;
+  refreshToken: string | undefined;
+  /** Epoch ms after which the token is renewed; Infinity without expires_in */
+  expiresAt: number;
+}
+
+/** Renew tokens this long before they expire so a request never carries a stale one */
+const TOKEN_EXPIRY_SKEW_MS = 30_000;
+
+/**
+ * OAuth2 client-credentials or password grant. Tokens are cached per client, grant, user
+ * and scope for the whole worker, renewed through the refresh token when they expire, and
+ * fetched again when the API rejects them.
+ */
+export class OAuth2Auth implements AuthStrategy {
+  readonly name = 'oauth2';
+  private static tokens = new Map<string, Promise<OAuth2Token>>();
+
+  constructor(private readonly options: OAuth2Options) {
+    if (options.grant === 'password' && (!options.username || !options.password)) {
+      throw new Error('The OAuth2 password grant needs a username and password');
+    }
+  }
+
+  /**
+   * Forget every cached token, e.g. between tests that rotate credentials
+   */
+  static clearTokens(): void {
+    this.tokens.clear();
+  }
+
+  async apply(request: InternalAxiosRequestConfig): Promise<void> {
+    const token = await this.currentToken();
+    request.headers.set('Authorization', `${token.tokenType} ${token.accessToken}`);
+  }
+
+  async refresh(): Promise<boolean> {
+    const cached = OAuth2Auth.tokens.get(this.cacheKey());
+    const previous = cached && (await cached.catch(() => undefined));
+    OAuth2Auth.tokens.set(this.cacheKey(), this.renew(previous));
+    return true;
+  }
+
+  private cacheKey(): string {
+    const { tokenUrl, clientId, grant, username, scope } = this.options;
+    return [tokenUrl, clientId, grant, username ?? '', scope ?? ''].join('|');
+  }
+
+  private async currentToken(): Promise<OAuth2Token> {
+    const key = this.cacheKey();
+    const pending = OAuth2Auth.tokens.get(key);
+    const token = pending && (await pending.catch(() => undefined));
+    if (token && token.expiresAt > Date.now()) {
+      return token;
+    }
+    // Unless a concurrent request already started renewing while this one waited
+    if (OAuth2Auth.tokens.get(key) === pending) {
+      OAuth2Auth.tokens.set(key, this.renew(token));
+    }
+    return OAuth2Auth.tokens.get(key) as Promise<OAuth2Token>;
+  }
+
+  /**
+   * Exchange the refresh token when there is one, falling back to the configured grant
+   */
+  private async renew(previous: OAuth2Token | undefined): Promise<OAuth2Token> {
+    if (previous?.refreshToken) {
+      try {
+        return await this.requestToken({
+          grant_type: 'refresh_token',
+          refresh_token: previous.refreshToken
+        });
+      } catch (error) {
+        logger.warn('OAuth2 refresh token rejected, requesting a new token', {
+          message: (error as Error).message
+        });
+      }
+    }
+    const { grant, scope, username, password } = this.options;
+    return this.requestToken({
+      grant_type: grant,
+      ...(scope && { scope }),
+      ...(grant === 'password' && username && password
+        ? { username, password: reveal(password) }
+        : {})
+    });
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<OAuth2Token> {
+    const { tokenUrl, clientId, clientSecret } = this.options;
+    const body = new URLSearchParams(params);
+    if (!clientSecret) {
+      body.set('client_id', clientId);
+    }
+    let response: AxiosResponse;
+    try {
+      response = await axios.post(tokenUrl, body.toString(), {
+        timeout: config.getApiConfig().timeout,
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json'
+        },
+        ...(clientSecret && { auth: { username: clientId, password: reveal(clientSecret) } })
+      });
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new Error(
+        `OAuth2 ${params.grant_type} grant failed at ${tokenUrl}` +
+          (status ? `: HTTP ${status}` : `: ${(error as Error).message}`)
+      );
+    }
+
+    const data = response.data ?? {};
+    if (typeof data.access_token !== 'string') {
+      throw new Error(`OAuth2 token response from ${tokenUrl} has no access_token`);
+    }
+    SecretManager.registerValue(data.access_token);
+    if (typeof data.refresh_token === 'string') {
+      SecretManager.registerValue(data.refresh_token);
+    }
+    const expiresIn = Number(data.expires_in);
+    logger.info('OAuth2 token acquired', { grant: params.grant_type, expiresIn: data.expires_in });
+    return {
+      accessToken: data.access_token,
+      tokenType: typeof data.token_type === 'string' ? capitalize(data.token_type) : 'Bearer',
+      refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+      expiresAt:
+        expiresIn > 0
+          ? Date.now() + expiresIn * 1000 - TOKEN_EXPIRY_SKEW_MS
+          : Number.POSITIVE_INFINITY
+    };
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+}
+
+export interface SessionOptions {
+  /** Login endpoint, absolute or relative to urls.base */
+  loginUrl: string;
+  username: string;
+  password: Secret | string;
+  /** Header carrying the `sessionId` the login answers with */
+  sessionHeader?: string;
+}
+
+/**
+ * Logs in once like the web app does (POST { username, password } to /api/login) and sends
+ * the session with every request: cookies the login set plus its `sessionId` as a header
+ */
+export class SessionAuth implements AuthStrategy {
+  readonly name = 'session';
+  private session: Promise<Record<string, string>> | undefined;
+
+  constructor(private readonly options: SessionOptions) {}
+
+  async apply(request: InternalAxiosRequestConfig): Promise<void> {
+    this.session ??= this.login();
+    for (const [name, value] of Object.entries(await this.session)) {
+      request.headers.set(name, value);
+    }
+  }
+
+  async refresh(): Promise<boolean> {
+    this.session = this.login();
+    await this.session;
+    return true;
+  }
+
+  private async login(): Promise<Record<string, string>> {
+    const { loginUrl, username, password, sessionHeader = 'X-Session-Id' } = this.options;
+    const url = new URL(loginUrl, config.getUrls().base).toString();
+    let response: AxiosResponse;
+    try {
+      response = await axios.post(
+        url,
+        { username, password: reveal(password) },
+        { timeout: config.getApiConfig().timeout }
+      );
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      this.session = undefined;
+      throw new Error(
+        `Session login failed for ${username} at ${url}` +
+          (status ? `: HTTP ${status}` : `: ${(error as Error).message}`)
+      );
+    }
+
+    const headers: Record<string, string> = {};
+    const cookies = (response.headers['set-cookie'] ?? []).map(cookie => cookie.split(';')[0]);
+    if (cookies.length > 0) {
+      headers.Cookie = cookies.join('; ');
+    }
+    if (typeof response.data?.sessionId === 'string') {
+      SecretManager.registerValue(response.data.sessionId);
+      headers[sessionHeader] = response.data.sessionId;
+    }
+    logger.info('API session established', { username, loginUrl: url });
+    return headers;
+  }
+}
+
+export interface HmacOptions {
+  keyId: string;
+  secret: Secret | string;
+  algorithm?: 'sha256' | 'sha512';
+  /** Header carrying the signature, X-Signature by default */
+  header?: string;
+}
+
+/**
+ * Signs each request with an HMAC over
+ * `METHOD \n /path?query \n X-Timestamp \n hex(sha256(body))` and sends
+ * `X-Signature: keyId="…",algorithm="hmac-sha256",signature="<base64>"`. The body of a
+ * multipart upload is the encoded form it streams.
+ */
+export class HmacAuth implements AuthStrategy {
+  readonly name = 'hmac';
+
+  constructor(private readonly options: HmacOptions) {}
+
+  async apply(request: InternalAxiosRequestConfig): Promise<void> {
+    const { keyId, secret, algorithm = 'sha256', header = 'X-Signature' } = this.options;
+    // Sign the exact bytes axios will send
+    if (isPlainData(request.data)) {
+      request.data = JSON.stringify(request.data);
+    }
+    const bodyHash =
+      request.data instanceof MultipartBody
+        ? await request.data.digest()
+        : crypto
+            .createHash('sha256')
+            .update(typeof request.data === 'string' ? request.data : '')
+            .digest('hex');
+    const target = new URL(axios.getUri(request), 'http://localhost');
+    const timestamp = new Date().toISOString();
+    const canonical = [
+      (request.method ?? 'get').toUpperCase(),
+      `${target.pathname}${target.search}`,
+      timestamp,
+      bodyHash
+    ].join('\n');
+    const signature = crypto
+      .createHmac(algorithm, reveal(secret))
+      .update(canonical)
+      .digest('base64');
+
+    request.headers.set('X-Timestamp', timestamp);
+    request.headers.set(
+      header,
+      `keyId="${keyId}",algorithm="hmac-${algorithm}",signature="${signature}"`
+    );
+  }
+}
+
+function isPlainData(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return Array.isArray(value) || prototype === Object.prototype || prototype === null;
+}
+
+function required<T>(value: T | undefined, setting: string, strategy: string): T {
+  if (value === undefined || value === '') {
+    throw new Error(`API auth strategy "${strategy}" needs ${setting}`);
+  }
+  return value;
+}
+
+/**
+ * Strategy described by the `api.auth` configuration, or undefined for 'none'
+ */
+export function createAuthStrategy(
+  name: ApiAuthStrategyName,
+  auth: ApiAuthConfig,
+  apiKey: Secret | undefined
+): AuthStrategy | undefined {
+  switch (name) {
+    case 'none':
+      return undefined;
+    case 'bearer':
+      return new TokenAuth(required(auth.token, 'api.auth.token (API_TOKEN)', name));
+    case 'api-key':
+      return new ApiKeyAuth(required(apiKey, 'api.key (API_KEY)', name), {
+        in: auth.apiKeyIn,
+        name: auth.apiKeyName
+      });
+    case 'oauth2': {
+      const { grant, tokenUrl, clientId, clientSecret, scope } = auth.oauth2;
+      return new OAuth2Auth({
+        grant,
+        tokenUrl: required(tokenUrl, 'api.auth.oauth2.tokenUrl (OAUTH2_TOKEN_URL)', name),
+        clientId: required(clientId, 'api.auth.oauth2.clientId (OAUTH2_CLIENT_ID)', name),
+        ...(clientSecret && { clientSecret }),
+        ...(scope && { scope }),
+        ...(auth.username && { username: auth.username }),
+        ...(auth.password && { password: auth.password })
+      });
+    }
+    case 'session':
+      return new SessionAuth({
+        loginUrl: config.getAuthConfig().loginEndpoint,
+        username: required(auth.username, 'api.auth.username (API_USERNAME)', name),
+        password: required(auth.password, 'api.auth.password (API_PASSWORD)', name)
+      });
+    case 'hmac':
+      return new HmacAuth({
+        keyId: required(auth.hmac.keyId, 'api.auth.hmac.keyId (HMAC_KEY_ID)', name),
+        secret: required(auth.hmac.secret, 'api.auth.hmac.secret (HMAC_SECRET)', name),
+        algorithm: auth.hmac.algorithm
+      });
+  }
+}
+
+/** Strategies built from each configuration, so sessions and tokens survive between requests */
+const configuredStrategies = new WeakMap<ApiAuthConfig, Map<string, AuthStrategy | undefined>>();
+
+/**
+ * Strategy `name` (default: api.auth.strategy) built from the active configuration
+ */
+export function configuredAuthStrategy(name?: ApiAuthStrategyName): AuthStrategy | undefined {
+  const apiConfig = config.getApiConfig();
+  const strategyName = name ?? apiConfig.auth.strategy;
+  let strategies = configuredStrategies.get(apiConfig.auth);
+  if (!strategies) {
+    strategies = new Map();
+    configuredStrategies.set(apiConfig.auth, strategies);
+  }
+  if (!strategies.has(strategyName)) {
+    strategies.set(strategyName, createAuthStrategy(strategyName, apiConfig.auth, apiConfig.key));
+  }
+  return strategies.get(strategyName);
+}
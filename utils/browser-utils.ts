@@ -1,4 +1,6 @@
 import { Page, Browser, BrowserContext } from '@playwright/test';
+import { SecretManager } from './secrets';
+import { WebSocketFrameCapture } from './streaming';
 import { logger } from './logger';
 
 /**
@@ -143,16 +145,23 @@ export class PageUtils {
   /**
    * Safe type with clear and retry
    */
-  async safeType(selector: string, text: string, options?: { timeout?: number; retries?: number }): Promise<void> {
+  async safeType(
+    selector: string,
+    text: string,
+    options?: { timeout?: number; retries?: number; sensitive?: boolean }
+  ): Promise<void> {
     const timeout = options?.timeout || 10000;
     const retries = options?.retries || 3;
+    if (options?.sensitive) {
+      SecretManager.registerValue(text);
+    }
 
     for (let i = 0; i < retries; i++) {
       try {
         const element = this.page.locator(selector);
         await element.clear({ timeout });
         await element.fill(text, { timeout });
-        logger.elementInteraction('type', selector, text);
+        logger.elementInteraction('type', selector, text, options?.sensitive);
         return;
       } catch (error) {
         if (i === retries - 1) {
@@ -226,4 +235,12 @@ export class PageUtils {
     logger.performance('Page metrics collected', 0, metrics);
     return metrics;
   }
+
+  /**
+   * Capture the frames of WebSockets the page opens from now on, e.g. before navigating to a
+   * live dashboard; `url` narrows capture to sockets whose URL contains or matches it
+   */
+  captureWebSocketFrames(url?: string | RegExp): WebSocketFrameCapture {
+    return new WebSocketFrameCapture(this.page, url);
+  }
 }
@@ -0,0 +1,321 @@
+import {
+  CONFIG_SCHEMA,
+  ConfigIssue,
+  ConfigPath,
+  DeepPartial,
+  Environment,
+  FieldRule,
+  FrameworkConfig,
+  coerceEnvValue,
+  envVarsFor,
+  getPath
+} from './config-schema';
+import { REDACTED, Secret, SecretManager } from './secrets';
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Layers in increasing order of precedence
+ */
+export type ConfigLayerName =
+  | 'defaults'
+  | 'environment-file'
+  | 'dotenv'
+  | 'process-env'
+  | 'target'
+  | 'overrides'
+  | 'secret-provider'
+  /** The default put back in place of a value that violates the schema */
+  | 'fallback';
+
+export interface ConfigLayer {
+  name: ConfigLayerName;
+  /** Human readable origin: a file path, variable group or 'programmatic' */
+  origin: string;
+  values: DeepPartial<FrameworkConfig>;
+  /** Environment variable that supplied each path, for env-backed layers */
+  envVars?: Partial<Record<ConfigPath, string>>;
+}
+
+/**
+ * One contribution to a resolved value
+ */
+export interface ValueOrigin {
+  layer: ConfigLayerName;
+  origin: string;
+  envVar?: string;
+  value: unknown;
+}
+
+/**
+ * Which layer supplied a resolved leaf value, and what it overrode
+ */
+export interface ConfigExplanation {
+  path: string;
+  value: unknown;
+  layer: ConfigLayerName;
+  origin: string;
+  envVar?: string;
+  /** Lower-precedence layers that also set this path */
+  overridden: ValueOrigin[];
+}
+
+export interface ResolvedConfig {
+  config: FrameworkConfig;
+  /** Every layer that set each leaf path, lowest precedence first */
+  provenance: Map<string, ValueOrigin[]>;
+  /** Keys present in a layer that do not exist in the defaults */
+  unknownKeys: Array<{ path: string; origin: string }>;
+}
+
+type PlainObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is PlainObject {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Deep merge `source` into `target`. Objects merge recursively, arrays and scalars
+ * replace, and undefined never overrides an existing value.
+ */
+export function deepMerge<T>(target: T, source: DeepPartial<T> | undefined): T {
+  return isPlainObject(source) ? (mergeObjects(target as PlainObject, source) as T) : target;
+}
+
+function mergeObjects(target: PlainObject, source: PlainObject): PlainObject {
+  const result: PlainObject = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) {
+      continue;
+    }
+    const existing = result[key];
+    result[key] =
+      isPlainObject(existing) && isPlainObject(value) ? mergeObjects(existing, value) : value;
+  }
+  return result;
+}
+
+/**
+ * Flatten an object into dot-separated leaf paths
+ */
+export function flattenLeaves(obj: unknown, prefix = ''): Array<[string, unknown]> {
+  if (!isPlainObject(obj)) {
+    return prefix ? [[prefix, obj]] : [];
+  }
+  return Object.entries(obj).flatMap(([key, value]) =>
+    flattenLeaves(value, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+/**
+ * Set a dot-separated path on a plain object, creating intermediate objects
+ */
+export function setPath(obj: PlainObject, key: string, value: unknown): void {
+  const parts = key.split('.');
+  const last = parts.pop() as string;
+  let node = obj;
+  for (const part of parts) {
+    if (!isPlainObject(node[part])) {
+      node[part] = {};
+    }
+    node = node[part] as PlainObject;
+  }
+  node[last] = value;
+}
+
+/**
+ * Layer read from a JSON file such as config/staging.json; missing files yield an empty layer
+ */
+export function fileLayer(filePath: string): ConfigLayer {
+  const origin = path.relative(process.cwd(), filePath) || filePath;
+  if (!fs.existsSync(filePath)) {
+    return { name: 'environment-file', origin, values: {} };
+  }
+
+  try {
+    const values = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return { name: 'environment-file', origin, values };
+  } catch (error) {
+    throw new Error(`Failed to parse config file ${origin}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Layer built from environment variables using the env names declared in CONFIG_SCHEMA
+ */
+export function envLayer(
+  name: 'dotenv' | 'process-env',
+  origin: string,
+  vars: Record<string, string | undefined>,
+  environment: Environment
+): ConfigLayer {
+  const values: PlainObject = {};
+  const envVars: Partial<Record<ConfigPath, string>> = {};
+
+  for (const [configPath, rule] of Object.entries(CONFIG_SCHEMA) as [ConfigPath, FieldRule][]) {
+    const envVar = envVarsFor(rule, environment).find(
+      candidate => vars[candidate] !== undefined && vars[candidate] !== ''
+    );
+    if (envVar === undefined) {
+      continue;
+    }
+    setPath(values, configPath, coerceEnvValue(rule, vars[envVar] as string));
+    envVars[configPath] = envVar;
+  }
+
+  return { name, origin, values: values as DeepPartial<FrameworkConfig>, envVars };
+}
+
+/**
+ * Variables defined in a .env file, without touching process.env
+ */
+export function readDotenvFile(filePath: string): Record<string, string> {
+  return fs.existsSync(filePath) ? dotenv.parse(fs.readFileSync(filePath)) : {};
+}
+
+/**
+ * Variables that were set in the real process environment rather than injected from .env
+ */
+export function processOnlyVars(
+  env: NodeJS.ProcessEnv,
+  dotenvVars: Record<string, string>
+): Record<string, string | undefined> {
+  return Object.fromEntries(
+    Object.entries(env).filter(([key, value]) => dotenvVars[key] !== value)
+  );
+}
+
+/**
+ * Parse `key=value` pairs separated by commas or semicolons, e.g. CONFIG_OVERRIDES
+ * "test.workers=1,browser.headless=true". Values are coerced using CONFIG_SCHEMA.
+ */
+export function parseOverrideList(list: string): DeepPartial<FrameworkConfig> {
+  const values: PlainObject = {};
+  for (const pair of list.split(/[,;]/)) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+    const key = pair.slice(0, separator).trim();
+    const raw = pair.slice(separator + 1).trim();
+    const rule = CONFIG_SCHEMA[key as ConfigPath];
+    setPath(values, key, rule ? coerceEnvValue(rule, raw) : raw);
+  }
+  return values as DeepPartial<FrameworkConfig>;
+}
+
+/**
+ * Deep-merge layers in order and record which layer supplied every leaf value
+ */
+export function resolveLayers(defaults: FrameworkConfig, layers: ConfigLayer[]): ResolvedConfig {
+  const provenance = new Map<string, ValueOrigin[]>();
+  const unknownKeys: ResolvedConfig['unknownKeys'] = [];
+  const knownPaths = new Set(flattenLeaves(defaults).map(([leaf]) => leaf));
+  const allLayers: ConfigLayer[] = [
+    { name: 'defaults', origin: 'built-in', values: defaults },
+    ...layers
+  ];
+
+  let config = defaults;
+  for (const layer of allLayers) {
+    config = deepMerge(config, layer.values);
+
+    for (const [leaf, value] of flattenLeaves(layer.values)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (!knownPaths.has(leaf)) {
+        unknownKeys.push({ path: leaf, origin: layer.origin });
+      }
+      const envVar = layer.envVars?.[leaf as ConfigPath];
+      const entry: ValueOrigin = envVar
+        ? { layer: layer.name, origin: layer.origin, envVar, value }
+        : { layer: layer.name, origin: layer.origin, value };
+      provenance.set(leaf, [...(provenance.get(leaf) ?? []), entry]);
+    }
+  }
+
+  return { config, provenance, unknownKeys };
+}
+
+/**
+ * Wrap every secret path of a resolved configuration in a Secret. Values no layer
+ * supplied are looked up through SecretManager's providers (encrypted file, vault, ...).
+ * Secret values in the provenance are masked so explain() never shows them.
+ */
+export function resolveSecrets(resolved: ResolvedConfig, environment: Environment): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  for (const [configPath, rule] of Object.entries(CONFIG_SCHEMA) as [ConfigPath, FieldRule][]) {
+    if (rule.type !== 'secret') {
+      continue;
+    }
+    const history = resolved.provenance.get(configPath) ?? [];
+    const value = getPath(resolved.config, configPath);
+
+    if (typeof value === 'string' && value !== '') {
+      const winner = history[history.length - 1];
+      setPath(resolved.config as unknown as PlainObject, configPath, Secret.of(value, winner?.origin));
+    } else if (value === undefined || value === '') {
+      // Environment variables were already applied by the env layers
+      for (const key of envVarsFor(rule, environment)) {
+        let secret: Secret | undefined;
+        try {
+          secret = SecretManager.resolve(key, { skip: ['env'] });
+        } catch (error) {
+          issues.push({ path: configPath, envVar: key, message: (error as Error).message });
+          break;
+        }
+        if (secret) {
+          setPath(resolved.config as unknown as PlainObject, configPath, secret);
+          history.push({ layer: 'secret-provider', origin: secret.source, envVar: key, value: secret });
+          resolved.provenance.set(configPath, history);
+          break;
+        }
+      }
+    }
+
+    for (const entry of history) {
+      entry.value = REDACTED;
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Explain every leaf at or below `key` in a resolved configuration
+ */
+export function explainPath(resolved: ResolvedConfig, key: string): ConfigExplanation[] {
+  const value = getPath(resolved.config, key);
+
+  return flattenLeaves(value, key).map(([leaf, leafValue]) => {
+    const history = resolved.provenance.get(leaf) ?? [];
+    const winner = history[history.length - 1];
+    if (!winner) {
+      return {
+        path: leaf,
+        value: leafValue,
+        layer: 'defaults',
+        origin: 'built-in',
+        overridden: []
+      };
+    }
+    const explanation: ConfigExplanation = {
+      path: leaf,
+      value: leafValue,
+      layer: winner.layer,
+      origin: winner.origin,
+      overridden: history.slice(0, -1)
+    };
+    if (winner.envVar) {
+      explanation.envVar = winner.envVar;
+    }
+    return explanation;
+  });
+}
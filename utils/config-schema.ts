@@ -0,0 +1,682 @@
+/**
+ * Typed configuration model and load-time schema for the framework Config
+ */
+import { Secret } from './secrets';
+
+export type Environment = 'development' | 'staging' | 'production';
+export type ScreenshotMode = 'off' | 'on' | 'only-on-failure';
+export type VideoMode = 'off' | 'on' | 'retain-on-failure' | 'on-first-retry';
+export type TraceMode =
+  | 'off'
+  | 'on'
+  | 'retain-on-failure'
+  | 'on-first-retry'
+  | 'on-all-retries'
+  | 'retain-on-first-failure';
+export type LogLevel = 'error' | 'warn' | 'info' | 'http' | 'verbose' | 'debug' | 'silly';
+
+export const ENVIRONMENTS: readonly Environment[] = ['development', 'staging', 'production'];
+
+export interface ViewportConfig {
+  width: number;
+  height: number;
+}
+
+export interface BrowserConfig {
+  headless: boolean;
+  slowMo: number;
+  timeout: number;
+  viewport: ViewportConfig;
+}
+
+export type HarMode = 'off' | 'record' | 'replay';
+export type HarMatching = 'strict' | 'lenient';
+
+export interface HarConfig {
+  /** Record a sanitized HAR per browser test, or serve the responses of recorded ones */
+  mode: HarMode;
+  dir: string;
+  /** URL glob of the requests recorded and replayed; all of them when unset */
+  urlFilter: string | undefined;
+  /**
+   * What replay does with requests the HAR has no entry for: strict aborts them and fails the
+   * test, lenient sends them to the network; both list them in the report
+   */
+  matching: HarMatching;
+}
+
+export interface ChaosConfig {
+  /** Apply network chaos to the browser context of every test, see utils/network-chaos */
+  enabled: boolean;
+  /** Seed of the faults; a random one per test when unset, reported so a run can be repeated */
+  seed: number | undefined;
+  /** JSON file of chaos rules; the default rules when unset */
+  rules: string | undefined;
+}
+
+export interface TestConfig {
+  workers: number;
+  retries: number;
+  timeout: number;
+  expectTimeout: number;
+  chaos: ChaosConfig;
+  /** Per-test HAR files, see utils/har */
+  har: HarConfig;
+}
+
+export interface UrlConfig {
+  base: string;
+  api: string;
+  staging: string | undefined;
+  production: string | undefined;
+}
+
+export type DbDriver = 'postgres' | 'sqlite';
+
+export interface DatabaseConfig {
+  /** Database DbClient connects to; the db fixture and seeding are off when unset */
+  driver: DbDriver | undefined;
+  host: string | undefined;
+  port: number;
+  name: string | undefined;
+  user: string | undefined;
+  password: Secret | undefined;
+  /** SQLite file the in-memory database starts from; an empty database when unset */
+  file: string | undefined;
+  /** Seed files (.sql and .json) applied in name order, see utils/db-client */
+  seedDir: string;
+}
+
+export type ResponseValidationMode = 'off' | 'warn' | 'fail';
+
+export interface RetryConfig {
+  /** Attempts per request including the first one; 1 disables retries */
+  maxAttempts: number;
+  /** Backoff before the second attempt, doubled for every further one */
+  baseDelayMs: number;
+  /** Longest backoff between attempts */
+  maxDelayMs: number;
+  /**
+   * Longest Retry-After that is waited out in full; a response asking for longer is not
+   * retried, since retrying sooner would ignore what the server asked for
+   */
+  maxRetryAfterMs: number;
+  /** Response statuses worth another attempt */
+  statusCodes: number[];
+  /** Retry requests that got no response at all (refused or reset, DNS failure, timeout) */
+  networkErrors: boolean;
+}
+
+export type VcrMode = 'passthrough' | 'record' | 'replay';
+
+export interface VcrConfig {
+  /**
+   * passthrough sends requests as usual, record also writes them to the test's cassette and
+   * replay answers them from the cassette without a server
+   */
+  mode: VcrMode;
+  /** Directory cassettes are stored in, one JSON file per test */
+  cassetteDir: string;
+  /** Whether the query string and body, besides method and path, select a recorded response */
+  matchQuery: boolean;
+  matchBody: boolean;
+  /** Request headers stored in cassettes and compared on replay */
+  matchHeaders: string[];
+}
+
+export interface ContractsConfig {
+  /** Write the interactions of passing tests to consumer contracts */
+  record: boolean;
+  /** Directory of contract files, one per consumer and provider */
+  dir: string;
+  /** Names the contracts are written for; a contract file is named <consumer>-<provider>.json */
+  consumer: string;
+  provider: string;
+}
+
+export interface MockApiConfig {
+  /** Start a mock API server per worker and point urls.api at it */
+  enabled: boolean;
+  /** Port of the first worker's server, later workers count up from it; 0 picks free ports */
+  port: number;
+  /** Module whose default export sets up the mock's routes, see utils/mock-api-server */
+  setup: string;
+  /** Seed of random latency and failures, so a flaky mock flakes the same way every run */
+  seed: number;
+}
+
+export interface GraphQLConfig {
+  /** GraphQL endpoint, relative to urls.api or absolute */
+  endpoint: string;
+  /** SDL file GraphQLClient responses are validated against, per responseValidation */
+  schema: string | undefined;
+}
+
+export type ApiAuthStrategyName = 'none' | 'bearer' | 'api-key' | 'oauth2' | 'session' | 'hmac';
+
+export type OAuth2Grant = 'client_credentials' | 'password';
+
+export interface OAuth2Config {
+  grant: OAuth2Grant;
+  tokenUrl: string | undefined;
+  clientId: string | undefined;
+  clientSecret: Secret | undefined;
+  scope: string | undefined;
+}
+
+export interface HmacConfig {
+  keyId: string | undefined;
+  secret: Secret | undefined;
+  algorithm: 'sha256' | 'sha512';
+}
+
+export interface ApiAuthConfig {
+  /** Strategy ApiClient requests authenticate with unless one picks another, see auth-strategies */
+  strategy: ApiAuthStrategyName;
+  /** Static token for 'bearer' */
+  token: Secret | undefined;
+  /** Where 'api-key' sends api.key: a header or a query parameter named apiKeyName */
+  apiKeyIn: 'header' | 'query';
+  apiKeyName: string;
+  /** Account for the OAuth2 password grant and the 'session' login at auth.loginEndpoint */
+  username: string | undefined;
+  password: Secret | undefined;
+  oauth2: OAuth2Config;
+  hmac: HmacConfig;
+}
+
+export interface ApiConfig {
+  key: Secret | undefined;
+  jwtSecret: Secret | undefined;
+  timeout: number;
+  /** OpenAPI 3 JSON document every ApiClient response is validated against */
+  openApiSpec: string | undefined;
+  /**
+   * What a response violating openApiSpec or graphql.schema does: nothing, log a warning, or
+   * fail the request
+   */
+  responseValidation: ResponseValidationMode;
+  /** Retries of idempotent ApiClient requests, see utils/retry-policy */
+  retry: RetryConfig;
+  auth: ApiAuthConfig;
+  /** Cassette recording and replay, see utils/vcr */
+  vcr: VcrConfig;
+  /** Consumer contracts captured from ApiClient calls, see utils/contracts */
+  contracts: ContractsConfig;
+  /** Local mock server for offline runs, see utils/mock-api-server */
+  mock: MockApiConfig;
+  graphql: GraphQLConfig;
+}
+
+export interface ReportingConfig {
+  allureResultsDir: string;
+  playwrightReportDir: string;
+  screenshotMode: ScreenshotMode;
+  videoMode: VideoMode;
+  traceMode: TraceMode;
+}
+
+export interface LoggingConfig {
+  level: LogLevel;
+  toFile: boolean;
+  toConsole: boolean;
+}
+
+export interface EmailConfig {
+  smtp: {
+    host: string | undefined;
+    port: number;
+    user: string | undefined;
+    password: Secret | undefined;
+  };
+}
+
+export interface NotificationConfig {
+  slack: {
+    webhookUrl: Secret | undefined;
+  };
+}
+
+export interface TestDataConfig {
+  useFaker: boolean;
+  dataPath: string;
+}
+
+export type FlagProviderName = 'file' | 'http';
+
+export interface FeatureFlagConfig {
+  provider: FlagProviderName;
+  /** Flag file for the 'file' provider, defaults to <config dir>/flags/<environment>.json */
+  file: string | undefined;
+  /** Endpoint fetched through ApiClient by the 'http' provider */
+  endpoint: string;
+}
+
+export type LoginMethod = 'api' | 'ui';
+
+export interface AuthConfig {
+  /** How roles log in before their storage state is cached */
+  loginMethod: LoginMethod;
+  /** Login endpoint on the web app, used by the 'api' method */
+  loginEndpoint: string;
+  /** Directory for cached storage state files */
+  stateDir: string;
+  /** Minutes a cached storage state is reused before logging in again */
+  stateTtlMinutes: number;
+}
+
+export type ProductionGuardMode = 'block' | 'dry-run';
+
+export interface SafetyConfig {
+  /** What happens to mutating calls and @destructive tests in production */
+  productionMode: ProductionGuardMode;
+  /** Lifts the production guard, together with confirmHost naming the active host */
+  allowMutations: boolean;
+  /** Host of the base URL the guard is lifted for, e.g. shop.example.com */
+  confirmHost: string | undefined;
+}
+
+export interface FrameworkConfig {
+  environment: Environment;
+  browser: BrowserConfig;
+  test: TestConfig;
+  urls: UrlConfig;
+  database: DatabaseConfig;
+  api: ApiConfig;
+  reporting: ReportingConfig;
+  logging: LoggingConfig;
+  email: EmailConfig;
+  notifications: NotificationConfig;
+  testData: TestDataConfig;
+  safety: SafetyConfig;
+  featureFlags: FeatureFlagConfig;
+  auth: AuthConfig;
+}
+
+/**
+ * Dot-separated paths into a config object, e.g. 'browser.viewport.width'
+ */
+export type PathsOf<T> = {
+  [K in keyof T & string]: NonNullable<T[K]> extends Secret | readonly unknown[]
+    ? K
+    : NonNullable<T[K]> extends object
+      ? K | `${K}.${PathsOf<NonNullable<T[K]>>}`
+      : K;
+}[keyof T & string];
+
+/**
+ * Type of the value found at a dot-separated path
+ */
+export type PathValue<T, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? Head extends keyof T
+    ? PathValue<NonNullable<T[Head]>, Rest>
+    : never
+  : P extends keyof T
+    ? T[P]
+    : never;
+
+export type ConfigPath = PathsOf<FrameworkConfig>;
+export type ConfigValue<P extends ConfigPath> = PathValue<FrameworkConfig, P>;
+
+/**
+ * Recursively optional shape used by configuration layers and overrides
+ */
+export type DeepPartial<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends Secret | readonly unknown[]
+    ? T[K]
+    : NonNullable<T[K]> extends object
+      ? DeepPartial<NonNullable<T[K]>>
+      : T[K];
+};
+
+/**
+ * Validation rule for a single leaf of the configuration
+ */
+export type FieldRule = {
+  /** Environment variable the value is normally read from */
+  env?: string;
+  /** Environment-specific variable that takes precedence over `env` in that environment */
+  envFor?: Partial<Record<Environment, string>>;
+  required?: boolean;
+} & (
+  | { type: 'integer'; min?: number; max?: number }
+  /** Comma-separated in environment variables, e.g. "502,503" */
+  | { type: 'integers'; min?: number; max?: number }
+  | { type: 'strings' }
+  | { type: 'boolean' }
+  | { type: 'string' }
+  | { type: 'url' }
+  | { type: 'enum'; values: readonly string[] }
+  /** Resolved through SecretManager and wrapped in a Secret so it is never logged */
+  | { type: 'secret' }
+);
+
+export const CONFIG_SCHEMA: Partial<Record<ConfigPath, FieldRule>> = {
+  environment: { type: 'enum', env: 'NODE_ENV', required: true, values: ENVIRONMENTS },
+  'browser.headless': { type: 'boolean', env: 'HEADLESS' },
+  'browser.slowMo': { type: 'integer', env: 'SLOW_MO', min: 0 },
+  'browser.timeout': { type: 'integer', env: 'BROWSER_TIMEOUT', required: true, min: 1 },
+  'browser.viewport.width': { type: 'integer', env: 'VIEWPORT_WIDTH', min: 1 },
+  'browser.viewport.height': { type: 'integer', env: 'VIEWPORT_HEIGHT', min: 1 },
+  'test.workers': { type: 'integer', env: 'WORKERS', min: 1 },
+  'test.retries': { type: 'integer', env: 'RETRIES', min: 0 },
+  'test.timeout': { type: 'integer', env: 'TEST_TIMEOUT', required: true, min: 1 },
+  'test.expectTimeout': { type: 'integer', env: 'EXPECT_TIMEOUT', min: 1 },
+  'test.chaos.enabled': { type: 'boolean', env: 'CHAOS' },
+  'test.chaos.seed': { type: 'integer', env: 'CHAOS_SEED', min: 0 },
+  'test.chaos.rules': { type: 'string', env: 'CHAOS_RULES' },
+  'test.har.mode': { type: 'enum', env: 'HAR_MODE', values: ['off', 'record', 'replay'] },
+  'test.har.dir': { type: 'string', env: 'HAR_DIR', required: true },
+  'test.har.urlFilter': { type: 'string', env: 'HAR_URL_FILTER' },
+  'test.har.matching': { type: 'enum', env: 'HAR_MATCHING', values: ['strict', 'lenient'] },
+  'urls.base': {
+    type: 'url',
+    env: 'BASE_URL',
+    envFor: { staging: 'STAGING_URL', production: 'PRODUCTION_URL' },
+    required: true
+  },
+  'urls.api': {
+    type: 'url',
+    env: 'API_BASE_URL',
+    envFor: { staging: 'STAGING_API_URL', production: 'PRODUCTION_API_URL' },
+    required: true
+  },
+  'urls.staging': { type: 'url', env: 'STAGING_URL' },
+  'urls.production': { type: 'url', env: 'PRODUCTION_URL' },
+  'database.driver': { type: 'enum', env: 'DB_DRIVER', values: ['postgres', 'sqlite'] },
+  'database.host': { type: 'string', env: 'DB_HOST' },
+  'database.port': { type: 'integer', env: 'DB_PORT', min: 1, max: 65535 },
+  'database.name': { type: 'string', env: 'DB_NAME' },
+  'database.user': { type: 'string', env: 'DB_USER' },
+  'database.password': { type: 'secret', env: 'DB_PASSWORD' },
+  'database.file': { type: 'string', env: 'DB_FILE' },
+  'database.seedDir': { type: 'string', env: 'DB_SEED_DIR', required: true },
+  'api.key': { type: 'secret', env: 'API_KEY' },
+  'api.jwtSecret': { type: 'secret', env: 'JWT_SECRET' },
+  'api.timeout': { type: 'integer', env: 'API_TIMEOUT', min: 1 },
+  'api.openApiSpec': { type: 'string', env: 'OPENAPI_SPEC' },
+  'api.responseValidation': {
+    type: 'enum',
+    env: 'API_RESPONSE_VALIDATION',
+    values: ['off', 'warn', 'fail']
+  },
+  'api.retry.maxAttempts': { type: 'integer', env: 'API_RETRY_ATTEMPTS', min: 1 },
+  'api.retry.baseDelayMs': { type: 'integer', env: 'API_RETRY_BASE_DELAY', min: 0 },
+  'api.retry.maxDelayMs': { type: 'integer', env: 'API_RETRY_MAX_DELAY', min: 0 },
+  'api.retry.maxRetryAfterMs': { type: 'integer', env: 'API_RETRY_MAX_RETRY_AFTER', min: 0 },
+  'api.retry.statusCodes': {
+    type: 'integers',
+    env: 'API_RETRY_STATUS_CODES',
+    min: 100,
+    max: 599
+  },
+  'api.retry.networkErrors': { type: 'boolean', env: 'API_RETRY_NETWORK_ERRORS' },
+  'api.auth.strategy': {
+    type: 'enum',
+    env: 'API_AUTH',
+    values: ['none', 'bearer', 'api-key', 'oauth2', 'session', 'hmac']
+  },
+  'api.auth.token': { type: 'secret', env: 'API_TOKEN' },
+  'api.auth.apiKeyIn': { type: 'enum', env: 'API_KEY_IN', values: ['header', 'query'] },
+  'api.auth.apiKeyName': { type: 'string', env: 'API_KEY_NAME' },
+  'api.auth.username': { type: 'string', env: 'API_USERNAME' },
+  'api.auth.password': { type: 'secret', env: 'API_PASSWORD' },
+  'api.auth.oauth2.grant': {
+    type: 'enum',
+    env: 'OAUTH2_GRANT',
+    values: ['client_credentials', 'password']
+  },
+  'api.auth.oauth2.tokenUrl': { type: 'url', env: 'OAUTH2_TOKEN_URL' },
+  'api.auth.oauth2.clientId': { type: 'string', env: 'OAUTH2_CLIENT_ID' },
+  'api.auth.oauth2.clientSecret': { type: 'secret', env: 'OAUTH2_CLIENT_SECRET' },
+  'api.auth.oauth2.scope': { type: 'string', env: 'OAUTH2_SCOPE' },
+  'api.auth.hmac.keyId': { type: 'string', env: 'HMAC_KEY_ID' },
+  'api.auth.hmac.secret': { type: 'secret', env: 'HMAC_SECRET' },
+  'api.auth.hmac.algorithm': { type: 'enum', env: 'HMAC_ALGORITHM', values: ['sha256', 'sha512'] },
+  'api.vcr.mode': { type: 'enum', env: 'API_VCR', values: ['passthrough', 'record', 'replay'] },
+  'api.vcr.cassetteDir': { type: 'string', env: 'API_VCR_DIR', required: true },
+  'api.vcr.matchQuery': { type: 'boolean', env: 'API_VCR_MATCH_QUERY' },
+  'api.vcr.matchBody': { type: 'boolean', env: 'API_VCR_MATCH_BODY' },
+  'api.vcr.matchHeaders': { type: 'strings', env: 'API_VCR_MATCH_HEADERS' },
+  'api.contracts.record': { type: 'boolean', env: 'API_CONTRACTS' },
+  'api.contracts.dir': { type: 'string', env: 'API_CONTRACT_DIR', required: true },
+  'api.contracts.consumer': { type: 'string', env: 'API_CONTRACT_CONSUMER', required: true },
+  'api.contracts.provider': { type: 'string', env: 'API_CONTRACT_PROVIDER', required: true },
+  'api.mock.enabled': { type: 'boolean', env: 'MOCK_API' },
+  'api.mock.port': { type: 'integer', env: 'MOCK_API_PORT', min: 0, max: 65535 },
+  'api.mock.setup': { type: 'string', env: 'MOCK_API_SETUP', required: true },
+  'api.mock.seed': { type: 'integer', env: 'MOCK_API_SEED' },
+  'api.graphql.endpoint': { type: 'string', env: 'GRAPHQL_ENDPOINT', required: true },
+  'api.graphql.schema': { type: 'string', env: 'GRAPHQL_SCHEMA' },
+  'reporting.allureResultsDir': { type: 'string', env: 'ALLURE_RESULTS_DIR', required: true },
+  'reporting.playwrightReportDir': { type: 'string', env: 'PLAYWRIGHT_REPORT_DIR', required: true },
+  'reporting.screenshotMode': {
+    type: 'enum',
+    env: 'SCREENSHOT_MODE',
+    values: ['off', 'on', 'only-on-failure']
+  },
+  'reporting.videoMode': {
+    type: 'enum',
+    env: 'VIDEO_MODE',
+    values: ['off', 'on', 'retain-on-failure', 'on-first-retry']
+  },
+  'reporting.traceMode': {
+    type: 'enum',
+    env: 'TRACE_MODE',
+    values: [
+      'off',
+      'on',
+      'retain-on-failure',
+      'on-first-retry',
+      'on-all-retries',
+      'retain-on-first-failure'
+    ]
+  },
+  'logging.level': {
+    type: 'enum',
+    env: 'LOG_LEVEL',
+    values: ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly']
+  },
+  'logging.toFile': { type: 'boolean', env: 'LOG_TO_FILE' },
+  'logging.toConsole': { type: 'boolean', env: 'LOG_TO_CONSOLE' },
+  'email.smtp.host': { type: 'string', env: 'SMTP_HOST' },
+  'email.smtp.port': { type: 'integer', env: 'SMTP_PORT', min: 1, max: 65535 },
+  'email.smtp.user': { type: 'string', env: 'SMTP_USER' },
+  'email.smtp.password': { type: 'secret', env: 'SMTP_PASSWORD' },
+  'notifications.slack.webhookUrl': { type: 'secret', env: 'SLACK_WEBHOOK_URL' },
+  'testData.useFaker': { type: 'boolean', env: 'USE_FAKER_DATA' },
+  'testData.dataPath': { type: 'string', env: 'TEST_DATA_PATH', required: true },
+  'safety.productionMode': {
+    type: 'enum',
+    env: 'PRODUCTION_GUARD_MODE',
+    values: ['block', 'dry-run']
+  },
+  'safety.allowMutations': { type: 'boolean', env: 'PRODUCTION_ALLOW_MUTATIONS' },
+  'safety.confirmHost': { type: 'string', env: 'PRODUCTION_CONFIRM_HOST' },
+  'featureFlags.provider': { type: 'enum', env: 'FLAG_PROVIDER', values: ['file', 'http'] },
+  'featureFlags.file': { type: 'string', env: 'FLAGS_FILE' },
+  'featureFlags.endpoint': { type: 'string', env: 'FLAGS_ENDPOINT', required: true },
+  'auth.loginMethod': { type: 'enum', env: 'AUTH_LOGIN_METHOD', values: ['api', 'ui'] },
+  'auth.loginEndpoint': { type: 'string', env: 'AUTH_LOGIN_ENDPOINT', required: true },
+  'auth.stateDir': { type: 'string', env: 'AUTH_STATE_DIR', required: true },
+  'auth.stateTtlMinutes': { type: 'integer', env: 'AUTH_STATE_TTL_MINUTES', min: 0 }
+};
+
+/**
+ * A single problem found while validating the configuration
+ */
+export interface ConfigIssue {
+  path: string;
+  /** Environment variable the offending value came from, if any */
+  envVar?: string;
+  /** Config file the offending value came from, if any */
+  file?: string;
+  message: string;
+}
+
+/**
+ * Where a resolved value came from, as far as validation messages are concerned
+ */
+export interface IssueOrigin {
+  envVar?: string;
+  file?: string;
+}
+
+/**
+ * Raised when the configuration does not satisfy CONFIG_SCHEMA
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid configuration:\n${issues.map(issue => `  - ${formatConfigIssue(issue)}`).join('\n')}`
+    );
+    this.name = 'ConfigValidationError';
+  }
+}
+
+export function formatConfigIssue(issue: ConfigIssue): string {
+  const from = issue.envVar ?? issue.file;
+  const origin = from ? ` (from ${from})` : '';
+  return `${issue.path}${origin}: ${issue.message}`;
+}
+
+/**
+ * Read a dot-separated path from an object
+ */
+export function getPath(obj: unknown, key: string): unknown {
+  return key
+    .split('.')
+    .reduce<unknown>((o, part) => (o as Record<string, unknown> | undefined)?.[part], obj);
+}
+
+/**
+ * Environment variables that may supply a path, most specific first
+ */
+export function envVarsFor(rule: FieldRule, environment: Environment): string[] {
+  const specific = rule.envFor?.[environment];
+  return [specific, rule.env].filter((name): name is string => name !== undefined);
+}
+
+/**
+ * Convert a raw environment string to the rule's type.
+ * Values that cannot be converted are returned unchanged so validation reports them.
+ */
+export function coerceEnvValue(rule: FieldRule, raw: string): unknown {
+  const trimmed = raw.trim();
+  switch (rule.type) {
+    case 'integer':
+      return /^-?\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : raw;
+    case 'integers': {
+      const items = trimmed === '' ? [] : trimmed.split(',').map(item => item.trim());
+      return items.every(item => /^-?\d+$/.test(item)) ? items.map(Number) : raw;
+    }
+    case 'strings':
+      return trimmed === '' ? [] : trimmed.split(',').map(item => item.trim());
+    case 'boolean':
+      return /^(true|false)$/i.test(trimmed) ? trimmed.toLowerCase() === 'true' : raw;
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Validate a resolved configuration against CONFIG_SCHEMA and report every violation.
+ *
+ * `originOf` tells which environment variable or file supplied a path so that
+ * messages point at the setting the user actually has to fix.
+ */
+export function validateAgainstSchema(
+  config: FrameworkConfig,
+  originOf: (path: ConfigPath) => IssueOrigin | undefined = () => undefined
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  for (const [path, rule] of Object.entries(CONFIG_SCHEMA) as [ConfigPath, FieldRule][]) {
+    const value = getPath(config, path);
+    const origin = originOf(path) ?? {};
+    const report = (message: string) => issues.push({ path, ...origin, message });
+
+    if (value === undefined || value === null || value === '') {
+      if (rule.required) {
+        const envVar = envVarsFor(rule, config.environment)[0];
+        issues.push(
+          envVar ? { path, envVar, message: 'is required' } : { path, message: 'is required' }
+        );
+      }
+      continue;
+    }
+
+    const shown = JSON.stringify(value);
+
+    switch (rule.type) {
+      case 'integer':
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+          report(`expected an integer but got ${shown}`);
+        } else if (rule.min !== undefined && value < rule.min) {
+          report(`must be >= ${rule.min} but got ${value}`);
+        } else if (rule.max !== undefined && value > rule.max) {
+          report(`must be <= ${rule.max} but got ${value}`);
+        }
+        break;
+      case 'integers': {
+        if (!Array.isArray(value)) {
+          report(`expected a list of integers but got ${shown}`);
+          break;
+        }
+        const invalid = (value as unknown[]).find(
+          item =>
+            typeof item !== 'number' ||
+            !Number.isInteger(item) ||
+            (rule.min !== undefined && item < rule.min) ||
+            (rule.max !== undefined && item > rule.max)
+        );
+        if (invalid !== undefined) {
+          const range = `${rule.min ?? '-∞'}..${rule.max ?? '∞'}`;
+          report(`expected integers in ${range} but got ${JSON.stringify(invalid)}`);
+        }
+        break;
+      }
+      case 'strings':
+        if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+          report(`expected a list of strings but got ${shown}`);
+        }
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          report(`expected "true" or "false" but got ${shown}`);
+        }
+        break;
+      case 'string':
+        if (typeof value !== 'string') {
+          report(`expected a string but got ${shown}`);
+        }
+        break;
+      case 'url':
+        if (typeof value !== 'string' || !isHttpUrl(value)) {
+          report(`expected an absolute http(s) URL but got ${shown}`);
+        }
+        break;
+      case 'enum':
+        if (typeof value !== 'string' || !rule.values.includes(value)) {
+          report(`expected one of ${rule.values.join(', ')} but got ${shown}`);
+        }
+        break;
+      case 'secret':
+        if (!(value instanceof Secret)) {
+          report('expected a secret value');
+        }
+        break;
+    }
+  }
+
+  return issues;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,182 @@
+import { CONFIG_SCHEMA, ConfigPath } from './config-schema';
+import { REDACTED, Secret, SecretManager } from './secrets';
+import { ResolvedConfig, flattenLeaves } from './config-loader';
+import fs from 'fs';
+import path from 'path';
+
+export const SNAPSHOT_FILE = 'config-snapshot.json';
+
+/**
+ * Normalized, secret-redacted record of the configuration a run used
+ */
+export interface ConfigSnapshot {
+  createdAt: string;
+  environment: string;
+  target: string | null;
+  /** Resolved configuration with sorted keys, undefined stored as null */
+  config: Record<string, unknown>;
+  /** Layer and origin that supplied each leaf path */
+  sources: Record<string, string>;
+}
+
+export type SnapshotCategory = 'timeouts' | 'urls' | 'workers' | 'browser' | 'other';
+
+export interface SnapshotChange {
+  path: string;
+  category: SnapshotCategory;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Categories called out first when diffing runs, most common culprits of flaky nightlies
+ */
+export const HIGHLIGHTED_CATEGORIES: SnapshotCategory[] = ['timeouts', 'urls', 'workers', 'browser'];
+
+function normalize(value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Copy of a configuration with Secrets and the paths the schema declares secret masked, and
+ * known secret values masked inside other strings. Settings are never masked for their name
+ * alone, so a changed api.auth.oauth2.tokenUrl shows up in a diff.
+ */
+function maskSecrets(value: unknown, leaf = ''): unknown {
+  const secretPath = CONFIG_SCHEMA[leaf as ConfigPath]?.type === 'secret';
+  if (value instanceof Secret || (secretPath && value !== undefined && value !== null)) {
+    return REDACTED;
+  }
+  if (typeof value === 'string') {
+    return SecretManager.redactText(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => maskSecrets(item, leaf));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        maskSecrets(item, leaf ? `${leaf}.${key}` : key)
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Build a snapshot of a resolved configuration
+ */
+export function createSnapshot(resolved: ResolvedConfig, target: string | undefined): ConfigSnapshot {
+  const sources: Record<string, string> = {};
+  for (const [leaf] of flattenLeaves(resolved.config)) {
+    const winner = resolved.provenance.get(leaf)?.slice(-1)[0];
+    if (winner) {
+      sources[leaf] = `${winner.layer} (${winner.envVar ?? winner.origin})`;
+    }
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    environment: resolved.config.environment,
+    target: target ?? null,
+    config: normalize(maskSecrets(resolved.config)) as Record<string, unknown>,
+    sources: normalize(sources) as Record<string, string>
+  };
+}
+
+export function writeSnapshot(snapshot: ConfigSnapshot, dir: string): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, SNAPSHOT_FILE);
+  fs.writeFileSync(filePath, JSON.stringify(snapshot, null, 2));
+  return filePath;
+}
+
+/**
+ * Read a snapshot from a file or from a directory containing config-snapshot.json
+ */
+export function readSnapshot(location: string): ConfigSnapshot {
+  const isDirectory = fs.existsSync(location) && fs.statSync(location).isDirectory();
+  const filePath = isDirectory ? path.join(location, SNAPSHOT_FILE) : location;
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No configuration snapshot found at ${filePath}`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+export function categorize(leaf: string): SnapshotCategory {
+  if (/timeout/i.test(leaf)) {
+    return 'timeouts';
+  }
+  if (leaf.startsWith('urls.')) {
+    return 'urls';
+  }
+  if (leaf === 'test.workers') {
+    return 'workers';
+  }
+  return leaf.startsWith('browser.') ? 'browser' : 'other';
+}
+
+/**
+ * Every leaf whose value differs between two snapshots, highlighted categories first
+ */
+export function diffSnapshots(before: ConfigSnapshot, after: ConfigSnapshot): SnapshotChange[] {
+  const beforeLeaves = new Map(flattenLeaves(before.config));
+  const afterLeaves = new Map(flattenLeaves(after.config));
+  const paths = [...new Set([...beforeLeaves.keys(), ...afterLeaves.keys()])].sort();
+  const rank = (category: SnapshotCategory) =>
+    category === 'other' ? HIGHLIGHTED_CATEGORIES.length : HIGHLIGHTED_CATEGORIES.indexOf(category);
+
+  const changes: SnapshotChange[] =
+    before.target === after.target
+      ? []
+      : [{ path: 'target', category: 'other', before: before.target, after: after.target }];
+
+  for (const leaf of paths) {
+    const previous = beforeLeaves.get(leaf) ?? null;
+    const current = afterLeaves.get(leaf) ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(current)) {
+      changes.push({ path: leaf, category: categorize(leaf), before: previous, after: current });
+    }
+  }
+
+  return changes.sort((a, b) => rank(a.category) - rank(b.category));
+}
+
+/**
+ * Human readable diff report; highlighted categories are marked with `!`
+ */
+export function formatSnapshotDiff(
+  changes: SnapshotChange[],
+  labels: { before: string; after: string }
+): string {
+  if (changes.length === 0) {
+    return `No configuration changes between ${labels.before} and ${labels.after}`;
+  }
+
+  const lines = [`Configuration changes from ${labels.before} to ${labels.after}:`];
+  let category: SnapshotCategory | undefined;
+  for (const change of changes) {
+    if (change.category !== category) {
+      category = change.category;
+      lines.push('', `${HIGHLIGHTED_CATEGORIES.includes(category) ? '! ' : '  '}${category}`);
+    }
+    lines.push(
+      `    ${change.path}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`
+    );
+  }
+  return lines.join('\n');
+}
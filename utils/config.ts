@@ -1,15 +1,229 @@
+import {
+  ApiConfig,
+  AuthConfig,
+  BrowserConfig,
+  ConfigIssue,
+  ConfigPath,
+  ConfigValue,
+  DatabaseConfig,
+  DeepPartial,
+  EmailConfig,
+  Environment,
+  FeatureFlagConfig,
+  FrameworkConfig,
+  IssueOrigin,
+  LoggingConfig,
+  NotificationConfig,
+  ReportingConfig,
+  SafetyConfig,
+  TestConfig,
+  TestDataConfig,
+  UrlConfig,
+  formatConfigIssue,
+  getPath,
+  validateAgainstSchema
+} from './config-schema';
+import {
+  ConfigExplanation,
+  ResolvedConfig,
+  deepMerge,
+  envLayer,
+  explainPath,
+  fileLayer,
+  parseOverrideList,
+  processOnlyVars,
+  readDotenvFile,
+  resolveLayers,
+  resolveSecrets,
+  setPath
+} from './config-loader';
+import { ConfigSnapshot, createSnapshot, writeSnapshot } from './config-snapshot';
+import {
+  DEFAULT_TARGETS_FILE,
+  TargetProfile,
+  loadTargetProfiles,
+  targetLayer,
+  validateTargetProfile
+} from './target-profiles';
 import dotenv from 'dotenv';
 import { logger } from './logger';
+import path from 'path';
 
 // Load environment variables
 dotenv.config();
 
 /**
- * Configuration management for different environments
+ * Built-in defaults, the lowest configuration layer
+ */
+const DEFAULT_CONFIG: FrameworkConfig = {
+  environment: 'development',
+  browser: {
+    headless: false,
+    slowMo: 0,
+    timeout: 60000,
+    viewport: {
+      width: 1920,
+      height: 1080
+    }
+  },
+  test: {
+    workers: 4,
+    retries: 2,
+    timeout: 60000,
+    expectTimeout: 10000,
+    chaos: {
+      enabled: false,
+      seed: undefined,
+      rules: undefined
+    },
+    har: {
+      mode: 'off',
+      dir: 'tests/hars',
+      urlFilter: undefined,
+      matching: 'strict'
+    }
+  },
+  urls: {
+    base: 'https://example.com',
+    api: 'https://api.example.com',
+    staging: undefined,
+    production: undefined
+  },
+  database: {
+    driver: undefined,
+    host: undefined,
+    port: 5432,
+    name: undefined,
+    user: undefined,
+    password: undefined,
+    file: undefined,
+    seedDir: 'data/seeds'
+  },
+  api: {
+    key: undefined,
+    jwtSecret: undefined,
+    timeout: 30000,
+    openApiSpec: undefined,
+    responseValidation: 'fail',
+    retry: {
+      maxAttempts: 3,
+      baseDelayMs: 200,
+      maxDelayMs: 5000,
+      maxRetryAfterMs: 60000,
+      statusCodes: [408, 429, 500, 502, 503, 504],
+      networkErrors: true
+    },
+    auth: {
+      strategy: 'none',
+      token: undefined,
+      apiKeyIn: 'header',
+      apiKeyName: 'X-API-Key',
+      username: undefined,
+      password: undefined,
+      oauth2: {
+        grant: 'client_credentials',
+        tokenUrl: undefined,
+        clientId: undefined,
+        clientSecret: undefined,
+        scope: undefined
+      },
+      hmac: {
+        keyId: undefined,
+        secret: undefined,
+        algorithm: 'sha256'
+      }
+    },
+    vcr: {
+      mode: 'passthrough',
+      cassetteDir: 'tests/cassettes',
+      matchQuery: true,
+      matchBody: true,
+      matchHeaders: []
+    },
+    contracts: {
+      record: false,
+      dir: 'contracts',
+      consumer: 'playwright-tests',
+      provider: 'api-server'
+    },
+    mock: {
+      enabled: false,
+      port: 0,
+      setup: 'mocks/sample-api.mock.ts',
+      seed: 1
+    },
+    graphql: {
+      endpoint: '/graphql',
+      schema: undefined
+    }
+  },
+  reporting: {
+    allureResultsDir: 'allure-results',
+    playwrightReportDir: 'playwright-report',
+    screenshotMode: 'only-on-failure',
+    videoMode: 'retain-on-failure',
+    traceMode: 'on-first-retry'
+  },
+  logging: {
+    level: 'info',
+    toFile: false,
+    toConsole: true
+  },
+  email: {
+    smtp: {
+      host: undefined,
+      port: 587,
+      user: undefined,
+      password: undefined
+    }
+  },
+  notifications: {
+    slack: {
+      webhookUrl: undefined
+    }
+  },
+  testData: {
+    useFaker: false,
+    dataPath: './data/testdata.json'
+  },
+  safety: {
+    productionMode: 'block',
+    allowMutations: false,
+    confirmHost: undefined
+  },
+  featureFlags: {
+    provider: 'file',
+    file: undefined,
+    endpoint: '/flags'
+  },
+  auth: {
+    loginMethod: 'api',
+    loginEndpoint: '/api/login',
+    stateDir: '.auth',
+    stateTtlMinutes: 60
+  }
+};
+
+/**
+ * Configuration management for different environments.
+ *
+ * Values are resolved from layers, each deep-merged over the previous one:
+ * built-in defaults -> config/<environment>.json -> .env -> process env ->
+ * target profile (TARGET) -> CONFIG_OVERRIDES / programmatic overrides.
+ * Credentials no layer supplies are resolved through SecretManager and every
+ * credential is held as a Secret. Use explain() to see which layer won.
  */
 export class Config {
   private static instance: Config;
-  private config: any;
+  private config: FrameworkConfig;
+  private resolved!: ResolvedConfig;
+  private overrides: DeepPartial<FrameworkConfig> = {};
+  private issues: ConfigIssue[] = [];
+  private configDir = process.env.CONFIG_DIR || path.join(process.cwd(), 'config');
+  private targetsFile = process.env.TARGETS_FILE || DEFAULT_TARGETS_FILE;
+  private targets = loadTargetProfiles(this.targetsFile);
+  private selectedTarget: string | undefined;
+  private target: TargetProfile | undefined;
 
   private constructor() {
     this.config = this.loadConfig();
@@ -22,165 +236,181 @@ export class Config {
     return Config.instance;
   }
 
-  private loadConfig(): any {
-    const env = process.env.NODE_ENV || 'development';
-    
-    const baseConfig = {
-      environment: env,
-      browser: {
-        headless: process.env.HEADLESS === 'true',
-        slowMo: parseInt(process.env.SLOW_MO || '0'),
-        timeout: parseInt(process.env.BROWSER_TIMEOUT || '60000'),
-        viewport: {
-          width: parseInt(process.env.VIEWPORT_WIDTH || '1920'),
-          height: parseInt(process.env.VIEWPORT_HEIGHT || '1080')
-        }
-      },
-      test: {
-        workers: parseInt(process.env.WORKERS || '4'),
-        retries: parseInt(process.env.RETRIES || '2'),
-        timeout: parseInt(process.env.TEST_TIMEOUT || '60000'),
-        expectTimeout: parseInt(process.env.EXPECT_TIMEOUT || '10000')
-      },
-      urls: {
-        base: process.env.BASE_URL || 'https://example.com',
-        api: process.env.API_BASE_URL || 'https://api.example.com',
-        staging: process.env.STAGING_URL,
-        production: process.env.PRODUCTION_URL
-      },
-      database: {
-        host: process.env.DB_HOST,
-        port: parseInt(process.env.DB_PORT || '5432'),
-        name: process.env.DB_NAME,
-        user: process.env.DB_USER,
-        password: process.env.DB_PASSWORD
-      },
-      api: {
-        key: process.env.API_KEY,
-        jwtSecret: process.env.JWT_SECRET,
-        timeout: parseInt(process.env.API_TIMEOUT || '30000')
-      },
-      reporting: {
-        allureResultsDir: process.env.ALLURE_RESULTS_DIR || 'allure-results',
-        playwrightReportDir: process.env.PLAYWRIGHT_REPORT_DIR || 'playwright-report',
-        screenshotMode: process.env.SCREENSHOT_MODE || 'only-on-failure',
-        videoMode: process.env.VIDEO_MODE || 'retain-on-failure',
-        traceMode: process.env.TRACE_MODE || 'on-first-retry'
-      },
-      logging: {
-        level: process.env.LOG_LEVEL || 'info',
-        toFile: process.env.LOG_TO_FILE === 'true',
-        toConsole: process.env.LOG_TO_CONSOLE !== 'false'
-      },
-      email: {
-        smtp: {
-          host: process.env.SMTP_HOST,
-          port: parseInt(process.env.SMTP_PORT || '587'),
-          user: process.env.SMTP_USER,
-          password: process.env.SMTP_PASSWORD
-        }
-      },
-      notifications: {
-        slack: {
-          webhookUrl: process.env.SLACK_WEBHOOK_URL
-        }
-      },
-      testData: {
-        useFaker: process.env.USE_FAKER_DATA === 'true',
-        dataPath: process.env.TEST_DATA_PATH || './data/testdata.json'
-      }
-    };
-
-    // Environment-specific overrides
-    const envConfigs = {
-      development: {
-        urls: {
-          base: 'http://localhost:3000',
-          api: 'http://localhost:3001'
-        },
-        browser: {
-          headless: false,
-          slowMo: 100
-        }
-      },
-      staging: {
-        urls: {
-          base: process.env.STAGING_URL || 'https://staging.example.com',
-          api: process.env.STAGING_API_URL || 'https://staging-api.example.com'
-        }
-      },
-      production: {
-        urls: {
-          base: process.env.PRODUCTION_URL || 'https://example.com',
-          api: process.env.PRODUCTION_API_URL || 'https://api.example.com'
-        },
-        browser: {
-          headless: true,
-          slowMo: 0
-        },
-        test: {
-          retries: 3
-        }
-      }
-    };
+  private loadConfig(): FrameworkConfig {
+    const dotenvVars = readDotenvFile(path.join(process.cwd(), '.env'));
+    const processVars = processOnlyVars(process.env, dotenvVars);
+    const cliOverrides = parseOverrideList(process.env.CONFIG_OVERRIDES || '');
+    const targetIssues = this.selectTarget();
+    const env = (this.overrides.environment ||
+      cliOverrides.environment ||
+      this.target?.environment ||
+      process.env.NODE_ENV ||
+      DEFAULT_CONFIG.environment) as Environment;
+    const targetsOrigin = path.relative(process.cwd(), this.targetsFile);
+
+    this.resolved = resolveLayers(DEFAULT_CONFIG, [
+      fileLayer(path.join(this.configDir, `${env}.json`)),
+      envLayer('dotenv', '.env', dotenvVars, env),
+      envLayer('process-env', 'process.env', processVars, env),
+      ...(this.target ? [targetLayer(this.target, targetsOrigin)] : []),
+      { name: 'overrides', origin: 'CONFIG_OVERRIDES', values: cliOverrides },
+      { name: 'overrides', origin: 'programmatic', values: this.overrides }
+    ]);
+    const secretIssues = resolveSecrets(this.resolved, env);
+    const config = this.resolved.config;
+
+    this.issues = [
+      ...targetIssues,
+      ...secretIssues,
+      ...this.resolved.unknownKeys.map(({ path: key, origin }) => ({
+        path: key,
+        file: origin,
+        message: 'is not a known configuration key'
+      })),
+      ...this.fallBackToDefaults(
+        config,
+        validateAgainstSchema(config, key => this.issueOrigin(key))
+      )
+    ];
+    this.reportIssues();
 
-    // Merge environment-specific config
-    const envSpecificConfig = envConfigs[env as keyof typeof envConfigs];
-    const config = { ...baseConfig, ...envSpecificConfig };
-    
     logger.environment(config);
     return config;
   }
 
-  get(key: string): any {
-    return this.getNestedProperty(this.config, key);
+  /**
+   * Apply programmatic overrides (highest precedence) and re-resolve the configuration
+   */
+  override(values: DeepPartial<FrameworkConfig>): void {
+    this.overrides = deepMerge(this.overrides, values);
+    this.config = this.loadConfig();
+  }
+
+  /**
+   * Switch to a named target profile (undefined falls back to TARGET) and re-resolve
+   */
+  useTarget(name: string | undefined): void {
+    this.selectedTarget = name;
+    this.config = this.loadConfig();
+  }
+
+  /**
+   * Active target profile, if one is selected
+   */
+  getTarget(): TargetProfile | undefined {
+    return this.target;
+  }
+
+  /**
+   * Look up a declared target profile by name
+   */
+  getTargetProfile(name: string): TargetProfile | undefined {
+    return this.targets.get(name);
+  }
+
+  getTargetNames(): string[] {
+    return [...this.targets.keys()];
   }
 
-  getAll(): any {
+  /**
+   * Credentials file (inside data/) for the active target
+   */
+  getCredentialsFile(): string {
+    return this.target?.credentialsFile || 'test-credentials.json';
+  }
+
+  /**
+   * Directory holding the per-environment config files
+   */
+  getConfigDir(): string {
+    return this.configDir;
+  }
+
+  /**
+   * Describe which layer supplied each value at or below `key`
+   */
+  explain(key: ConfigPath): ConfigExplanation[] {
+    return explainPath(this.resolved, key);
+  }
+
+  /**
+   * Normalized, secret-redacted record of the active configuration
+   */
+  snapshot(): ConfigSnapshot {
+    return createSnapshot(this.resolved, this.target?.name);
+  }
+
+  /**
+   * Write snapshot() to `dir`/config-snapshot.json, returning the file path
+   */
+  writeSnapshot(dir: string = path.join(process.cwd(), 'test-results')): string {
+    return writeSnapshot(this.snapshot(), dir);
+  }
+
+  /**
+   * Get a value by dot-separated path, e.g. config.get('browser.viewport.width')
+   */
+  get<K extends ConfigPath>(key: K): ConfigValue<K> {
+    return getPath(this.config, key) as ConfigValue<K>;
+  }
+
+  getAll(): FrameworkConfig {
     return this.config;
   }
 
-  getBrowserConfig(): any {
+  getBrowserConfig(): BrowserConfig {
     return this.config.browser;
   }
 
-  getTestConfig(): any {
+  getTestConfig(): TestConfig {
     return this.config.test;
   }
 
-  getUrls(): any {
+  getUrls(): UrlConfig {
     return this.config.urls;
   }
 
-  getApiConfig(): any {
+  getApiConfig(): ApiConfig {
     return this.config.api;
   }
 
-  getDatabaseConfig(): any {
+  getDatabaseConfig(): DatabaseConfig {
     return this.config.database;
   }
 
-  getReportingConfig(): any {
+  getReportingConfig(): ReportingConfig {
     return this.config.reporting;
   }
 
-  getLoggingConfig(): any {
+  getLoggingConfig(): LoggingConfig {
     return this.config.logging;
   }
 
-  getEmailConfig(): any {
+  getEmailConfig(): EmailConfig {
     return this.config.email;
   }
 
-  getNotificationConfig(): any {
+  getNotificationConfig(): NotificationConfig {
     return this.config.notifications;
   }
 
-  getTestDataConfig(): any {
+  getTestDataConfig(): TestDataConfig {
     return this.config.testData;
   }
 
-  getEnvironment(): string {
+  getSafetyConfig(): SafetyConfig {
+    return this.config.safety;
+  }
+
+  getFeatureFlagConfig(): FeatureFlagConfig {
+    return this.config.featureFlags;
+  }
+
+  getAuthConfig(): AuthConfig {
+    return this.config.auth;
+  }
+
+  getEnvironment(): Environment {
     return this.config.environment;
   }
 
@@ -196,30 +426,82 @@ export class Config {
     return this.config.environment === 'development';
   }
 
-  private getNestedProperty(obj: any, key: string): any {
-    return key.split('.').reduce((o, i) => o?.[i], obj);
+  /**
+   * Get every schema violation found when the configuration was loaded
+   */
+  getValidationIssues(): ConfigIssue[] {
+    return [...this.issues];
   }
 
   /**
-   * Validate required configuration
+   * Validate configuration against the schema, logging every violation
    */
   validateConfig(): boolean {
-    const required = [
-      'urls.base',
-      'browser.timeout',
-      'test.timeout'
-    ];
-
-    const missing = required.filter(key => !this.get(key));
-    
-    if (missing.length > 0) {
-      logger.error('Missing required configuration:', { missing });
+    if (this.issues.length > 0) {
+      logger.error('Invalid configuration:', {
+        issues: this.issues.map(issue => formatConfigIssue(issue))
+      });
       return false;
     }
 
     logger.info('Configuration validation passed');
     return true;
   }
+
+  private selectTarget(): ConfigIssue[] {
+    const name = this.selectedTarget || process.env.TARGET || undefined;
+    this.target = name ? this.targets.get(name) : undefined;
+
+    if (name && !this.target) {
+      const declared = this.getTargetNames().join(', ') || 'none';
+      const message = `unknown target "${name}" (declared: ${declared})`;
+      return [
+        this.selectedTarget
+          ? { path: 'target', message }
+          : { path: 'target', envVar: 'TARGET', message }
+      ];
+    }
+
+    const file = path.relative(process.cwd(), this.targetsFile);
+    return this.target
+      ? validateTargetProfile(this.target).map(message => ({ path: `targets.${name}`, file, message }))
+      : [];
+  }
+
+  private issueOrigin(key: ConfigPath): IssueOrigin | undefined {
+    const winner = this.resolved.provenance.get(key)?.slice(-1)[0];
+    if (!winner || winner.layer === 'defaults') {
+      return undefined;
+    }
+    return winner.envVar ? { envVar: winner.envVar } : { file: winner.origin };
+  }
+
+  /**
+   * Replace values that violate the schema with their defaults, so the typed configuration
+   * never holds e.g. workers "abc"; the issues still fail validateConfig()
+   */
+  private fallBackToDefaults(config: FrameworkConfig, issues: ConfigIssue[]): ConfigIssue[] {
+    return issues.map(issue => {
+      const value = getPath(config, issue.path);
+      if (value === undefined || value === null || value === '') {
+        return issue;
+      }
+      const fallback = getPath(DEFAULT_CONFIG, issue.path);
+      setPath(config as unknown as Record<string, unknown>, issue.path, fallback);
+      // explain() then shows the default as the winner and the rejected value as overridden
+      const history = this.resolved.provenance.get(issue.path) ?? [];
+      history.push({ layer: 'fallback', origin: 'built-in', value: fallback });
+      this.resolved.provenance.set(issue.path, history);
+      const used = fallback === undefined ? 'leaving it unset' : `using ${JSON.stringify(fallback)}`;
+      return { ...issue, message: `${issue.message}; ${used}` };
+    });
+  }
+
+  private reportIssues(): void {
+    for (const issue of this.issues) {
+      logger.warn(`Configuration issue: ${formatConfigIssue(issue)}`);
+    }
+  }
 }
 
 // Export singleton instance
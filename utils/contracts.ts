@@ -0,0 +1,499 @@
+import { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { RecordedRequest, describeRequest, parseBody } from './vcr';
+import { escapePointer, typeOf } from './json-schema';
+import { ApiClient } from './api-client';
+import { ContractsConfig } from './config-schema';
+import { SecretManager } from './secrets';
+import axios from 'axios';
+import { config } from './config';
+import fs from 'fs';
+import { logger } from './logger';
+import path from 'path';
+
+/**
+ * Server-side precondition an interaction was recorded under, e.g. "a user exists" with
+ * { id: 1 }; the provider sets it up before the interaction is replayed
+ */
+export interface ProviderState {
+  name: string;
+  params?: Record<string, unknown>;
+}
+
+export interface ContractResponse {
+  status: number;
+  /** Only Content-Type */
+  headers: Record<string, string>;
+  /** Example body; the provider's must have the same shape, not the same values */
+  body?: unknown;
+  /** JSON pointers into the body the provider may leave out; `*` stands for any array index */
+  optional?: string[];
+}
+
+export interface ContractInteraction {
+  description: string;
+  /** Consumer test that made the request, e.g. api/api.spec.ts › User API › should get user */
+  test: string;
+  providerStates?: ProviderState[];
+  request: RecordedRequest;
+  response: ContractResponse;
+}
+
+export interface ContractFile {
+  consumer: { name: string };
+  provider: { name: string };
+  interactions: ContractInteraction[];
+  metadata: { pactSpecification: { version: string }; updatedAt: string };
+}
+
+/**
+ * Sets up `params` of its state on the provider; may return a function undoing it
+ */
+export type ProviderStateHandler = (
+  params: Record<string, unknown>,
+  client: ApiClient
+) => Promise<void | (() => Promise<void>)>;
+
+export type ProviderStateHandlers = Record<string, ProviderStateHandler>;
+
+export interface ContractMismatch {
+  /** JSON pointer into the response body, or status, header or state */
+  path: string;
+  message: string;
+}
+
+export interface InteractionVerification {
+  description: string;
+  test: string;
+  providerStates: ProviderState[];
+  passed: boolean;
+  mismatches: ContractMismatch[];
+}
+
+export interface ContractVerification {
+  file: string;
+  consumer: string;
+  provider: string;
+  providerUrl: string;
+  verifiedAt: string;
+  passed: boolean;
+  interactions: InteractionVerification[];
+}
+
+const LOCK_TIMEOUT_MS = 10000;
+const LOCK_RETRY_MS = 25;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Pid written into a lock file by the process holding it; undefined until it is written
+ */
+function lockOwner(lock: string): number | undefined {
+  try {
+    const pid = Number(fs.readFileSync(lock, 'utf-8'));
+    return Number.isInteger(pid) && pid > 0 ? pid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Run `update` while holding `<file>.lock`, so workers saving at once do not lose each
+ * other's interactions. A lock is only taken over when the process that holds it is gone.
+ */
+async function withFileLock(file: string, update: () => void): Promise<void> {
+  const lock = `${file}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  for (;;) {
+    try {
+      fs.writeFileSync(lock, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+    const owner = lockOwner(lock);
+    if (owner !== undefined && !isRunning(owner)) {
+      // Read again right before removing it, so a lock another waiter took over just now stays
+      if (lockOwner(lock) === owner) {
+        logger.warn(`Removing ${lock} left behind by process ${owner}`);
+        fs.rmSync(lock, { force: true });
+      }
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(
+        `Timed out after ${LOCK_TIMEOUT_MS}ms waiting for ${lock}, held by process ` +
+          `${owner ?? '(unknown)'}`
+      );
+    }
+    await delay(LOCK_RETRY_MS);
+  }
+  try {
+    update();
+  } finally {
+    fs.rmSync(lock, { force: true });
+  }
+}
+
+function mediaType(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.split(';')[0]?.trim().toLowerCase() : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === 'object';
+}
+
+/**
+ * Shape every item of a recorded array has: the first item, limited to the keys all
+ * recorded objects share
+ */
+function itemTemplate(items: unknown[]): unknown {
+  const [first] = items;
+  if (!isObject(first) || !items.every(isObject)) {
+    return first;
+  }
+  return Object.fromEntries(
+    Object.entries(first).filter(([key]) => items.every(item => Object.hasOwn(item as object, key)))
+  );
+}
+
+/**
+ * Whether `pointer` is one of the `optional` pointers, whose `*` segments match any index
+ */
+function isOptional(pointer: string, optional: readonly string[]): boolean {
+  const segments = pointer.split('/');
+  return optional.some(pattern => {
+    const expected = pattern.split('/');
+    return (
+      expected.length === segments.length &&
+      expected.every((segment, index) => segment === '*' || segment === segments[index])
+    );
+  });
+}
+
+/**
+ * Differences between the shape of `expected` and `actual`: objects need every expected
+ * key but the `optional` ones (extra ones are fine), arrays every item shaped like the
+ * recorded ones, and other values the same JSON type
+ */
+export function matchShape(
+  expected: unknown,
+  actual: unknown,
+  optional: readonly string[] = [],
+  pointer = ''
+): ContractMismatch[] {
+  const expectedType = typeOf(expected).replace('integer', 'number');
+  const actualType = typeOf(actual).replace('integer', 'number');
+  if (expectedType !== actualType) {
+    const example = JSON.stringify(expected);
+    const like = example.length > 40 ? `${example.slice(0, 40)}…` : example;
+    const message = `expected ${expectedType} like ${like}, got ${actualType}`;
+    return [{ path: pointer || '/', message }];
+  }
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const template = itemTemplate(expected);
+    if (template === undefined) {
+      return [];
+    }
+    if (actual.length === 0) {
+      return [{ path: pointer || '/', message: 'expected at least one item, got none' }];
+    }
+    return actual.flatMap((item, index) =>
+      matchShape(template, item, optional, `${pointer}/${index}`)
+    );
+  }
+  if (expectedType === 'object') {
+    const actualObject = actual as Record<string, unknown>;
+    return Object.entries(expected as Record<string, unknown>).flatMap(([key, value]) => {
+      const at = `${pointer}/${escapePointer(key)}`;
+      if (!Object.hasOwn(actualObject, key)) {
+        return isOptional(at, optional) ? [] : [{ path: at, message: 'missing' }];
+      }
+      return matchShape(value, actualObject[key], optional, at);
+    });
+  }
+  return [];
+}
+
+/**
+ * Requests a consumer test made through ApiClient and the responses it relied on. With
+ * `api.contracts.record` the interactions of a passing test replace those it recorded
+ * before in the contract shared by all tests; otherwise requests only pass through.
+ */
+export class ContractRecorder {
+  private readonly interactions: ContractInteraction[] = [];
+  private states: ProviderState[] = [];
+  private description: string | undefined;
+  private optionalFields: string[] = [];
+
+  constructor(
+    readonly file: string,
+    /** Title path of the consumer test */
+    readonly test: string,
+    private readonly options: ContractsConfig
+  ) {}
+
+  /**
+   * Recorder of the running test for `<dir>/<consumer>-<provider>.json`
+   */
+  static forTest(
+    testInfo: { file: string; titlePath: string[]; config: { rootDir: string } },
+    contracts: ContractsConfig = config.getApiConfig().contracts
+  ): ContractRecorder {
+    const spec = path.relative(testInfo.config.rootDir, testInfo.file).split(path.sep).join('/');
+    const file = path.resolve(contracts.dir, `${contracts.consumer}-${contracts.provider}.json`);
+    const titles = testInfo.titlePath.slice(1).map(title => title.replace(/(^|\s)@[\w-]+/g, ''));
+    const test = [spec, ...titles].join(' › ');
+    return new ContractRecorder(file, test, contracts);
+  }
+
+  get recording(): boolean {
+    return this.options.record;
+  }
+
+  /**
+   * Provider state the following requests depend on, in addition to earlier ones
+   */
+  given(name: string, params?: Record<string, unknown>): this {
+    this.states = [...this.states, { name, ...(params && { params }) }];
+    return this;
+  }
+
+  /**
+   * Response fields of the next request the test does not rely on, as JSON pointers into
+   * the body (`*` for any array index): the provider may leave them out
+   */
+  optional(...pointers: string[]): this {
+    this.optionalFields = [...this.optionalFields, ...pointers];
+    return this;
+  }
+
+  /**
+   * Description of the next request; defaults to its method and path
+   */
+  uponReceiving(description: string): this {
+    this.description = description;
+    return this;
+  }
+
+  /**
+   * Adapter sending a request through `send` and noting it with the response it got.
+   * Requests that got no response are not part of the contract.
+   */
+  adapter(send: AxiosAdapter): AxiosAdapter {
+    if (!this.options.record) {
+      return send;
+    }
+    return async request => {
+      try {
+        const response = await send(request);
+        this.note(request, response);
+        return response;
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response) {
+          this.note(request, error.response);
+        }
+        throw error;
+      }
+    };
+  }
+
+  private note(request: InternalAxiosRequestConfig, response: AxiosResponse): void {
+    const described = describeRequest(request, ['content-type']);
+    const contentType = mediaType(response.headers['content-type']);
+    const body = SecretManager.redact(parseBody(response.data));
+    this.interactions.push({
+      description: this.description ?? `${described.method} ${described.path}`,
+      test: this.test,
+      ...(this.states.length > 0 && { providerStates: this.states }),
+      request: described,
+      response: {
+        status: response.status,
+        headers: contentType ? { 'content-type': contentType } : {},
+        ...(body !== undefined && body !== '' && { body }),
+        ...(this.optionalFields.length > 0 && { optional: this.optionalFields })
+      }
+    });
+    this.description = undefined;
+    this.optionalFields = [];
+  }
+
+  /**
+   * Replace this test's interactions in the contract file (record mode only)
+   */
+  async save(): Promise<void> {
+    if (!this.options.record) {
+      return;
+    }
+    await withFileLock(this.file, () => {
+      const contract = ContractVerifier.read(this.file, this.options);
+      const interactions = [
+        ...contract.interactions.filter(interaction => interaction.test !== this.test),
+        ...this.interactions
+      ];
+      // Same order however the tests were scheduled: by test, then as they were made
+      interactions.sort((a, b) => a.test.localeCompare(b.test));
+      contract.interactions = interactions;
+      contract.metadata.updatedAt = new Date().toISOString();
+      fs.writeFileSync(this.file, `${JSON.stringify(contract, null, 2)}\n`);
+    });
+    logger.info(`Contract updated: ${path.relative(process.cwd(), this.file)}`, {
+      test: this.test,
+      interactions: this.interactions.length
+    });
+  }
+}
+
+/**
+ * Replays the interactions of a contract against a running provider, setting up their
+ * provider states first, and reports where the provider's responses differ
+ */
+export class ContractVerifier {
+  constructor(
+    private readonly client: ApiClient,
+    private readonly states: ProviderStateHandlers = {}
+  ) {}
+
+  static read(
+    file: string,
+    names: { consumer: string; provider: string } = config.getApiConfig().contracts
+  ): ContractFile {
+    if (!fs.existsSync(file)) {
+      return {
+        consumer: { name: names.consumer },
+        provider: { name: names.provider },
+        interactions: [],
+        metadata: { pactSpecification: { version: '3.0.0' }, updatedAt: '' }
+      };
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as ContractFile;
+  }
+
+  async verify(file: string): Promise<ContractVerification> {
+    const contract = ContractVerifier.read(file);
+    const interactions: InteractionVerification[] = [];
+    for (const interaction of contract.interactions) {
+      interactions.push(await this.verifyInteraction(interaction));
+    }
+    return {
+      file: path.relative(process.cwd(), file),
+      consumer: contract.consumer.name,
+      provider: contract.provider.name,
+      providerUrl: this.client.baseURL,
+      verifiedAt: new Date().toISOString(),
+      passed: interactions.every(interaction => interaction.passed),
+      interactions
+    };
+  }
+
+  private async verifyInteraction(
+    interaction: ContractInteraction
+  ): Promise<InteractionVerification> {
+    const providerStates = interaction.providerStates ?? [];
+    const result = (mismatches: ContractMismatch[]): InteractionVerification => ({
+      description: interaction.description,
+      test: interaction.test,
+      providerStates,
+      passed: mismatches.length === 0,
+      mismatches
+    });
+
+    const cleanups: Array<() => Promise<void>> = [];
+    try {
+      for (const state of providerStates) {
+        const handler = this.states[state.name];
+        if (!handler) {
+          const message = `no handler for provider state "${state.name}"`;
+          return result([{ path: 'state', message }]);
+        }
+        const cleanup = await handler(state.params ?? {}, this.client);
+        if (cleanup) {
+          cleanups.unshift(cleanup);
+        }
+      }
+    } catch (error) {
+      return result([{ path: 'state', message: `setup failed: ${(error as Error).message}` }]);
+    }
+
+    try {
+      const { request, response: expected } = interaction;
+      const response = await this.client.request({
+        method: request.method,
+        url: request.path,
+        params: request.query,
+        headers: request.headers,
+        ...(request.body !== undefined && { data: request.body }),
+        validateStatus: () => true,
+        retry: false
+      });
+      return result(ContractVerifier.compare(expected, response));
+    } catch (error) {
+      return result([{ path: 'request', message: (error as Error).message }]);
+    } finally {
+      for (const cleanup of cleanups) {
+        await cleanup().catch(error =>
+          logger.warn(`Provider state cleanup failed: ${(error as Error).message}`)
+        );
+      }
+    }
+  }
+
+  private static compare(expected: ContractResponse, response: AxiosResponse): ContractMismatch[] {
+    const mismatches: ContractMismatch[] = [];
+    if (response.status !== expected.status) {
+      mismatches.push({
+        path: 'status',
+        message: `expected ${expected.status}, got ${response.status}`
+      });
+    }
+    const contentType = expected.headers['content-type'];
+    const actualType = mediaType(response.headers['content-type']);
+    if (contentType && actualType !== contentType) {
+      mismatches.push({
+        path: 'header content-type',
+        message: `expected ${contentType}, got ${actualType ?? 'none'}`
+      });
+    }
+    if (expected.body !== undefined) {
+      const body: unknown =
+        typeof response.data === 'string' ? parseBody(response.data) : response.data;
+      mismatches.push(...matchShape(expected.body, body, expected.optional));
+    }
+    return mismatches;
+  }
+}
+
+/**
+ * Human-readable mismatch report of a verification
+ */
+export function formatVerification(verification: ContractVerification): string {
+  const passed = verification.interactions.filter(interaction => interaction.passed).length;
+  const lines = [
+    `${verification.consumer} -> ${verification.provider} (${verification.file}) against ` +
+      `${verification.providerUrl}: ${passed}/${verification.interactions.length} interactions ok`
+  ];
+  for (const interaction of verification.interactions) {
+    const states = interaction.providerStates.map(state => state.name).join(', ');
+    lines.push(
+      `  ${interaction.passed ? '✅' : '❌'} ${interaction.description}` +
+        (states ? ` given ${states}` : '') +
+        `\n     from ${interaction.test}`
+    );
+    for (const mismatch of interaction.mismatches) {
+      lines.push(`     - ${mismatch.path}: ${mismatch.message}`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,358 @@
+import { Database, SqlValue } from 'sql.js';
+import { DatabaseConfig, DbDriver } from './config-schema';
+import { Client } from 'pg';
+import { config } from './config';
+import fs from 'fs';
+import initSqlJs from 'sql.js';
+import { logger } from './logger';
+import path from 'path';
+
+export type Row = Record<string, unknown>;
+
+/**
+ * Connection to one database. Statements use PostgreSQL-style placeholders ($1, $2, ...)
+ * whatever the driver.
+ */
+export interface DbAdapter {
+  readonly driver: DbDriver;
+  /** Whether every worker sees the same data, so seeding belongs in global setup */
+  readonly shared: boolean;
+  query(sql: string, params: unknown[]): Promise<Row[]>;
+  /** Run one statement and return the number of rows it changed */
+  execute(sql: string, params: unknown[]): Promise<number>;
+  /** Run a script of statements without parameters */
+  exec(script: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Raised by DbClient assertions
+ */
+export class DbAssertionError extends Error {
+  constructor(
+    message: string,
+    public readonly table: string,
+    public readonly where: Row
+  ) {
+    super(message);
+    this.name = 'DbAssertionError';
+  }
+}
+
+export interface SeedResult {
+  files: string[];
+  /** Rows inserted from JSON seed files; rows that hit a unique key are left out */
+  rows: number;
+}
+
+/**
+ * PostgreSQL over a single connection, so transactions span every statement of a test
+ */
+export class PostgresAdapter implements DbAdapter {
+  readonly driver = 'postgres';
+  readonly shared = true;
+
+  private constructor(private readonly client: Client) {}
+
+  static async connect(database: DatabaseConfig): Promise<PostgresAdapter> {
+    const client = new Client({
+      port: database.port,
+      ...(database.host !== undefined && { host: database.host }),
+      ...(database.name !== undefined && { database: database.name }),
+      ...(database.user !== undefined && { user: database.user }),
+      ...(database.password !== undefined && { password: database.password.reveal() })
+    });
+    await client.connect();
+    return new PostgresAdapter(client);
+  }
+
+  async query(sql: string, params: unknown[]): Promise<Row[]> {
+    return (await this.client.query<Row>(sql, params)).rows;
+  }
+
+  async execute(sql: string, params: unknown[]): Promise<number> {
+    return (await this.client.query(sql, params)).rowCount ?? 0;
+  }
+
+  async exec(script: string): Promise<void> {
+    await this.client.query(script);
+  }
+
+  async close(): Promise<void> {
+    await this.client.end();
+  }
+}
+
+/**
+ * SQLite in memory (sql.js), optionally starting from a database file; each connection has
+ * data of its own and nothing is written back to the file
+ */
+export class SqliteAdapter implements DbAdapter {
+  readonly driver = 'sqlite';
+  readonly shared = false;
+
+  private constructor(private readonly database: Database) {}
+
+  static async open(file?: string): Promise<SqliteAdapter> {
+    const SQL = await initSqlJs();
+    return new SqliteAdapter(new SQL.Database(file ? fs.readFileSync(file) : undefined));
+  }
+
+  /**
+   * $1 becomes ?1, SQLite's numbered placeholder; values SQLite has no type for are converted
+   */
+  private prepare(sql: string, params: unknown[]): [string, SqlValue[]] {
+    const values = params.map((value): SqlValue => {
+      if (value === undefined || value === null) {
+        return null;
+      }
+      if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+      }
+      if (value instanceof Date) {
+        return value.toISOString();
+      }
+      if (typeof value === 'object' && !(value instanceof Uint8Array)) {
+        return JSON.stringify(value);
+      }
+      return value as SqlValue;
+    });
+    return [sql.replace(/\$(\d+)/g, '?$1'), values];
+  }
+
+  async query(sql: string, params: unknown[]): Promise<Row[]> {
+    const statement = this.database.prepare(...this.prepare(sql, params));
+    try {
+      const rows: Row[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async execute(sql: string, params: unknown[]): Promise<number> {
+    this.database.run(...this.prepare(sql, params));
+    return this.database.getRowsModified();
+  }
+
+  async exec(script: string): Promise<void> {
+    this.database.exec(script);
+  }
+
+  async close(): Promise<void> {
+    this.database.close();
+  }
+}
+
+function quote(identifier: string): string {
+  return identifier
+    .split('.')
+    .map(part => `"${part.replace(/"/g, '""')}"`)
+    .join('.');
+}
+
+/**
+ * `"a" = $1 AND "b" IS NULL` for { a: 1, b: null }
+ */
+function whereClause(where: Row): { sql: string; params: unknown[] } {
+  const params: unknown[] = [];
+  const conditions = Object.entries(where).map(([column, value]) => {
+    if (value === null) {
+      return `${quote(column)} IS NULL`;
+    }
+    params.push(value);
+    return `${quote(column)} = $${params.length}`;
+  });
+  return { sql: conditions.length > 0 ? conditions.join(' AND ') : '1 = 1', params };
+}
+
+/**
+ * Database access for seeding state and verifying persistence, over PostgreSQL or an
+ * in-memory SQLite database. begin()/rollback() nest through savepoints, so a test running
+ * inside the fixture's transaction can still use transactions of its own.
+ */
+export class DbClient {
+  private depth = 0;
+
+  constructor(private readonly adapter: DbAdapter) {}
+
+  /**
+   * Connect with Config's database settings
+   */
+  static async connect(database: DatabaseConfig = config.getDatabaseConfig()): Promise<DbClient> {
+    if (!database.driver) {
+      throw new Error('No database configured; set DB_DRIVER to postgres or sqlite');
+    }
+    const adapter =
+      database.driver === 'postgres'
+        ? await PostgresAdapter.connect(database)
+        : await SqliteAdapter.open(database.file);
+    logger.debug(`Connected to ${database.driver} database`, {
+      target: database.driver === 'postgres' ? database.name : database.file ?? ':memory:'
+    });
+    return new DbClient(adapter);
+  }
+
+  get driver(): DbDriver {
+    return this.adapter.driver;
+  }
+
+  get shared(): boolean {
+    return this.adapter.shared;
+  }
+
+  async query<T extends Row = Row>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return (await this.adapter.query(sql, params)) as T[];
+  }
+
+  /**
+   * Number of rows the statement changed
+   */
+  async execute(sql: string, params: unknown[] = []): Promise<number> {
+    return this.adapter.execute(sql, params);
+  }
+
+  /**
+   * Rows of `table` whose columns equal the given values
+   */
+  async select<T extends Row = Row>(table: string, where: Row = {}): Promise<T[]> {
+    const clause = whereClause(where);
+    return this.query<T>(`SELECT * FROM ${quote(table)} WHERE ${clause.sql}`, clause.params);
+  }
+
+  /**
+   * Insert rows; with ignoreConflicts, rows that hit a unique key are skipped. Returns the
+   * number of rows inserted.
+   */
+  async insert(
+    table: string,
+    rows: Row | Row[],
+    options: { ignoreConflicts?: boolean } = {}
+  ): Promise<number> {
+    let inserted = 0;
+    for (const row of Array.isArray(rows) ? rows : [rows]) {
+      const columns = Object.keys(row);
+      const placeholders = columns.map((_, index) => `$${index + 1}`);
+      inserted += await this.execute(
+        `INSERT INTO ${quote(table)} (${columns.map(quote).join(', ')}) ` +
+          `VALUES (${placeholders.join(', ')})` +
+          (options.ignoreConflicts ? ' ON CONFLICT DO NOTHING' : ''),
+        Object.values(row)
+      );
+    }
+    return inserted;
+  }
+
+  /**
+   * Delete the rows of `table` whose columns equal the given values; returns how many
+   */
+  async delete(table: string, where: Row): Promise<number> {
+    const clause = whereClause(where);
+    return this.execute(`DELETE FROM ${quote(table)} WHERE ${clause.sql}`, clause.params);
+  }
+
+  async begin(): Promise<void> {
+    await this.adapter.exec(this.depth === 0 ? 'BEGIN' : `SAVEPOINT sp_${this.depth}`);
+    this.depth++;
+  }
+
+  async commit(): Promise<void> {
+    this.depth--;
+    await this.adapter.exec(this.depth === 0 ? 'COMMIT' : `RELEASE SAVEPOINT sp_${this.depth}`);
+  }
+
+  async rollback(): Promise<void> {
+    this.depth--;
+    await this.adapter.exec(
+      this.depth === 0
+        ? 'ROLLBACK'
+        : `ROLLBACK TO SAVEPOINT sp_${this.depth}; RELEASE SAVEPOINT sp_${this.depth}`
+    );
+  }
+
+  /**
+   * Run `fn` in a transaction, committed when it resolves and rolled back when it throws
+   */
+  async transaction<T>(fn: (db: DbClient) => Promise<T>): Promise<T> {
+    await this.begin();
+    try {
+      const result = await fn(this);
+      await this.commit();
+      return result;
+    } catch (error) {
+      await this.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a seed file or every seed file of a directory, in name order:
+   * - `.sql` files run as they are, e.g. CREATE TABLE IF NOT EXISTS statements
+   * - `.json` files map table names to rows to insert, e.g. { "users": [{ "id": 1, ... }] };
+   *   rows that hit a unique key are skipped, so seeding twice changes nothing
+   */
+  async seed(source: string = config.getDatabaseConfig().seedDir): Promise<SeedResult> {
+    const files = fs.statSync(source).isDirectory()
+      ? fs
+          .readdirSync(source)
+          .filter(file => /\.(sql|json)$/.test(file))
+          .sort()
+          .map(file => path.join(source, file))
+      : [source];
+    let rows = 0;
+    for (const file of files) {
+      const content = fs.readFileSync(file, 'utf-8');
+      if (file.endsWith('.sql')) {
+        await this.adapter.exec(content);
+        continue;
+      }
+      const tables = JSON.parse(content) as Record<string, Row[]>;
+      for (const [table, tableRows] of Object.entries(tables)) {
+        rows += await this.insert(table, tableRows, { ignoreConflicts: true });
+      }
+    }
+    logger.info(`Database seeded from ${source}`, { files: files.length, rows });
+    return { files, rows };
+  }
+
+  /**
+   * The single row of `table` matching `where`; fails when there is none or more than one
+   */
+  async expectRow<T extends Row = Row>(table: string, where: Row): Promise<T> {
+    const rows = await this.select<T>(table, where);
+    if (rows.length !== 1) {
+      throw new DbAssertionError(
+        `Expected one row in ${table} matching ${JSON.stringify(where)}, found ${rows.length}`,
+        table,
+        where
+      );
+    }
+    return rows[0] as T;
+  }
+
+  /**
+   * Fails when `table` has a row matching `where`
+   */
+  async expectNoRow(table: string, where: Row): Promise<void> {
+    await this.expectRowCount(table, where, 0);
+  }
+
+  async expectRowCount(table: string, where: Row, count: number): Promise<void> {
+    const rows = await this.select(table, where);
+    if (rows.length !== count) {
+      throw new DbAssertionError(
+        `Expected ${count} row(s) in ${table} matching ${JSON.stringify(where)}, ` +
+          `found ${rows.length}`,
+        table,
+        where
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.adapter.close();
+  }
+}
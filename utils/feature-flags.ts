@@ -0,0 +1,193 @@
+import { ApiClient, apiClient } from './api-client';
+import { config } from './config';
+import fs from 'fs';
+import { logger } from './logger';
+import path from 'path';
+
+export type FeatureFlags = Record<string, boolean>;
+
+/**
+ * Source of feature flag values for the active environment
+ */
+export interface FlagProvider {
+  readonly name: string;
+  load(): Promise<FeatureFlags>;
+}
+
+/**
+ * Resolved flags and where they came from, as recorded for reports
+ */
+export interface ResolvedFlags {
+  source: string;
+  flags: FeatureFlags;
+}
+
+/**
+ * Accepts `{ "flag": true }`, `{ "flags": { ... } }` or `[{ "name": "flag", "enabled": true }]`
+ */
+function normalizeFlags(raw: unknown, source: string): FeatureFlags {
+  const body = (raw as { flags?: unknown } | null)?.flags ?? raw;
+  const entries: Array<[string, unknown]> = Array.isArray(body)
+    ? body.map(item => [item?.name, item?.enabled])
+    : Object.entries(body ?? {});
+
+  const flags: FeatureFlags = {};
+  for (const [name, enabled] of entries) {
+    if (typeof name !== 'string' || typeof enabled !== 'boolean') {
+      throw new Error(`Invalid feature flag entry in ${source}: ${JSON.stringify([name, enabled])}`);
+    }
+    flags[name] = enabled;
+  }
+  return flags;
+}
+
+/**
+ * Flags from a static JSON file, e.g. config/flags/staging.json
+ */
+export class FileFlagProvider implements FlagProvider {
+  readonly name: string;
+
+  constructor(private filePath: string) {
+    this.name = `file:${path.relative(process.cwd(), filePath)}`;
+  }
+
+  async load(): Promise<FeatureFlags> {
+    if (!fs.existsSync(this.filePath)) {
+      logger.warn(`Feature flag file not found: ${this.filePath}`);
+      return {};
+    }
+    return normalizeFlags(JSON.parse(fs.readFileSync(this.filePath, 'utf-8')), this.name);
+  }
+}
+
+/**
+ * Flags fetched from the application's flag endpoint
+ */
+export class HttpFlagProvider implements FlagProvider {
+  readonly name: string;
+
+  constructor(
+    private endpoint: string,
+    private client: ApiClient = apiClient
+  ) {
+    this.name = `http:${endpoint}`;
+  }
+
+  async load(): Promise<FeatureFlags> {
+    const response = await this.client.get(this.endpoint);
+    return normalizeFlags(response.data, this.name);
+  }
+}
+
+/**
+ * Parse FEATURE_FLAGS overrides such as "new-dashboard=on,beta-search=false"
+ */
+export function parseFlagOverrides(list: string): FeatureFlags {
+  const flags: FeatureFlags = {};
+  for (const pair of list.split(/[,;]/)) {
+    const [name, value = 'true'] = pair.split('=').map(part => part.trim());
+    if (name) {
+      flags[name] = /^(true|on|1|yes)$/i.test(value);
+    }
+  }
+  return flags;
+}
+
+/**
+ * Feature flag resolution for the active environment and target.
+ *
+ * Provider values (file or HTTP, from Config.getFeatureFlagConfig()) are overlaid
+ * with the target profile's featureFlags and then FEATURE_FLAGS overrides.
+ */
+export class FeatureFlagManager {
+  private static readonly RESOLVED_FILE = path.join(
+    process.cwd(),
+    'test-results',
+    'feature-flags.json'
+  );
+  private static resolved: ResolvedFlags | undefined;
+  private static customProvider: FlagProvider | undefined;
+
+  /**
+   * Use a custom provider instead of the configured one
+   */
+  static useProvider(provider: FlagProvider | undefined): void {
+    this.customProvider = provider;
+    this.resolved = undefined;
+  }
+
+  /**
+   * Provider selected by configuration
+   */
+  static getProvider(): FlagProvider {
+    if (this.customProvider) {
+      return this.customProvider;
+    }
+    const flagConfig = config.getFeatureFlagConfig();
+    if (flagConfig.provider === 'http') {
+      return new HttpFlagProvider(flagConfig.endpoint);
+    }
+    const file =
+      flagConfig.file || path.join(config.getConfigDir(), 'flags', `${config.getEnvironment()}.json`);
+    return new FileFlagProvider(file);
+  }
+
+  /**
+   * Resolve flags once per process; later calls return the cached set
+   */
+  static async load(): Promise<FeatureFlags> {
+    if (!this.resolved) {
+      const provider = this.getProvider();
+      const flags = {
+        ...(await provider.load()),
+        ...config.getTarget()?.featureFlags,
+        ...parseFlagOverrides(process.env.FEATURE_FLAGS || '')
+      };
+      this.resolved = { source: provider.name, flags };
+      logger.info('Feature flags resolved', this.resolved);
+    }
+    return { ...this.resolved.flags };
+  }
+
+  /**
+   * Drop cached flags, e.g. after switching target
+   */
+  static reset(): void {
+    this.resolved = undefined;
+  }
+
+  /**
+   * Whether a flag is on; flags must have been loaded and unknown flags count as off
+   */
+  static isEnabled(name: string): boolean {
+    if (!this.resolved) {
+      throw new Error('Feature flags are not loaded yet, call FeatureFlagManager.load() first');
+    }
+    return this.resolved.flags[name] === true;
+  }
+
+  static getResolved(): ResolvedFlags | undefined {
+    return this.resolved && { source: this.resolved.source, flags: { ...this.resolved.flags } };
+  }
+
+  /**
+   * Record the resolved flags for reports generated in other processes
+   */
+  static saveResolved(): void {
+    if (!this.resolved) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.RESOLVED_FILE), { recursive: true });
+    fs.writeFileSync(this.RESOLVED_FILE, JSON.stringify(this.resolved, null, 2));
+  }
+
+  /**
+   * Flags recorded by saveResolved(), if any
+   */
+  static readResolved(): ResolvedFlags | undefined {
+    if (!fs.existsSync(this.RESOLVED_FILE)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(this.RESOLVED_FILE, 'utf-8'));
+  }
+}
@@ -0,0 +1,248 @@
+import { Readable, Transform } from 'stream';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Bytes moved so far. `total` is missing when the size is not known up front, such as a
+ * download without Content-Length.
+ */
+export interface TransferProgress {
+  loaded: number;
+  total?: number;
+  /** Name of the file being sent when the upload reports it */
+  filename?: string;
+}
+
+export type ProgressCallback = (progress: TransferProgress) => void;
+
+/**
+ * One file of a multipart upload
+ */
+export interface MultipartFile {
+  /** Path of the file to stream, or its content */
+  source: string | Buffer;
+  /** Form field; defaults to the upload's field */
+  field?: string;
+  /** Defaults to the path's base name, or blob for buffers */
+  filename?: string;
+  /** Defaults to a type guessed from the filename's extension */
+  contentType?: string;
+}
+
+/** Form values other than files; objects are sent as JSON parts */
+export type MultipartFields = Record<string, string | number | boolean | object>;
+
+export interface MultipartOptions {
+  /** Field of files that do not name one; default file */
+  field?: string;
+  fields?: MultipartFields;
+  /** Called as the form is sent, with the file being sent */
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Raised when a downloaded file does not have the expected checksum or length; the partial
+ * file has been removed by then
+ */
+export class ChecksumMismatchError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly expected: string,
+    public readonly actual: string
+  ) {
+    super(`Download of ${url} is corrupt: expected ${expected}, got ${actual}`);
+    this.name = 'ChecksumMismatchError';
+  }
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.gif': 'image/gif',
+  '.gz': 'application/gzip',
+  '.html': 'text/html',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.json': 'application/json',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+  '.webp': 'image/webp',
+  '.xml': 'application/xml',
+  '.zip': 'application/zip'
+};
+
+export function guessContentType(filename: string): string {
+  return CONTENT_TYPES[path.extname(filename).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Header value quoting as browsers do it for form-data names and filenames
+ */
+function quote(value: string): string {
+  return `"${value.replace(/\r/g, '%0D').replace(/\n/g, '%0A').replace(/"/g, '%22')}"`;
+}
+
+interface Part {
+  header: Buffer;
+  body: Buffer | string;
+  size: number;
+  filename?: string;
+}
+
+/**
+ * multipart/form-data request body whose files are read from disk while it is sent. It can
+ * be streamed any number of times, so a retried upload sends the whole form again.
+ */
+export class MultipartBody {
+  readonly boundary = `----PlaywrightFormBoundary${crypto.randomBytes(12).toString('hex')}`;
+  private readonly files: Array<Required<Omit<MultipartFile, 'source'>> & MultipartFile>;
+
+  constructor(
+    files: MultipartFile[],
+    private readonly options: MultipartOptions = {}
+  ) {
+    const field = options.field ?? 'file';
+    this.files = files.map(file => {
+      const filename =
+        file.filename ?? (typeof file.source === 'string' ? path.basename(file.source) : 'blob');
+      return {
+        ...file,
+        field: file.field ?? field,
+        filename,
+        contentType: file.contentType ?? guessContentType(filename)
+      };
+    });
+  }
+
+  get contentType(): string {
+    return `multipart/form-data; boundary=${this.boundary}`;
+  }
+
+  /**
+   * Stream of the encoded form, with its length in bytes so it can be sent with
+   * Content-Length. Files are stat'ed now and read as the stream is consumed.
+   */
+  async open(): Promise<{ stream: Readable; length: number }> {
+    return this.encode(this.options.onProgress);
+  }
+
+  /**
+   * Hex digest of the bytes open() streams, e.g. for signing the request; files are read once
+   * more for it
+   */
+  async digest(algorithm: string = 'sha256'): Promise<string> {
+    const hash = crypto.createHash(algorithm);
+    for await (const chunk of (await this.encode()).stream) {
+      hash.update(chunk as Buffer);
+    }
+    return hash.digest('hex');
+  }
+
+  private async encode(
+    onProgress?: ProgressCallback
+  ): Promise<{ stream: Readable; length: number }> {
+    const { fields = {} } = this.options;
+    const parts: Part[] = Object.entries(fields).map(([name, value]) => {
+      const json = typeof value === 'object';
+      const body = json ? JSON.stringify(value) : String(value);
+      const type = json ? 'Content-Type: application/json\r\n' : '';
+      return {
+        header: Buffer.from(
+          `--${this.boundary}\r\nContent-Disposition: form-data; name=${quote(name)}\r\n` +
+            `${type}\r\n`
+        ),
+        body: Buffer.from(body),
+        size: Buffer.byteLength(body)
+      };
+    });
+    for (const file of this.files) {
+      const size =
+        typeof file.source === 'string'
+          ? (await fs.promises.stat(file.source)).size
+          : file.source.length;
+      parts.push({
+        header: Buffer.from(
+          `--${this.boundary}\r\nContent-Disposition: form-data; name=${quote(file.field)}; ` +
+            `filename=${quote(file.filename)}\r\nContent-Type: ${file.contentType}\r\n\r\n`
+        ),
+        body: file.source,
+        size,
+        filename: file.filename
+      });
+    }
+    const closing = Buffer.from(`--${this.boundary}--\r\n`);
+    const length =
+      parts.reduce((sum, part) => sum + part.header.length + part.size + 2, 0) + closing.length;
+
+    async function* encode(): AsyncGenerator<Buffer> {
+      let loaded = 0;
+      const sent = (chunk: Buffer, filename?: string) => {
+        loaded += chunk.length;
+        onProgress?.({ loaded, total: length, ...(filename && { filename }) });
+        return chunk;
+      };
+      for (const part of parts) {
+        yield sent(part.header, part.filename);
+        if (Buffer.isBuffer(part.body)) {
+          yield sent(part.body, part.filename);
+        } else {
+          for await (const chunk of fs.createReadStream(part.body)) {
+            yield sent(chunk as Buffer, part.filename);
+          }
+        }
+        yield sent(Buffer.from('\r\n'), part.filename);
+      }
+      yield sent(closing);
+    }
+
+    return { stream: Readable.from(encode(), { objectMode: false }), length };
+  }
+}
+
+/**
+ * Pass-through stream hashing and counting what flows through it
+ */
+export class ChecksumStream extends Transform {
+  private readonly hash: crypto.Hash;
+  bytes = 0;
+
+  constructor(
+    readonly algorithm: string,
+    private readonly onProgress?: ProgressCallback,
+    private readonly total?: number
+  ) {
+    super();
+    this.hash = crypto.createHash(algorithm);
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, done: () => void): void {
+    this.hash.update(chunk);
+    this.bytes += chunk.length;
+    this.onProgress?.({
+      loaded: this.bytes,
+      ...(this.total !== undefined && { total: this.total })
+    });
+    this.push(chunk);
+    done();
+  }
+
+  /** `<algorithm>:<hex digest>`; only once the stream has finished */
+  get checksum(): string {
+    return `${this.algorithm}:${this.hash.copy().digest('hex')}`;
+  }
+}
+
+/**
+ * Expected checksum in `<algorithm>:<hex>` form; a bare hex digest is taken as sha256
+ */
+export function parseChecksum(checksum: string): { algorithm: string; digest: string } {
+  const separator = checksum.indexOf(':');
+  return separator === -1
+    ? { algorithm: 'sha256', digest: checksum.toLowerCase() }
+    : {
+        algorithm: checksum.slice(0, separator).toLowerCase().replace(/-/g, ''),
+        digest: checksum.slice(separator + 1).toLowerCase()
+      };
+}
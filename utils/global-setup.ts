@@ -1,6 +1,10 @@
 import { FullConfig } from '@playwright/test';
 import { logger } from './logger';
 import { config } from './config';
+import { ApiMetrics } from './api-metrics';
+import { ConfigValidationError } from './config-schema';
+import { DbClient } from './db-client';
+import { FeatureFlagManager } from './feature-flags';
 import { TestDataManager } from './test-data-manager';
 import fs from 'fs';
 import path from 'path';
@@ -24,6 +28,9 @@ async function globalSetup(config: FullConfig): Promise<void> {
     // Setup environment
     await setupEnvironment();
 
+    // Resolve feature flags
+    await resolveFeatureFlags();
+
     // Health checks
     await performHealthChecks();
 
@@ -40,11 +47,8 @@ async function globalSetup(config: FullConfig): Promise<void> {
 function validateConfiguration(): void {
   logger.stepStart('Validating configuration');
   
-  const configInstance = require('./config').config;
-  const isValid = configInstance.validateConfig();
-  
-  if (!isValid) {
-    throw new Error('Configuration validation failed');
+  if (!config.validateConfig()) {
+    throw new ConfigValidationError(config.getValidationIssues());
   }
   
   logger.stepEnd('Validating configuration', true);
@@ -74,6 +78,9 @@ async function setupTestDirectories(): Promise<void> {
       logger.debug(`Created directory: ${dir}`);
     }
   }
+
+  // API metrics of a previous run would skew this run's percentiles
+  ApiMetrics.reset();
   
   logger.stepEnd('Setting up test directories', true);
 }
@@ -95,6 +102,9 @@ async function initializeTestData(): Promise<void> {
 
     // Load existing test data
     await loadTestData();
+
+    // Seed the test database
+    await seedDatabase();
     
     logger.stepEnd('Initializing test data', true);
   } catch (error) {
@@ -147,6 +157,23 @@ async function loadTestData(): Promise<void> {
   }
 }
 
+/**
+ * Apply the seed files to a shared database; in-memory ones are seeded by each worker
+ */
+async function seedDatabase(): Promise<void> {
+  const { driver, seedDir } = config.getDatabaseConfig();
+  if (driver !== 'postgres' || !fs.existsSync(seedDir)) {
+    return;
+  }
+
+  const db = await DbClient.connect();
+  try {
+    await db.seed(seedDir);
+  } finally {
+    await db.close();
+  }
+}
+
 /**
  * Setup environment
  */
@@ -172,6 +199,10 @@ async function setupEnvironment(): Promise<void> {
     };
 
     logger.environment(envInfo);
+
+    // Record the configuration so runs can be compared later (npm run config:diff)
+    const snapshotPath = config.writeSnapshot();
+    logger.info(`Configuration snapshot written to: ${snapshotPath}`);
     logger.stepEnd('Setting up environment', true);
   } catch (error) {
     logger.stepEnd('Setting up environment', false);
@@ -179,6 +210,22 @@ async function setupEnvironment(): Promise<void> {
   }
 }
 
+/**
+ * Resolve feature flags and record them for the final report
+ */
+async function resolveFeatureFlags(): Promise<void> {
+  logger.stepStart('Resolving feature flags');
+
+  try {
+    await FeatureFlagManager.load();
+    FeatureFlagManager.saveResolved();
+    logger.stepEnd('Resolving feature flags', true);
+  } catch (error) {
+    logger.stepEnd('Resolving feature flags', false);
+    throw error;
+  }
+}
+
 /**
  * Perform health checks
  */
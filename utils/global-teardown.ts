@@ -1,7 +1,9 @@
 import { FullConfig } from '@playwright/test';
 import { logger } from './logger';
+import { ApiMetrics } from './api-metrics';
 import { BrowserManager } from './browser-utils';
 import { TestDataManager } from './test-data-manager';
+import { config as frameworkConfig } from './config';
 import fs from 'fs';
 import path from 'path';
 
@@ -171,12 +173,11 @@ async function createPerformanceReport(): Promise<void> {
   const performancePath = path.join(process.cwd(), 'test-results', 'performance-report.json');
   
   try {
-    // This would be populated during test execution
     const performanceData = {
       timestamp: new Date().toISOString(),
       averagePageLoadTime: 0,
       slowestPages: [],
-      apiResponseTimes: [],
+      apiResponseTimes: ApiMetrics.summarize(),
       memoryUsage: process.memoryUsage ? process.memoryUsage() : null
     };
 
@@ -240,6 +241,7 @@ async function archiveTestResults(): Promise<void> {
       'test-results/results.json',
       'test-results/test-summary.json',
       'test-results/performance-report.json',
+      'test-results/config-snapshot.json',
       'logs/test-results.log'
     ];
 
@@ -280,8 +282,9 @@ async function sendNotifications(): Promise<void> {
     }
 
     // Send Slack notification if configured
-    if (process.env.SLACK_WEBHOOK_URL && summary) {
-      await sendSlackNotification(summary);
+    const webhookUrl = frameworkConfig.getNotificationConfig().slack.webhookUrl;
+    if (webhookUrl && summary) {
+      await sendSlackNotification(webhookUrl.reveal(), summary);
     }
 
     // Send email notification if configured
@@ -299,7 +302,7 @@ async function sendNotifications(): Promise<void> {
 /**
  * Send Slack notification
  */
-async function sendSlackNotification(summary: any): Promise<void> {
+async function sendSlackNotification(webhookUrl: string, summary: any): Promise<void> {
   try {
     const { default: axios } = await import('axios');
     
@@ -321,7 +324,7 @@ async function sendSlackNotification(summary: any): Promise<void> {
       ]
     };
 
-    await axios.post(process.env.SLACK_WEBHOOK_URL!, message);
+    await axios.post(webhookUrl, message);
     logger.info('Slack notification sent');
   } catch (error) {
     logger.error('Failed to send Slack notification:', error as Error);
@@ -0,0 +1,360 @@
+import { ApiClient, apiClient } from './api-client';
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import {
+  GraphQLSchemaValidator,
+  GraphQLViolation,
+  OperationDefinition,
+  OperationType,
+  parseOperations,
+  selectOperation
+} from './graphql-schema';
+import { MultipartBody } from './file-transfer';
+import { config } from './config';
+import crypto from 'crypto';
+import { logger } from './logger';
+import path from 'path';
+
+export interface GraphQLError {
+  message: string;
+  locations?: Array<{ line: number; column: number }>;
+  path?: Array<string | number>;
+  extensions?: { code?: string; [key: string]: unknown };
+}
+
+/**
+ * Body of a GraphQL response as sent by the server
+ */
+export interface GraphQLResponse<TData> {
+  data?: TData | null;
+  errors?: GraphQLError[];
+  extensions?: Record<string, unknown>;
+}
+
+export type GraphQLVariables = Record<string, unknown>;
+
+export interface GraphQLRequestOptions<TVariables extends GraphQLVariables = GraphQLVariables> {
+  variables?: TVariables;
+  /** Operation to execute when the document defines several */
+  operationName?: string;
+  /**
+   * Send only the document's SHA-256 hash first and the document itself when the server
+   * does not know it yet (Apollo Automatic Persisted Queries)
+   */
+  persisted?: boolean;
+  /**
+   * none (default) fails on any entry in errors[], all returns data and errors together so
+   * a test can assert on partial results
+   */
+  errorPolicy?: 'none' | 'all';
+  /** ApiClient request options such as headers, timeout, retry or authStrategy */
+  config?: AxiosRequestConfig;
+}
+
+export interface GraphQLResult<TData> {
+  /** With errorPolicy 'all' this may be partial, or null when the operation failed */
+  data: TData;
+  errors: GraphQLError[];
+  extensions: Record<string, unknown> | undefined;
+  response: AxiosResponse<GraphQLResponse<TData>>;
+}
+
+/**
+ * Raised when a response carries errors[], whatever its HTTP status
+ */
+export class GraphQLRequestError extends Error {
+  constructor(
+    public readonly operationName: string | undefined,
+    public readonly errors: GraphQLError[],
+    public readonly data: unknown,
+    public readonly status: number
+  ) {
+    super(
+      `GraphQL operation ${operationName ?? '(anonymous)'} failed (HTTP ${status}):\n` +
+        errors
+          .map(error => {
+            const at = error.path ? ` at ${error.path.join('.')}` : '';
+            const code = error.extensions?.code ? ` [${error.extensions.code}]` : '';
+            return `  - ${error.message}${at}${code}`;
+          })
+          .join('\n')
+    );
+    this.name = 'GraphQLRequestError';
+  }
+
+  /** Error codes from extensions.code, e.g. UNAUTHENTICATED or BAD_USER_INPUT */
+  get codes(): string[] {
+    return this.errors.flatMap(error => (error.extensions?.code ? [error.extensions.code] : []));
+  }
+}
+
+/**
+ * Raised when response data does not match the SDL schema
+ */
+export class GraphQLValidationError extends Error {
+  constructor(
+    public readonly operationName: string | undefined,
+    public readonly violations: GraphQLViolation[],
+    public readonly data: unknown
+  ) {
+    super(
+      `Response of GraphQL operation ${operationName ?? '(anonymous)'} does not match ` +
+        'the schema:\n' +
+        violations.map(violation => `  - ${violation.path || '/'}: ${violation.message}`).join('\n')
+    );
+    this.name = 'GraphQLValidationError';
+  }
+}
+
+/**
+ * A file sent with an operation, placed in its variables where the schema expects an Upload.
+ * Requests carrying uploads use the GraphQL multipart request format.
+ */
+export class GraphQLUpload {
+  constructor(
+    /** Path of the file to send, or its content */
+    readonly source: string | Buffer,
+    readonly options: { filename?: string; contentType?: string } = {}
+  ) {}
+
+  get filename(): string {
+    if (this.options.filename) {
+      return this.options.filename;
+    }
+    return typeof this.source === 'string' ? path.basename(this.source) : 'blob';
+  }
+}
+
+/**
+ * Copy of `value` with every GraphQLUpload replaced by null, and the variable paths of each
+ */
+function extractUploads(
+  value: unknown,
+  at: string,
+  uploads: Map<GraphQLUpload, string[]>
+): unknown {
+  if (value instanceof GraphQLUpload) {
+    uploads.set(value, [...(uploads.get(value) ?? []), at]);
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => extractUploads(item, `${at}.${index}`, uploads));
+  }
+  if (typeof value === 'object' && value !== null && !Buffer.isBuffer(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        extractUploads(item, `${at}.${key}`, uploads)
+      ])
+    );
+  }
+  return value;
+}
+
+function persistedQueryMissing(errors: GraphQLError[] | undefined): boolean {
+  return (errors ?? []).some(
+    error =>
+      error.extensions?.code === 'PERSISTED_QUERY_NOT_FOUND' ||
+      error.message === 'PersistedQueryNotFound'
+  );
+}
+
+/**
+ * GraphQL over ApiClient: requests go through its auth, logging, retries, metrics and cassettes.
+ * Queries are retried like idempotent REST calls, mutations are sent once unless
+ * `config.retry` says otherwise.
+ */
+export class GraphQLClient {
+  private static documents = new Map<string, OperationDefinition[]>();
+  private explicitValidator: GraphQLSchemaValidator | null | undefined;
+
+  constructor(
+    private readonly client: ApiClient = apiClient,
+    private readonly endpoint: string = config.getApiConfig().graphql.endpoint
+  ) {}
+
+  /**
+   * Validate responses against this schema instead of the one configured by
+   * `api.graphql.schema`; null turns validation off for this client
+   */
+  useSchema(validator: GraphQLSchemaValidator | null): void {
+    this.explicitValidator = validator;
+  }
+
+  /**
+   * Execute a query; fails when the selected operation is not one
+   */
+  async query<TData = unknown, TVariables extends GraphQLVariables = GraphQLVariables>(
+    document: string,
+    variables?: TVariables,
+    options: Omit<GraphQLRequestOptions<TVariables>, 'variables'> = {}
+  ): Promise<GraphQLResult<TData>> {
+    return this.execute<TData, TVariables>('query', document, {
+      ...options,
+      ...(variables && { variables })
+    });
+  }
+
+  /**
+   * Execute a mutation; fails when the selected operation is not one
+   */
+  async mutate<TData = unknown, TVariables extends GraphQLVariables = GraphQLVariables>(
+    document: string,
+    variables?: TVariables,
+    options: Omit<GraphQLRequestOptions<TVariables>, 'variables'> = {}
+  ): Promise<GraphQLResult<TData>> {
+    return this.execute<TData, TVariables>('mutation', document, {
+      ...options,
+      ...(variables && { variables })
+    });
+  }
+
+  /**
+   * Execute whichever operation of `document` the options select
+   */
+  async request<TData = unknown, TVariables extends GraphQLVariables = GraphQLVariables>(
+    document: string,
+    options: GraphQLRequestOptions<TVariables> = {}
+  ): Promise<GraphQLResult<TData>> {
+    return this.execute<TData, TVariables>(undefined, document, options);
+  }
+
+  private async execute<TData, TVariables extends GraphQLVariables>(
+    expectedType: OperationType | undefined,
+    document: string,
+    options: GraphQLRequestOptions<TVariables>
+  ): Promise<GraphQLResult<TData>> {
+    const operation = selectOperation(GraphQLClient.parse(document), options.operationName);
+    if (expectedType && operation.type !== expectedType) {
+      throw new Error(`Expected a ${expectedType} but the operation is a ${operation.type}`);
+    }
+    const operationName = options.operationName ?? operation.name;
+
+    let response: AxiosResponse<GraphQLResponse<TData>>;
+    try {
+      response = await this.send<TData>(document, operation, operationName, options);
+    } catch (error) {
+      // Servers answer invalid operations with 400 and an errors[] body
+      const body = (error as { data?: GraphQLResponse<TData> }).data;
+      if (Array.isArray(body?.errors)) {
+        const status = (error as { status?: number }).status ?? 0;
+        throw new GraphQLRequestError(operationName, body.errors, body.data, status);
+      }
+      throw error;
+    }
+
+    const { data, errors = [], extensions } = response.data ?? {};
+    if (errors.length > 0 && options.errorPolicy !== 'all') {
+      throw new GraphQLRequestError(operationName, errors, data, response.status);
+    }
+    if (!response.headers['x-dry-run']) {
+      this.validate(operation, operationName, data, errors.length > 0);
+    }
+    return { data: data as TData, errors, extensions, response };
+  }
+
+  private async send<TData>(
+    document: string,
+    operation: OperationDefinition,
+    operationName: string | undefined,
+    options: GraphQLRequestOptions
+  ): Promise<AxiosResponse<GraphQLResponse<TData>>> {
+    const retry =
+      options.config?.retry ?? (operation.type === 'query' ? { nonIdempotent: true } : undefined);
+    const requestConfig: AxiosRequestConfig = {
+      ...options.config,
+      ...(retry !== undefined && { retry }),
+      // Queries go out as POST but change nothing, so the production guard lets them through
+      readOnly: operation.type === 'query',
+      endpoint: `${this.endpoint} ${operation.type} ${operationName ?? '(anonymous)'}`
+    };
+    const uploads = new Map<GraphQLUpload, string[]>();
+    const variables = extractUploads(options.variables ?? {}, 'variables', uploads);
+    const body = {
+      ...(operationName && { operationName }),
+      variables
+    };
+
+    if (uploads.size > 0) {
+      const form = this.multipart({ ...body, query: document }, uploads);
+      return this.client.post(this.endpoint, form, requestConfig);
+    }
+    if (!options.persisted) {
+      return this.client.post(this.endpoint, { ...body, query: document }, requestConfig);
+    }
+
+    const extensions = {
+      persistedQuery: {
+        version: 1,
+        sha256Hash: crypto.createHash('sha256').update(document).digest('hex')
+      }
+    };
+    const hashed = await this.client.post<GraphQLResponse<TData>>(
+      this.endpoint,
+      { ...body, extensions },
+      requestConfig
+    );
+    if (!persistedQueryMissing(hashed.data?.errors)) {
+      return hashed;
+    }
+    logger.debug(`Server does not know persisted query ${operationName ?? '(anonymous)'} yet`);
+    return this.client.post(this.endpoint, { ...body, query: document, extensions }, requestConfig);
+  }
+
+  /**
+   * Body of a GraphQL multipart request: operations, the map of files to variables, the files
+   */
+  private multipart(
+    operations: Record<string, unknown>,
+    uploads: Map<GraphQLUpload, string[]>
+  ): MultipartBody {
+    const files = [...uploads.entries()];
+    const map = Object.fromEntries(files.map(([, paths], index) => [index, paths]));
+    return new MultipartBody(
+      files.map(([upload], index) => ({
+        source: upload.source,
+        field: String(index),
+        filename: upload.filename,
+        ...(upload.options.contentType && { contentType: upload.options.contentType })
+      })),
+      // Strings, so the parts go out as plain form values the spec expects
+      { fields: { operations: JSON.stringify(operations), map: JSON.stringify(map) } }
+    );
+  }
+
+  private schemaValidator(): GraphQLSchemaValidator | undefined {
+    if (this.explicitValidator !== undefined) {
+      return this.explicitValidator ?? undefined;
+    }
+    const { schema } = config.getApiConfig().graphql;
+    return schema ? GraphQLSchemaValidator.fromFile(schema) : undefined;
+  }
+
+  private validate(
+    operation: OperationDefinition,
+    operationName: string | undefined,
+    data: unknown,
+    partial: boolean
+  ): void {
+    const mode = config.getApiConfig().responseValidation;
+    const validator = mode === 'off' ? undefined : this.schemaValidator();
+    const violations = validator?.validateResponse(operation, data, partial) ?? [];
+    if (violations.length === 0) {
+      return;
+    }
+    const error = new GraphQLValidationError(operationName, violations, data);
+    if (mode === 'warn') {
+      logger.warn(error.message);
+      return;
+    }
+    throw error;
+  }
+
+  private static parse(document: string): OperationDefinition[] {
+    let operations = this.documents.get(document);
+    if (!operations) {
+      operations = parseOperations(document);
+      this.documents.set(document, operations);
+    }
+    return operations;
+  }
+}
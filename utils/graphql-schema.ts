@@ -0,0 +1,691 @@
+import { escapePointer } from './json-schema';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Reference to a type as written in SDL: `User`, `[User!]`, `String!`
+ */
+export type GraphQLTypeRef =
+  | { kind: 'named'; name: string }
+  | { kind: 'list'; of: GraphQLTypeRef }
+  | { kind: 'nonNull'; of: GraphQLTypeRef };
+
+export interface GraphQLTypeDefinition {
+  kind: 'object' | 'interface' | 'union' | 'enum' | 'scalar' | 'input';
+  name: string;
+  /** Output fields of objects and interfaces */
+  fields: Map<string, GraphQLTypeRef>;
+  interfaces: string[];
+  /** Members of a union */
+  types: string[];
+  /** Values of an enum */
+  values: string[];
+}
+
+export type OperationType = 'query' | 'mutation' | 'subscription';
+
+export interface FieldSelection {
+  kind: 'field';
+  name: string;
+  alias: string | undefined;
+  /** Carries @include or @skip, so it may be missing from the response */
+  conditional: boolean;
+  selections: Selection[];
+}
+
+export interface FragmentSelection {
+  kind: 'fragment';
+  /** Name of a spread fragment; inline fragments have none */
+  name?: string;
+  /** Inline fragments without a type condition apply to any type */
+  typeCondition: string | undefined;
+  conditional: boolean;
+  selections: Selection[];
+}
+
+export type Selection = FieldSelection | FragmentSelection;
+
+export interface OperationDefinition {
+  type: OperationType;
+  name: string | undefined;
+  selections: Selection[];
+}
+
+/**
+ * A response value that does not match the schema; `path` is a JSON pointer below `data`
+ */
+export interface GraphQLViolation {
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised for SDL or operation documents that cannot be parsed
+ */
+export class GraphQLSyntaxError extends Error {
+  constructor(message: string, source: string, position: number) {
+    const before = source.slice(0, position).split('\n');
+    const column = (before[before.length - 1]?.length ?? 0) + 1;
+    super(`GraphQL syntax error at ${before.length}:${column}: ${message}`);
+    this.name = 'GraphQLSyntaxError';
+  }
+}
+
+type Token =
+  | { kind: 'punctuator'; value: string; start: number }
+  | { kind: 'name'; value: string; start: number }
+  | { kind: 'value'; value: string; start: number };
+
+const PUNCTUATORS = new Set(['!', '$', '&', '(', ')', ':', '=', '@', '[', ']', '{', '|', '}']);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i] as string;
+    if (/[\s,\uFEFF]/.test(char)) {
+      i++;
+    } else if (char === '#') {
+      while (i < source.length && source[i] !== '\n') {
+        i++;
+      }
+    } else if (source.startsWith('...', i)) {
+      tokens.push({ kind: 'punctuator', value: '...', start: i });
+      i += 3;
+    } else if (PUNCTUATORS.has(char)) {
+      tokens.push({ kind: 'punctuator', value: char, start: i });
+      i++;
+    } else if (source.startsWith('"""', i)) {
+      const end = source.indexOf('"""', i + 3);
+      if (end === -1) {
+        throw new GraphQLSyntaxError('unterminated block string', source, i);
+      }
+      tokens.push({ kind: 'value', value: source.slice(i, end + 3), start: i });
+      i = end + 3;
+    } else if (char === '"') {
+      const match = /^"(?:[^"\\\n]|\\.)*"/.exec(source.slice(i));
+      if (!match) {
+        throw new GraphQLSyntaxError('unterminated string', source, i);
+      }
+      tokens.push({ kind: 'value', value: match[0], start: i });
+      i += match[0].length;
+    } else {
+      const match = /^(?:[_A-Za-z][_0-9A-Za-z]*|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(
+        source.slice(i)
+      );
+      if (!match) {
+        throw new GraphQLSyntaxError(`unexpected character ${JSON.stringify(char)}`, source, i);
+      }
+      const kind = /^[_A-Za-z]/.test(match[0]) ? 'name' : 'value';
+      tokens.push({ kind, value: match[0], start: i });
+      i += match[0].length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Recursive-descent reader shared by the SDL and the operation document parsers
+ */
+class TokenReader {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  get done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  peek(value?: string): boolean {
+    const token = this.tokens[this.index];
+    return token !== undefined && (value === undefined || token.value === value);
+  }
+
+  peekKind(kind: Token['kind']): boolean {
+    return this.tokens[this.index]?.kind === kind;
+  }
+
+  skip(value: string): boolean {
+    if (this.peek(value) && !this.peekKind('value')) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  expect(value: string): void {
+    if (!this.skip(value)) {
+      this.fail(`expected "${value}"`);
+    }
+  }
+
+  name(): string {
+    const token = this.tokens[this.index];
+    if (token?.kind !== 'name') {
+      this.fail('expected a name');
+    }
+    this.index++;
+    return token.value;
+  }
+
+  fail(message: string): never {
+    const token = this.tokens[this.index];
+    const found = token ? ` but found "${token.value}"` : ' but reached the end';
+    throw new GraphQLSyntaxError(message + found, this.source, token?.start ?? this.source.length);
+  }
+
+  /** Skip a value: variable, literal, list or input object */
+  skipValue(): void {
+    if (this.skip('$')) {
+      this.name();
+    } else if (this.peek('[') || this.peek('{')) {
+      this.skipBalanced();
+    } else if (this.peek()) {
+      this.index++;
+    } else {
+      this.fail('expected a value');
+    }
+  }
+
+  /** Skip from an opening bracket to its closing one */
+  skipBalanced(): void {
+    const pairs: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+    const stack: string[] = [];
+    do {
+      const token = this.tokens[this.index++];
+      if (!token) {
+        this.fail(`expected "${stack[stack.length - 1]}"`);
+      }
+      if (token.kind === 'punctuator' && pairs[token.value]) {
+        stack.push(pairs[token.value] as string);
+      } else if (token.kind === 'punctuator' && token.value === stack[stack.length - 1]) {
+        stack.pop();
+      }
+    } while (stack.length > 0);
+  }
+
+  /** Skip directives, telling whether one of them was @include or @skip */
+  directives(): boolean {
+    let conditional = false;
+    while (this.skip('@')) {
+      const name = this.name();
+      conditional ||= name === 'include' || name === 'skip';
+      if (this.peek('(')) {
+        this.skipBalanced();
+      }
+    }
+    return conditional;
+  }
+
+  typeRef(): GraphQLTypeRef {
+    let ref: GraphQLTypeRef;
+    if (this.skip('[')) {
+      ref = { kind: 'list', of: this.typeRef() };
+      this.expect(']');
+    } else {
+      ref = { kind: 'named', name: this.name() };
+    }
+    return this.skip('!') ? { kind: 'nonNull', of: ref } : ref;
+  }
+
+  skipDescription(): void {
+    if (this.peekKind('value')) {
+      this.index++;
+    }
+  }
+}
+
+const BUILT_IN_SCALARS = ['Int', 'Float', 'String', 'Boolean', 'ID'];
+
+function emptyType(kind: GraphQLTypeDefinition['kind'], name: string): GraphQLTypeDefinition {
+  return { kind, name, fields: new Map(), interfaces: [], types: [], values: [] };
+}
+
+/**
+ * Types and root operation types of an SDL document; `extend` definitions are merged
+ */
+export function parseSdl(source: string): {
+  types: Map<string, GraphQLTypeDefinition>;
+  roots: Record<OperationType, string>;
+} {
+  const types = new Map(BUILT_IN_SCALARS.map(name => [name, emptyType('scalar', name)]));
+  const roots: Record<OperationType, string> = {
+    query: 'Query',
+    mutation: 'Mutation',
+    subscription: 'Subscription'
+  };
+  const reader = new TokenReader(source);
+
+  const typeNamed = (kind: GraphQLTypeDefinition['kind'], name: string) => {
+    const type = types.get(name) ?? emptyType(kind, name);
+    types.set(name, type);
+    return type;
+  };
+
+  while (!reader.done) {
+    reader.skipDescription();
+    reader.skip('extend');
+    const keyword = reader.name();
+    if (keyword === 'schema') {
+      reader.directives();
+      reader.expect('{');
+      while (!reader.skip('}')) {
+        const operation = reader.name() as OperationType;
+        reader.expect(':');
+        roots[operation] = reader.name();
+      }
+    } else if (keyword === 'directive') {
+      reader.expect('@');
+      reader.name();
+      if (reader.peek('(')) {
+        reader.skipBalanced();
+      }
+      reader.skip('repeatable');
+      reader.expect('on');
+      reader.skip('|');
+      do {
+        reader.name();
+      } while (reader.skip('|'));
+    } else if (keyword === 'scalar') {
+      typeNamed('scalar', reader.name());
+      reader.directives();
+    } else if (keyword === 'union') {
+      const type = typeNamed('union', reader.name());
+      reader.directives();
+      if (reader.skip('=')) {
+        reader.skip('|');
+        do {
+          type.types.push(reader.name());
+        } while (reader.skip('|'));
+      }
+    } else if (keyword === 'enum') {
+      const type = typeNamed('enum', reader.name());
+      reader.directives();
+      if (reader.skip('{')) {
+        while (!reader.skip('}')) {
+          reader.skipDescription();
+          type.values.push(reader.name());
+          reader.directives();
+        }
+      }
+    } else if (keyword === 'type' || keyword === 'interface' || keyword === 'input') {
+      const kinds = { type: 'object', interface: 'interface', input: 'input' } as const;
+      const type = typeNamed(kinds[keyword], reader.name());
+      if (reader.skip('implements')) {
+        reader.skip('&');
+        do {
+          type.interfaces.push(reader.name());
+        } while (reader.skip('&'));
+      }
+      reader.directives();
+      if (reader.skip('{')) {
+        while (!reader.skip('}')) {
+          reader.skipDescription();
+          const name = reader.name();
+          if (reader.peek('(')) {
+            reader.skipBalanced();
+          }
+          reader.expect(':');
+          type.fields.set(name, reader.typeRef());
+          if (reader.skip('=')) {
+            reader.skipValue();
+          }
+          reader.directives();
+        }
+      }
+    } else {
+      reader.fail(`unknown definition "${keyword}"`);
+    }
+  }
+  return { types, roots };
+}
+
+function parseSelections(reader: TokenReader): Selection[] {
+  const selections: Selection[] = [];
+  reader.expect('{');
+  while (!reader.skip('}')) {
+    if (reader.skip('...')) {
+      if (reader.peek('on') || reader.peek('@') || reader.peek('{')) {
+        const typeCondition = reader.skip('on') ? reader.name() : undefined;
+        const conditional = reader.directives();
+        selections.push({
+          kind: 'fragment',
+          typeCondition,
+          conditional,
+          selections: parseSelections(reader)
+        });
+      } else {
+        // Named spreads are resolved against the document's fragments after parsing
+        const name = reader.name();
+        const conditional = reader.directives();
+        selections.push({
+          kind: 'fragment',
+          name,
+          typeCondition: undefined,
+          conditional,
+          selections: []
+        });
+      }
+      continue;
+    }
+    let alias: string | undefined;
+    let name = reader.name();
+    if (reader.skip(':')) {
+      alias = name;
+      name = reader.name();
+    }
+    if (reader.peek('(')) {
+      reader.skipBalanced();
+    }
+    const conditional = reader.directives();
+    const nested = reader.peek('{') ? parseSelections(reader) : [];
+    selections.push({ kind: 'field', name, alias, conditional, selections: nested });
+  }
+  return selections;
+}
+
+/**
+ * Operations of an executable document, with named fragment spreads inlined
+ */
+export function parseOperations(source: string): OperationDefinition[] {
+  const reader = new TokenReader(source);
+  const operations: OperationDefinition[] = [];
+  const fragments = new Map<string, { typeCondition: string; selections: Selection[] }>();
+
+  while (!reader.done) {
+    if (reader.peek('{')) {
+      operations.push({ type: 'query', name: undefined, selections: parseSelections(reader) });
+      continue;
+    }
+    const keyword = reader.name();
+    if (keyword === 'fragment') {
+      const name = reader.name();
+      reader.expect('on');
+      const typeCondition = reader.name();
+      reader.directives();
+      fragments.set(name, { typeCondition, selections: parseSelections(reader) });
+    } else if (keyword === 'query' || keyword === 'mutation' || keyword === 'subscription') {
+      const name = reader.peekKind('name') ? reader.name() : undefined;
+      if (reader.peek('(')) {
+        reader.skipBalanced();
+      }
+      reader.directives();
+      operations.push({ type: keyword, name, selections: parseSelections(reader) });
+    } else {
+      reader.fail(`unknown definition "${keyword}"`);
+    }
+  }
+
+  const inline = (selections: Selection[], seen: string[]): Selection[] =>
+    selections.map(selection => {
+      if (selection.kind !== 'fragment' || selection.name === undefined) {
+        return { ...selection, selections: inline(selection.selections, seen) };
+      }
+      const name = selection.name;
+      const fragment = fragments.get(name);
+      if (!fragment || seen.includes(name)) {
+        throw new Error(`${fragment ? 'Cyclic' : 'Unknown'} fragment "${name}"`);
+      }
+      return {
+        ...selection,
+        typeCondition: fragment.typeCondition,
+        selections: inline(fragment.selections, [...seen, name])
+      };
+    });
+
+  return operations.map(operation => ({
+    ...operation,
+    selections: inline(operation.selections, [])
+  }));
+}
+
+/**
+ * The operation a request executes: the named one, or the only one in the document
+ */
+export function selectOperation(
+  operations: OperationDefinition[],
+  operationName?: string
+): OperationDefinition {
+  const operation = operationName
+    ? operations.find(candidate => candidate.name === operationName)
+    : operations.length === 1
+      ? operations[0]
+      : undefined;
+  if (!operation) {
+    throw new Error(
+      operationName
+        ? `Operation "${operationName}" not found in the document`
+        : 'The document has several operations, pass operationName'
+    );
+  }
+  return operation;
+}
+
+/**
+ * Validates GraphQL response data against an SDL schema and the operation's selections:
+ * selected fields present and nothing else, non-null fields not null, lists, enums and
+ * built-in scalars of the right type, and abstract types resolved through __typename.
+ */
+export class GraphQLSchemaValidator {
+  private static cache = new Map<string, GraphQLSchemaValidator>();
+  private readonly types: Map<string, GraphQLTypeDefinition>;
+  private readonly roots: Record<OperationType, string>;
+
+  constructor(sdl: string) {
+    ({ types: this.types, roots: this.roots } = parseSdl(sdl));
+  }
+
+  /**
+   * Validator for an SDL file (.graphql or .gql), parsed once per process
+   */
+  static fromFile(filePath: string): GraphQLSchemaValidator {
+    const key = path.resolve(filePath);
+    let validator = this.cache.get(key);
+    if (!validator) {
+      if (!fs.existsSync(key)) {
+        throw new Error(`GraphQL schema not found: ${key}`);
+      }
+      validator = new GraphQLSchemaValidator(fs.readFileSync(key, 'utf-8'));
+      this.cache.set(key, validator);
+    }
+    return validator;
+  }
+
+  getType(name: string): GraphQLTypeDefinition | undefined {
+    return this.types.get(name);
+  }
+
+  /**
+   * Violations of `data` returned for `operation`. A response that also carries errors may
+   * have nulled fields, which is then not reported.
+   */
+  validateResponse(
+    operation: OperationDefinition,
+    data: unknown,
+    partial = false
+  ): GraphQLViolation[] {
+    const violations: GraphQLViolation[] = [];
+    const root = this.roots[operation.type];
+    if (!this.types.has(root)) {
+      return [{ path: '', message: `Schema defines no ${operation.type} type "${root}"` }];
+    }
+    if (data === null || data === undefined) {
+      return partial ? [] : [{ path: '', message: 'Response has no data' }];
+    }
+    this.validateSelections(data, root, operation.selections, '', partial, violations);
+    return violations;
+  }
+
+  private possibleTypes(name: string): string[] {
+    const type = this.types.get(name);
+    if (type?.kind === 'union') {
+      return type.types;
+    }
+    if (type?.kind === 'interface') {
+      return [...this.types.values()]
+        .filter(candidate => candidate.interfaces.includes(name))
+        .map(candidate => candidate.name);
+    }
+    return [name];
+  }
+
+  private validateSelections(
+    value: unknown,
+    typeName: string,
+    selections: Selection[],
+    pointer: string,
+    partial: boolean,
+    violations: GraphQLViolation[]
+  ): void {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      violations.push({ path: pointer, message: `Expected an object of type ${typeName}` });
+      return;
+    }
+    const object = value as Record<string, unknown>;
+    const typename = typeof object.__typename === 'string' ? object.__typename : undefined;
+    const type = this.types.get(typename ?? typeName);
+    if (typename && !this.possibleTypes(typeName).includes(typename)) {
+      violations.push({
+        path: pointer,
+        message: `${typename} is not a possible type of ${typeName}`
+      });
+      return;
+    }
+    // Without __typename the concrete type of an abstract value is unknown
+    const concrete = type?.kind === 'object' ? type.name : undefined;
+    const expected = new Set<string>();
+
+    const visit = (current: Selection[], optional: boolean, scope: string) => {
+      for (const selection of current) {
+        if (selection.kind === 'fragment') {
+          const condition = selection.typeCondition;
+          const applies =
+            !condition ||
+            (concrete !== undefined && this.possibleTypes(condition).includes(concrete));
+          if (applies || concrete === undefined) {
+            const conditional = optional || selection.conditional || !applies;
+            visit(selection.selections, conditional, condition ?? scope);
+          }
+          continue;
+        }
+        const key = selection.alias ?? selection.name;
+        expected.add(key);
+        const present = key in object;
+        if (!present) {
+          if (!optional && !selection.conditional) {
+            violations.push({ path: `${pointer}/${escapePointer(key)}`, message: 'Missing field' });
+          }
+          continue;
+        }
+        if (selection.name === '__typename') {
+          if (typeof object[key] !== 'string') {
+            violations.push({
+              path: `${pointer}/${escapePointer(key)}`,
+              message: 'Expected a type name'
+            });
+          }
+          continue;
+        }
+        const owner = concrete ?? scope;
+        const fieldType = this.types.get(owner)?.fields.get(selection.name);
+        if (!fieldType) {
+          violations.push({
+            path: `${pointer}/${escapePointer(key)}`,
+            message: `Type ${owner} has no field "${selection.name}"`
+          });
+          continue;
+        }
+        this.validateValue(
+          object[key],
+          fieldType,
+          selection.selections,
+          `${pointer}/${escapePointer(key)}`,
+          partial,
+          violations
+        );
+      }
+    };
+    visit(selections, false, typeName);
+
+    for (const key of Object.keys(object)) {
+      if (!expected.has(key)) {
+        violations.push({
+          path: `${pointer}/${escapePointer(key)}`,
+          message: 'Field not selected'
+        });
+      }
+    }
+  }
+
+  private validateValue(
+    value: unknown,
+    ref: GraphQLTypeRef,
+    selections: Selection[],
+    pointer: string,
+    partial: boolean,
+    violations: GraphQLViolation[]
+  ): void {
+    if (ref.kind === 'nonNull') {
+      if (value === null && !partial) {
+        violations.push({ path: pointer, message: 'Non-null field is null' });
+        return;
+      }
+      this.validateValue(value, ref.of, selections, pointer, partial, violations);
+      return;
+    }
+    if (value === null) {
+      return;
+    }
+    if (ref.kind === 'list') {
+      if (!Array.isArray(value)) {
+        violations.push({ path: pointer, message: 'Expected a list' });
+        return;
+      }
+      value.forEach((item, index) =>
+        this.validateValue(item, ref.of, selections, `${pointer}/${index}`, partial, violations)
+      );
+      return;
+    }
+
+    const type = this.types.get(ref.name);
+    if (!type) {
+      violations.push({ path: pointer, message: `Schema defines no type "${ref.name}"` });
+      return;
+    }
+    if (type.kind === 'enum') {
+      if (typeof value !== 'string' || !type.values.includes(value)) {
+        const allowed = type.values.join(', ');
+        violations.push({
+          path: pointer,
+          message: `Expected one of ${type.name} (${allowed}), got ${JSON.stringify(value)}`
+        });
+      }
+      return;
+    }
+    if (type.kind === 'scalar') {
+      const message = this.scalarMismatch(type.name, value);
+      if (message) {
+        violations.push({ path: pointer, message });
+      }
+      return;
+    }
+    this.validateSelections(value, type.name, selections, pointer, partial, violations);
+  }
+
+  private scalarMismatch(name: string, value: unknown): string | undefined {
+    const valid: Record<string, (candidate: unknown) => boolean> = {
+      Int: candidate =>
+        Number.isInteger(candidate) && Math.abs(candidate as number) <= 2 ** 31 - 1,
+      Float: candidate => typeof candidate === 'number' && Number.isFinite(candidate),
+      String: candidate => typeof candidate === 'string',
+      Boolean: candidate => typeof candidate === 'boolean',
+      ID: candidate => typeof candidate === 'string' || Number.isInteger(candidate)
+    };
+    // Custom scalars serialize to anything
+    const check = valid[name];
+    return check && !check(value) ? `Expected ${name}, got ${JSON.stringify(value)}` : undefined;
+  }
+}
@@ -0,0 +1,282 @@
+import { BrowserContext, BrowserContextOptions, Page, Route, TestInfo } from '@playwright/test';
+import { HarConfig, HarMatching } from './config-schema';
+import { REDACTED, SecretManager } from './secrets';
+import { config } from './config';
+import fs from 'fs';
+import { logger } from './logger';
+import path from 'path';
+import { testFilePath } from './vcr';
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * The parts of a HAR 1.2 log that sanitizing touches
+ */
+export interface HarFile {
+  log: {
+    entries: Array<{
+      request: {
+        method: string;
+        url: string;
+        headers: HarNameValue[];
+        cookies: HarNameValue[];
+        queryString: HarNameValue[];
+        postData?: { mimeType: string; text?: string; params?: HarNameValue[] };
+      };
+      response: {
+        status: number;
+        headers: HarNameValue[];
+        cookies: HarNameValue[];
+        content: { mimeType: string; text?: string; encoding?: string };
+      };
+    }>;
+  };
+}
+
+export interface HarReplayOptions {
+  /** URL glob of the requests served from the HAR; all of them when unset */
+  urlFilter?: string | undefined;
+  /** Strict aborts requests the HAR has no entry for, lenient sends them to the network */
+  matching?: HarMatching;
+}
+
+/**
+ * A request replay had no HAR entry for
+ */
+export interface UnmatchedRequest {
+  method: string;
+  url: string;
+}
+
+/**
+ * Raised after a strict replay when the page made requests the HAR does not cover
+ */
+export class HarMismatchError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly unmatched: UnmatchedRequest[]
+  ) {
+    super(
+      `${unmatched.length} request(s) not found in ${path.relative(process.cwd(), file)}:\n` +
+        unmatched.map(request => `  ${request.method} ${request.url}`).join('\n')
+    );
+    this.name = 'HarMismatchError';
+  }
+}
+
+function redactPairs(pairs: HarNameValue[]): HarNameValue[] {
+  return pairs.map(({ name, value }) => ({
+    name,
+    value: SecretManager.isSensitiveKey(name) ? REDACTED : SecretManager.redactText(value)
+  }));
+}
+
+function redactBody(text: string, mimeType: string): string {
+  if (/json/.test(mimeType)) {
+    try {
+      return JSON.stringify(SecretManager.redact(JSON.parse(text)));
+    } catch {
+      // Not valid JSON after all; masked as text
+    }
+  }
+  if (/x-www-form-urlencoded/.test(mimeType)) {
+    const params = new URLSearchParams(text);
+    for (const [name] of params) {
+      if (SecretManager.isSensitiveKey(name)) {
+        params.set(name, REDACTED);
+      }
+    }
+    return params.toString();
+  }
+  return SecretManager.redactText(text);
+}
+
+function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const [name] of parsed.searchParams) {
+    if (SecretManager.isSensitiveKey(name)) {
+      parsed.searchParams.set(name, REDACTED);
+    }
+  }
+  return SecretManager.redactText(parsed.toString());
+}
+
+/**
+ * Copy of a HAR with cookies, credentials and known secret values masked in headers, query
+ * strings and text bodies. Requests that sent a secret in their URL or body no longer match
+ * on replay.
+ */
+export function sanitizeHar(har: HarFile): HarFile {
+  return {
+    ...har,
+    log: {
+      ...har.log,
+      entries: har.log.entries.map(({ request, response, ...entry }) => ({
+        ...entry,
+        request: {
+          ...request,
+          url: redactUrl(request.url),
+          headers: redactPairs(request.headers),
+          cookies: request.cookies.map(cookie => ({ ...cookie, value: REDACTED })),
+          queryString: redactPairs(request.queryString),
+          ...(request.postData && {
+            postData: {
+              ...request.postData,
+              ...(request.postData.text !== undefined && {
+                text: redactBody(request.postData.text, request.postData.mimeType)
+              }),
+              ...(request.postData.params && { params: redactPairs(request.postData.params) })
+            }
+          })
+        },
+        response: {
+          ...response,
+          headers: redactPairs(response.headers),
+          cookies: response.cookies.map(cookie => ({ ...cookie, value: REDACTED })),
+          content: {
+            ...response.content,
+            ...(response.content.text !== undefined &&
+              response.content.encoding !== 'base64' && {
+                text: redactBody(response.content.text, response.content.mimeType)
+              })
+          }
+        }
+      }))
+    }
+  };
+}
+
+/**
+ * Responses of a HAR file served to a page or context. Requests it has no entry for are
+ * collected in `unmatched`.
+ */
+export class HarReplay {
+  readonly unmatched: UnmatchedRequest[] = [];
+
+  private constructor(
+    readonly file: string,
+    readonly matching: HarMatching
+  ) {}
+
+  static async start(
+    target: Page | BrowserContext,
+    file: string,
+    options: HarReplayOptions = {}
+  ): Promise<HarReplay> {
+    const { urlFilter, matching = 'strict' } = options;
+    const replay = new HarReplay(file, matching);
+    // Routed before the HAR so it only sees the requests the HAR falls back on
+    await target.route(urlFilter ?? '**/*', (route: Route) => replay.unmatchedRequest(route));
+    await target.routeFromHAR(file, {
+      notFound: 'fallback',
+      ...(urlFilter !== undefined && { url: urlFilter })
+    });
+    logger.debug(`Replaying ${file} (${matching})`);
+    return replay;
+  }
+
+  private async unmatchedRequest(route: Route): Promise<void> {
+    const request = route.request();
+    this.unmatched.push({ method: request.method(), url: request.url() });
+    logger.warn(`No HAR entry for ${request.method()} ${request.url()}`);
+    await (this.matching === 'strict' ? route.abort('failed') : route.fallback());
+  }
+}
+
+/**
+ * The HAR of one test: recorded by the browser context into the test's output and saved
+ * sanitized to `<dir>/<spec>/<test>.har`, or replayed from there
+ */
+export class TestHar {
+  private replay: HarReplay | undefined;
+
+  private constructor(
+    readonly file: string,
+    private readonly rawFile: string,
+    private readonly options: HarConfig
+  ) {}
+
+  static forTest(
+    testInfo: TestInfo,
+    har: HarConfig = config.getTestConfig().har
+  ): TestHar | undefined {
+    if (har.mode === 'off') {
+      return undefined;
+    }
+    return new TestHar(
+      testFilePath(testInfo, har.dir, '.har'),
+      testInfo.outputPath('recording.har'),
+      har
+    );
+  }
+
+  get mode(): HarConfig['mode'] {
+    return this.options.mode;
+  }
+
+  /**
+   * Context options that make the browser record the HAR
+   */
+  contextOptions(): Pick<BrowserContextOptions, 'recordHar'> {
+    if (this.mode !== 'record') {
+      return {};
+    }
+    return {
+      recordHar: {
+        path: this.rawFile,
+        content: 'embed',
+        ...(this.options.urlFilter !== undefined && { urlFilter: this.options.urlFilter })
+      }
+    };
+  }
+
+  /**
+   * Serve the recorded HAR to a context when replaying
+   */
+  async attach(target: Page | BrowserContext): Promise<void> {
+    if (this.mode !== 'replay') {
+      return;
+    }
+    if (!fs.existsSync(this.file)) {
+      throw new Error(`No HAR recorded at ${this.file}; record it with HAR_MODE=record`);
+    }
+    this.replay = await HarReplay.start(target, this.file, {
+      urlFilter: this.options.urlFilter,
+      matching: this.options.matching
+    });
+  }
+
+  /**
+   * After the context closed: save and attach the sanitized recording, or report the requests
+   * replay could not serve. A strict replay with unmatched requests fails the test.
+   */
+  async finish(testInfo: TestInfo): Promise<void> {
+    if (this.mode === 'record' && fs.existsSync(this.rawFile)) {
+      const har = sanitizeHar(JSON.parse(fs.readFileSync(this.rawFile, 'utf-8')) as HarFile);
+      fs.rmSync(this.rawFile);
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(har, null, 2));
+      await testInfo.attach('har', { path: this.file, contentType: 'application/json' });
+      logger.debug(`HAR saved to ${this.file}`, { entries: har.log.entries.length });
+    }
+
+    const unmatched = this.replay?.unmatched ?? [];
+    if (unmatched.length === 0) {
+      return;
+    }
+    testInfo.annotations.push({
+      type: 'har-unmatched',
+      description: `${unmatched.length} request(s) not in ${path.basename(this.file)}`
+    });
+    await testInfo.attach('har-unmatched', {
+      body: JSON.stringify(unmatched, null, 2),
+      contentType: 'application/json'
+    });
+    if (this.options.matching === 'strict' && testInfo.status === testInfo.expectedStatus) {
+      throw new HarMismatchError(this.file, unmatched);
+    }
+  }
+}
@@ -0,0 +1,626 @@
+/**
+ * JSON Schema (draft 2020-12) validation reporting every violation with a JSON pointer to the
+ * offending value. OpenAPI 3.0's `nullable` is accepted as shorthand for a 'null' type and
+ * `$dynamicRef` resolves like `$ref`.
+ */
+
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * A schema, or a boolean schema: `true` accepts any value and `false` none
+ */
+export type JsonSchemaDefinition = JsonSchema | boolean;
+
+/**
+ * The schema keywords understood by validateJsonSchema
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $dynamicRef?: string;
+  $anchor?: string;
+  $dynamicAnchor?: string;
+  $defs?: Record<string, JsonSchemaDefinition>;
+  type?: JsonSchemaType | JsonSchemaType[];
+  /** OpenAPI 3.0 spelling of `type: [..., 'null']` */
+  nullable?: boolean;
+  enum?: unknown[];
+  const?: unknown;
+  format?: string;
+  multipleOf?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  prefixItems?: JsonSchemaDefinition[];
+  items?: JsonSchemaDefinition;
+  contains?: JsonSchemaDefinition;
+  minContains?: number;
+  maxContains?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  unevaluatedItems?: JsonSchemaDefinition;
+  properties?: Record<string, JsonSchemaDefinition>;
+  patternProperties?: Record<string, JsonSchemaDefinition>;
+  additionalProperties?: JsonSchemaDefinition;
+  unevaluatedProperties?: JsonSchemaDefinition;
+  propertyNames?: JsonSchemaDefinition;
+  required?: string[];
+  dependentRequired?: Record<string, string[]>;
+  dependentSchemas?: Record<string, JsonSchemaDefinition>;
+  minProperties?: number;
+  maxProperties?: number;
+  allOf?: JsonSchemaDefinition[];
+  anyOf?: JsonSchemaDefinition[];
+  oneOf?: JsonSchemaDefinition[];
+  not?: JsonSchemaDefinition;
+  if?: JsonSchemaDefinition;
+  then?: JsonSchemaDefinition;
+  else?: JsonSchemaDefinition;
+  title?: string;
+  description?: string;
+  default?: unknown;
+  example?: unknown;
+  examples?: unknown[];
+  [keyword: string]: unknown;
+}
+
+/**
+ * A value that does not satisfy its schema
+ */
+export interface SchemaViolation {
+  /** JSON pointer to the value, '' for the root */
+  pointer: string;
+  keyword: string;
+  message: string;
+  /** JSON pointer to the failing keyword within the schema, e.g. '/properties/id/type' */
+  schemaPath: string;
+}
+
+export interface SchemaValidationOptions {
+  /** Document that local `$ref`s such as '#/components/schemas/User' resolve against */
+  root?: unknown;
+  /** Schemas that `$ref`s to other documents resolve against, keyed by `$id` */
+  schemas?: Record<string, JsonSchema>;
+}
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  'date-time': value =>
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(value) &&
+    !Number.isNaN(Date.parse(value)),
+  date: value =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`)),
+  time: value => /^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(value),
+  duration: value =>
+    /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(value),
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  hostname: value =>
+    value.length <= 253 &&
+    /^[a-z\d]([a-z\d-]{0,61}[a-z\d])?(\.[a-z\d]([a-z\d-]{0,61}[a-z\d])?)*$/i.test(value),
+  ipv4: value => /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(?!$)|$)){4}$/.test(value),
+  ipv6: value => value.includes(':') && canParse(() => new URL(`http://[${value}]`)),
+  uri: value => /^[a-z][a-z\d+.-]*:\S*$/i.test(value),
+  'uri-reference': value => !/\s/.test(value),
+  uuid: value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  'json-pointer': value => /^(\/([^~/]|~[01])*)*$/.test(value),
+  regex: value => canParse(() => new RegExp(value, 'u'))
+};
+
+function canParse(parse: () => unknown): boolean {
+  try {
+    parse();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Escape a property name for use in a JSON pointer (RFC 6901)
+ */
+export function escapePointer(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Follow a local reference such as '#/components/schemas/User'
+ */
+export function resolvePointer(root: unknown, ref: string): unknown {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Only local schema references are supported: ${ref}`);
+  }
+  return ref
+    .slice(1)
+    .split('/')
+    .slice(1)
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, segment) => {
+      const next = (node as Record<string, unknown> | undefined)?.[segment];
+      if (next === undefined) {
+        throw new Error(`Unresolvable schema reference: ${ref}`);
+      }
+      return next;
+    }, root);
+}
+
+export function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Equality as JSON Schema defines it for enum, const and uniqueItems: key order is ignored
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => deepEqual(item, b[index]))
+    );
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  return (
+    keys.length === Object.keys(right).length &&
+    keys.every(key => Object.hasOwn(right, key) && deepEqual(left[key], right[key]))
+  );
+}
+
+/**
+ * Schema declaring `$anchor` or `$dynamicAnchor` `name` anywhere within `node`
+ */
+function findAnchor(node: unknown, name: string): JsonSchema | undefined {
+  if (typeof node !== 'object' || node === null) {
+    return undefined;
+  }
+  const schema = node as JsonSchema;
+  if (schema.$anchor === name || schema.$dynamicAnchor === name) {
+    return schema;
+  }
+  for (const child of Object.values(node)) {
+    const found = findAnchor(child, name);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Object properties and array indexes a schema successfully evaluated, which
+ * unevaluatedProperties and unevaluatedItems then skip
+ */
+interface Evaluated {
+  properties: Set<string>;
+  items: Set<number>;
+}
+
+interface ValidationContext {
+  /** Document the schema being applied belongs to */
+  root: unknown;
+  schemas: Record<string, JsonSchema>;
+  violations: SchemaViolation[];
+}
+
+function mergeEvaluated(into: Evaluated, from: Evaluated): void {
+  from.properties.forEach(property => into.properties.add(property));
+  from.items.forEach(index => into.items.add(index));
+}
+
+/**
+ * Target of a `$ref`: a JSON pointer or anchor fragment, optionally in a document known by `$id`
+ */
+function resolveRef(
+  ref: string,
+  context: ValidationContext
+): { schema: JsonSchemaDefinition; root: unknown } {
+  const hashIndex = ref.indexOf('#');
+  const base = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+  let root = context.root;
+  if (base && base !== (root as JsonSchema | undefined)?.$id) {
+    root = context.schemas[base];
+    if (root === undefined) {
+      throw new Error(`Unresolvable schema reference: ${ref}`);
+    }
+  }
+  if (fragment === '' || fragment.startsWith('/')) {
+    return { schema: resolvePointer(root, `#${fragment}`) as JsonSchemaDefinition, root };
+  }
+  const anchored = findAnchor(root, fragment);
+  if (!anchored) {
+    throw new Error(`Unresolvable schema anchor: ${ref}`);
+  }
+  return { schema: anchored, root };
+}
+
+/**
+ * Validate `data` against `schema`, returning every violation found (empty when valid)
+ */
+export function validateJsonSchema(
+  schema: JsonSchemaDefinition,
+  data: unknown,
+  options: SchemaValidationOptions = {}
+): SchemaViolation[] {
+  const schemas: Record<string, JsonSchema> = { ...options.schemas };
+  if (typeof schema === 'object' && schema.$id) {
+    schemas[schema.$id] = schema;
+  }
+  const context: ValidationContext = { root: options.root ?? schema, schemas, violations: [] };
+  validateNode(schema, data, '', '', context);
+  return context.violations;
+}
+
+/**
+ * Apply a schema without reporting: whether it matched, what it evaluated and why it failed
+ */
+function probe(
+  schema: JsonSchemaDefinition,
+  value: unknown,
+  pointer: string,
+  schemaPath: string,
+  context: ValidationContext
+): { valid: boolean; evaluated: Evaluated; violations: SchemaViolation[] } {
+  const scratch: ValidationContext = { ...context, violations: [] };
+  const evaluated = validateNode(schema, value, pointer, schemaPath, scratch);
+  return { valid: scratch.violations.length === 0, evaluated, violations: scratch.violations };
+}
+
+/**
+ * First violation of the closest failing branch, to explain an anyOf/oneOf mismatch
+ */
+function closestMismatch(branches: Array<{ violations: SchemaViolation[] }>): string {
+  const closest = [...branches].sort((a, b) => a.violations.length - b.violations.length)[0];
+  const first = closest?.violations[0];
+  return first ? `; closest: ${first.pointer || '/'} ${first.message}` : '';
+}
+
+type Fail = (keyword: string, message: string, pointer?: string) => void;
+
+function validateNode(
+  schema: JsonSchemaDefinition,
+  value: unknown,
+  pointer: string,
+  schemaPath: string,
+  context: ValidationContext
+): Evaluated {
+  const evaluated: Evaluated = { properties: new Set(), items: new Set() };
+  if (schema === true) {
+    return evaluated;
+  }
+  if (schema === false) {
+    context.violations.push({ pointer, keyword: 'false', message: 'is not allowed', schemaPath });
+    return evaluated;
+  }
+
+  const fail: Fail = (keyword, message, at = pointer) =>
+    context.violations.push({
+      pointer: at,
+      keyword,
+      message,
+      schemaPath: `${schemaPath}/${keyword}`
+    });
+  // In-place applicators report through `context`; their annotations only count when they pass
+  const apply = (member: JsonSchemaDefinition, memberPath: string, memberContext = context) => {
+    const before = memberContext.violations.length;
+    const fullPath = `${schemaPath}/${memberPath}`;
+    const result = validateNode(member, value, pointer, fullPath, memberContext);
+    if (memberContext.violations.length === before) {
+      mergeEvaluated(evaluated, result);
+    }
+  };
+
+  for (const keyword of ['$ref', '$dynamicRef'] as const) {
+    const ref = schema[keyword];
+    if (ref) {
+      const target = resolveRef(ref, context);
+      apply(target.schema, keyword, { ...context, root: target.root });
+    }
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const allowed = schema.nullable ? [...types, 'null' as const] : types;
+    if (!allowed.some(type => matchesType(value, type))) {
+      fail('type', `expected ${allowed.join(' or ')} but got ${typeOf(value)}`);
+      return evaluated;
+    }
+  }
+  if (value === null && schema.nullable) {
+    return evaluated;
+  }
+
+  if (schema.enum && !schema.enum.some(option => deepEqual(option, value))) {
+    fail('enum', `must be one of ${JSON.stringify(schema.enum)} but was ${JSON.stringify(value)}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    fail('const', `must equal ${JSON.stringify(schema.const)} but was ${JSON.stringify(value)}`);
+  }
+
+  if (typeof value === 'number') {
+    validateNumber(schema, value, fail);
+  }
+  if (typeof value === 'string') {
+    validateString(schema, value, fail);
+  }
+  if (Array.isArray(value)) {
+    validateArray(schema, value, pointer, schemaPath, context, evaluated, fail);
+  }
+  const record = typeOf(value) === 'object' ? (value as Record<string, unknown>) : undefined;
+  if (record) {
+    validateObject(schema, record, pointer, schemaPath, context, evaluated, fail);
+    for (const [property, dependent] of Object.entries(schema.dependentSchemas ?? {})) {
+      if (Object.hasOwn(record, property)) {
+        apply(dependent, `dependentSchemas/${escapePointer(property)}`);
+      }
+    }
+  }
+
+  schema.allOf?.forEach((member, index) => apply(member, `allOf/${index}`));
+
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map((member, index) =>
+      probe(member, value, pointer, `${schemaPath}/anyOf/${index}`, context)
+    );
+    const matching = branches.filter(branch => branch.valid);
+    matching.forEach(branch => mergeEvaluated(evaluated, branch.evaluated));
+    if (matching.length === 0) {
+      fail('anyOf', `must match at least one anyOf schema${closestMismatch(branches)}`);
+    }
+  }
+
+  if (schema.oneOf) {
+    const branches = schema.oneOf.map((member, index) =>
+      probe(member, value, pointer, `${schemaPath}/oneOf/${index}`, context)
+    );
+    const matching = branches.flatMap((branch, index) => (branch.valid ? [index] : []));
+    const [only] = matching;
+    if (matching.length === 1 && only !== undefined) {
+      mergeEvaluated(evaluated, (branches[only] as (typeof branches)[number]).evaluated);
+    } else if (matching.length === 0) {
+      fail('oneOf', `must match exactly one oneOf schema${closestMismatch(branches)}`);
+    } else {
+      fail('oneOf', `must match exactly one oneOf schema but matched ${matching.join(', ')}`);
+    }
+  }
+
+  if (schema.not !== undefined) {
+    if (probe(schema.not, value, pointer, `${schemaPath}/not`, context).valid) {
+      fail('not', 'must not match the "not" schema');
+    }
+  }
+
+  if (schema.if !== undefined) {
+    const condition = probe(schema.if, value, pointer, `${schemaPath}/if`, context);
+    if (condition.valid) {
+      mergeEvaluated(evaluated, condition.evaluated);
+    }
+    const branch = condition.valid ? schema.then : schema.else;
+    if (branch !== undefined) {
+      apply(branch, condition.valid ? 'then' : 'else');
+    }
+  }
+
+  // Last, so they see the annotations of every keyword above, including $ref and composition
+  if (Array.isArray(value) && schema.unevaluatedItems !== undefined) {
+    const unevaluatedItems = schema.unevaluatedItems;
+    value.forEach((item, index) => {
+      if (!evaluated.items.has(index)) {
+        const itemPath = `${schemaPath}/unevaluatedItems`;
+        validateNode(unevaluatedItems, item, `${pointer}/${index}`, itemPath, context);
+        evaluated.items.add(index);
+      }
+    });
+  }
+  if (record && schema.unevaluatedProperties !== undefined) {
+    const unevaluatedProperties = schema.unevaluatedProperties;
+    for (const [key, child] of Object.entries(record)) {
+      if (!evaluated.properties.has(key)) {
+        const childPointer = `${pointer}/${escapePointer(key)}`;
+        const propertyPath = `${schemaPath}/unevaluatedProperties`;
+        validateNode(unevaluatedProperties, child, childPointer, propertyPath, context);
+        evaluated.properties.add(key);
+      }
+    }
+  }
+
+  return evaluated;
+}
+
+function validateNumber(schema: JsonSchema, value: number, fail: Fail): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    fail('minimum', `must be >= ${schema.minimum} but was ${value}`);
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    fail('maximum', `must be <= ${schema.maximum} but was ${value}`);
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    fail('exclusiveMinimum', `must be > ${schema.exclusiveMinimum} but was ${value}`);
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    fail('exclusiveMaximum', `must be < ${schema.exclusiveMaximum} but was ${value}`);
+  }
+  if (schema.multipleOf !== undefined) {
+    // Tolerate binary rounding so 0.3 counts as a multiple of 0.1
+    const quotient = value / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      fail('multipleOf', `must be a multiple of ${schema.multipleOf} but was ${value}`);
+    }
+  }
+}
+
+function validateString(schema: JsonSchema, value: string, fail: Fail): void {
+  // Lengths count code points, not UTF-16 units
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    fail('minLength', `must be at least ${schema.minLength} characters but was ${length}`);
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    fail('maxLength', `must be at most ${schema.maxLength} characters but was ${length}`);
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    fail('pattern', `must match ${schema.pattern} but was ${JSON.stringify(value)}`);
+  }
+  const format = schema.format && FORMATS[schema.format];
+  if (format && !format(value)) {
+    fail('format', `must be a valid ${schema.format} but was ${JSON.stringify(value)}`);
+  }
+}
+
+function validateArray(
+  schema: JsonSchema,
+  value: unknown[],
+  pointer: string,
+  schemaPath: string,
+  context: ValidationContext,
+  evaluated: Evaluated,
+  fail: Fail
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    fail('minItems', `must have at least ${schema.minItems} items but had ${value.length}`);
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    fail('maxItems', `must have at most ${schema.maxItems} items but had ${value.length}`);
+  }
+  if (schema.uniqueItems) {
+    value.forEach((item, index) => {
+      const first = value.findIndex(other => deepEqual(other, item));
+      if (first < index) {
+        fail('uniqueItems', `duplicates item ${first}`, `${pointer}/${index}`);
+      }
+    });
+  }
+
+  const prefixItems = schema.prefixItems ?? [];
+  prefixItems.slice(0, value.length).forEach((itemSchema, index) => {
+    const itemPath = `${schemaPath}/prefixItems/${index}`;
+    validateNode(itemSchema, value[index], `${pointer}/${index}`, itemPath, context);
+    evaluated.items.add(index);
+  });
+  if (schema.items !== undefined) {
+    const itemsPath = `${schemaPath}/items`;
+    for (let index = prefixItems.length; index < value.length; index++) {
+      validateNode(schema.items, value[index], `${pointer}/${index}`, itemsPath, context);
+      evaluated.items.add(index);
+    }
+  }
+
+  if (schema.contains !== undefined) {
+    const contains = schema.contains;
+    const matching = value.flatMap((item, index) =>
+      probe(contains, item, `${pointer}/${index}`, `${schemaPath}/contains`, context).valid
+        ? [index]
+        : []
+    );
+    matching.forEach(index => evaluated.items.add(index));
+    const min = schema.minContains ?? 1;
+    if (matching.length < min) {
+      fail('contains', `must contain at least ${min} matching items but had ${matching.length}`);
+    }
+    if (schema.maxContains !== undefined && matching.length > schema.maxContains) {
+      fail(
+        'maxContains',
+        `must contain at most ${schema.maxContains} matching items but had ${matching.length}`
+      );
+    }
+  }
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  pointer: string,
+  schemaPath: string,
+  context: ValidationContext,
+  evaluated: Evaluated,
+  fail: Fail
+): void {
+  const keys = Object.keys(value);
+  if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+    fail('minProperties', `must have at least ${schema.minProperties} properties`);
+  }
+  if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+    fail('maxProperties', `must have at most ${schema.maxProperties} properties`);
+  }
+  for (const key of schema.required ?? []) {
+    if (!Object.hasOwn(value, key)) {
+      fail('required', `missing required property "${key}"`);
+    }
+  }
+  for (const [key, dependencies] of Object.entries(schema.dependentRequired ?? {})) {
+    for (const dependency of Object.hasOwn(value, key) ? dependencies : []) {
+      if (!Object.hasOwn(value, dependency)) {
+        fail('dependentRequired', `"${dependency}" is required when "${key}" is present`);
+      }
+    }
+  }
+
+  const patterns = Object.entries(schema.patternProperties ?? {}).map(
+    ([pattern, patternSchema]) => ({ pattern, regex: new RegExp(pattern, 'u'), patternSchema })
+  );
+  for (const [key, child] of Object.entries(value)) {
+    const childPointer = `${pointer}/${escapePointer(key)}`;
+    let matched = false;
+
+    if (schema.propertyNames !== undefined) {
+      validateNode(schema.propertyNames, key, childPointer, `${schemaPath}/propertyNames`, context);
+    }
+    if (schema.properties && Object.hasOwn(schema.properties, key)) {
+      const propertySchema = schema.properties[key] as JsonSchemaDefinition;
+      const propertyPath = `${schemaPath}/properties/${escapePointer(key)}`;
+      validateNode(propertySchema, child, childPointer, propertyPath, context);
+      matched = true;
+    }
+    for (const { pattern, regex, patternSchema } of patterns) {
+      if (regex.test(key)) {
+        const patternPath = `${schemaPath}/patternProperties/${escapePointer(pattern)}`;
+        validateNode(patternSchema, child, childPointer, patternPath, context);
+        matched = true;
+      }
+    }
+    if (!matched && schema.additionalProperties === false) {
+      fail('additionalProperties', 'is not allowed', childPointer);
+    } else if (!matched && schema.additionalProperties !== undefined) {
+      const additionalPath = `${schemaPath}/additionalProperties`;
+      validateNode(schema.additionalProperties, child, childPointer, additionalPath, context);
+    }
+    if (matched || schema.additionalProperties !== undefined) {
+      evaluated.properties.add(key);
+    }
+  }
+}
@@ -1,7 +1,33 @@
+import { REDACTED, SecretManager } from './secrets';
 import winston from 'winston';
 import path from 'path';
 import fs from 'fs';
 
+/**
+ * Mask Secrets, sensitive keys and known secret values before any transport writes them
+ */
+const redactSecrets = winston.format(info => {
+  for (const key of Object.keys(info)) {
+    info[key] =
+      key !== 'message' && SecretManager.isSensitiveKey(key) && typeof info[key] !== 'object'
+        ? REDACTED
+        : SecretManager.redact(info[key]);
+  }
+  return info;
+});
+
+/**
+ * Where a request stands in its retry sequence
+ */
+export interface ApiAttempt {
+  attempt: number;
+  maxAttempts: number;
+  /** Set when the attempt failed and another one follows after this delay */
+  retryInMs?: number;
+  /** Why the attempt failed, e.g. 'ECONNRESET' or 'HTTP 502' */
+  reason?: string;
+}
+
 /**
  * Enhanced Logger utility with multiple transports and formatting
  */
@@ -79,7 +105,7 @@ class Logger {
 
     return winston.createLogger({
       level: process.env.LOG_LEVEL || 'info',
-      format: logFormat,
+      format: winston.format.combine(redactSecrets(), logFormat),
       transports,
       exitOnError: false
     });
@@ -129,20 +155,23 @@ class Logger {
     });
   }
 
-  elementInteraction(action: string, selector: string, value?: string): void {
+  elementInteraction(action: string, selector: string, value?: string, sensitive = false): void {
+    const masked = sensitive || /password|passwd|secret|token/i.test(selector);
     this.logger.debug('🖱️ Element Interaction', {
       action,
       selector,
-      value,
+      value: masked && value !== undefined ? REDACTED : value,
       event: 'ELEMENT_INTERACTION'
     });
   }
 
-  apiRequest(method: string, url: string, status?: number): void {
-    this.logger.info('🔄 API Request', {
+  apiRequest(method: string, url: string, status?: number, attempt?: ApiAttempt): void {
+    const retrying = attempt?.retryInMs !== undefined;
+    this.logger.info(retrying ? '🔁 API Request Retry' : '🔄 API Request', {
       method,
       url,
       status,
+      ...attempt,
       event: 'API_REQUEST'
     });
   }
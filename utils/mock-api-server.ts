@@ -0,0 +1,503 @@
+import { AddressInfo, Socket } from 'net';
+import { CassetteFile, RecordedResponse } from './vcr';
+import { HTTP_METHODS, OpenApiMediaType, OpenApiResponse, loadOpenApiDocument } from './openapi';
+import { IncomingMessage, ServerResponse } from 'http';
+import { JsonSchema, deepEqual, resolvePointer } from './json-schema';
+import fs from 'fs';
+import http from 'http';
+import { logger } from './logger';
+import path from 'path';
+import { seededRandom } from './test-data-manager';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  /** Values of the route's :name or {name} segments */
+  params: Record<string, string>;
+  query: Record<string, string | string[]>;
+  headers: Record<string, string | string[] | undefined>;
+  /** Parsed JSON, text, or undefined without a body */
+  body: unknown;
+}
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Strings and buffers are sent as they are, anything else as JSON */
+  body?: unknown;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+/**
+ * Sets up the routes of a mock; runs again on every reset, so state it creates starts over
+ */
+export type MockSetup = (mock: MockApiServer) => void | Promise<void>;
+
+/**
+ * Latency and faults of a route
+ */
+export interface MockBehaviour {
+  /** Delay before answering in ms, fixed or drawn from [min, max] */
+  latencyMs?: number | [number, number];
+  /**
+   * Instead of the handler's response: an HTTP status, a reset connection, or no answer at
+   * all so the client times out
+   */
+  failWith?: number | 'reset' | 'timeout';
+  /** Share of requests (0-1) that fail; default 1 */
+  failureRate?: number;
+}
+
+export interface MockApiServerOptions {
+  /** 0 picks a free port */
+  port?: number;
+  /** Seed of random latency and failures */
+  seed?: number | string;
+}
+
+/**
+ * A request the mock received, with the route that answered it
+ */
+export interface MockJournalEntry {
+  method: string;
+  path: string;
+  route: string | undefined;
+  status: number | 'reset' | 'timeout';
+  timestamp: string;
+}
+
+interface MockRoute {
+  spec: string;
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  query?: Record<string, string | string[]>;
+  handler: MockHandler;
+  behaviour: MockBehaviour;
+}
+
+/**
+ * "GET /users/:id", "/users/{id}" (any method) or "* /health"
+ */
+function parseRouteSpec(spec: string): Pick<MockRoute, 'method' | 'pattern' | 'keys'> {
+  const [first = '', second] = spec.trim().split(/\s+/);
+  const method = second === undefined ? '*' : first.toUpperCase();
+  const template = second ?? first;
+  const keys: string[] = [];
+  const source = template
+    .split('/')
+    .map(segment => {
+      const name = /^:(\w+)$/.exec(segment)?.[1] ?? /^\{(\w+)\}$/.exec(segment)?.[1];
+      if (name) {
+        keys.push(name);
+        return '([^/]+)';
+      }
+      return segment === '*' ? '.*' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return { method, pattern: new RegExp(`^${source}/?$`), keys };
+}
+
+/**
+ * Example value of a schema: its example, default, const or first enum value, else a
+ * value of its type
+ */
+export function exampleFromSchema(schema: JsonSchema, root: unknown, depth = 0): unknown {
+  if (schema.$ref) {
+    return exampleFromSchema(resolvePointer(root, schema.$ref) as JsonSchema, root, depth);
+  }
+  const given = schema.example ?? schema.examples?.[0] ?? schema.default ?? schema.const;
+  if (given !== undefined) {
+    return given;
+  }
+  if (schema.enum) {
+    return schema.enum[0];
+  }
+  const [variant] = (schema.allOf ?? schema.oneOf ?? schema.anyOf ?? []) as JsonSchema[];
+  if (variant && !schema.type) {
+    return exampleFromSchema(variant, root, depth);
+  }
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  switch (type ?? (schema.properties ? 'object' : undefined)) {
+    case 'object': {
+      if (depth > 8) {
+        return {};
+      }
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          typeof property === 'boolean' ? null : exampleFromSchema(property, root, depth + 1)
+        ])
+      );
+    }
+    case 'array': {
+      const items = schema.items;
+      return items && typeof items === 'object' && depth <= 8
+        ? [exampleFromSchema(items, root, depth + 1)]
+        : [];
+    }
+    case 'integer':
+      return schema.minimum ?? 1;
+    case 'number':
+      return schema.minimum ?? 1.5;
+    case 'boolean':
+      return true;
+    case 'string':
+      return (
+        {
+          'date-time': '2024-01-01T00:00:00Z',
+          date: '2024-01-01',
+          email: 'user@example.com',
+          uri: 'https://example.com',
+          uuid: '00000000-0000-4000-8000-000000000000'
+        }[schema.format ?? ''] ?? 'string'
+      );
+    default:
+      return null;
+  }
+}
+
+function exampleOf(media: OpenApiMediaType, root: unknown): unknown {
+  if (media.example !== undefined) {
+    return media.example;
+  }
+  const [named] = Object.values(media.examples ?? {});
+  if (named?.value !== undefined) {
+    return named.value;
+  }
+  return media.schema ? exampleFromSchema(media.schema, root) : undefined;
+}
+
+function replayBody(recorded: RecordedResponse): unknown {
+  return recorded.encoding === 'base64'
+    ? Buffer.from(recorded.body as string, 'base64')
+    : recorded.body;
+}
+
+/**
+ * Local HTTP server answering with handlers defined in TypeScript, responses recorded in
+ * cassettes, or examples of an OpenAPI document. Routes added last win, so a test can
+ * override what its setup defined.
+ */
+export class MockApiServer {
+  private routes: MockRoute[] = [];
+  private behaviours: Array<{
+    matches: (request: MockRequest) => boolean;
+    behaviour: MockBehaviour;
+  }> = [];
+  private readonly sockets = new Set<Socket>();
+  private server: http.Server | undefined;
+  private random: () => number;
+  /** Requests received since the last reset */
+  readonly journal: MockJournalEntry[] = [];
+
+  constructor(
+    private readonly setup: MockSetup | undefined,
+    private readonly options: MockApiServerOptions = {}
+  ) {
+    this.random = seededRandom(options.seed ?? 0);
+  }
+
+  /**
+   * Start a server and run its setup
+   */
+  static async start(
+    setup?: MockSetup,
+    options: MockApiServerOptions = {}
+  ): Promise<MockApiServer> {
+    const mock = new MockApiServer(setup, options);
+    await mock.listen();
+    return mock;
+  }
+
+  /**
+   * Setup of a module path whose default export is a MockSetup
+   */
+  static loadSetup(file: string): MockSetup {
+    // require rather than import(): Playwright only compiles TypeScript loaded through require
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const module = require(path.resolve(file)) as { default?: MockSetup };
+    if (typeof module.default !== 'function') {
+      throw new Error(`Mock setup ${file} has no default export function`);
+    }
+    return module.default;
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Mock API server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  private async listen(): Promise<void> {
+    const server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        logger.error('Mock API handler failed', error as Error);
+        if (!response.headersSent) {
+          response.writeHead(500, { 'content-type': 'application/json' });
+        }
+        response.end(JSON.stringify({ error: (error as Error).message }));
+      });
+    });
+    server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, '127.0.0.1', resolve);
+    });
+    this.server = server;
+    await this.setup?.(this);
+    logger.info(`Mock API server listening on ${this.url}`, { routes: this.routes.length });
+  }
+
+  /**
+   * Answer requests matching `spec` with a handler or a fixed response
+   */
+  route(spec: string, handler: MockHandler | MockResponse, behaviour: MockBehaviour = {}): this {
+    this.routes.push({
+      spec,
+      ...parseRouteSpec(spec),
+      handler: typeof handler === 'function' ? handler : () => handler,
+      behaviour
+    });
+    return this;
+  }
+
+  private routeQuery(spec: string, query: Record<string, string | string[]>, handler: MockHandler) {
+    this.route(spec, handler);
+    (this.routes[this.routes.length - 1] as MockRoute).query = query;
+  }
+
+  /**
+   * Add latency or faults to requests matching `spec`, whichever route answers them
+   */
+  inject(spec: string, behaviour: MockBehaviour): this {
+    const { method, pattern } = parseRouteSpec(spec);
+    this.behaviours.push({
+      matches: request =>
+        (method === '*' || method === request.method) && pattern.test(request.path),
+      behaviour
+    });
+    return this;
+  }
+
+  /**
+   * Answer with recorded responses of a cassette file or a directory of them. Identical
+   * requests get their responses in recorded order, the last one repeating.
+   */
+  loadCassettes(fileOrDir: string): this {
+    const files = fs.statSync(fileOrDir).isDirectory()
+      ? fs
+          .readdirSync(fileOrDir, { recursive: true, encoding: 'utf-8' })
+          .filter(file => file.endsWith('.json'))
+          .map(file => path.join(fileOrDir, file))
+      : [fileOrDir];
+    const groups = new Map<
+      string,
+      { spec: string; query: Record<string, string | string[]>; responses: RecordedResponse[] }
+    >();
+    for (const file of files) {
+      const cassette = JSON.parse(fs.readFileSync(file, 'utf-8')) as CassetteFile;
+      for (const { request, response } of cassette.interactions) {
+        if (!response) {
+          continue;
+        }
+        const spec = `${request.method} ${request.path}`;
+        const key = `${spec} ${JSON.stringify(request.query)}`;
+        const group = groups.get(key) ?? { spec, query: request.query, responses: [] };
+        group.responses.push(response);
+        groups.set(key, group);
+      }
+    }
+    for (const { spec, query, responses } of groups.values()) {
+      let next = 0;
+      this.routeQuery(spec, query, () => {
+        const recorded = responses[Math.min(next++, responses.length - 1)] as RecordedResponse;
+        const contentType = recorded.headers['content-type'];
+        return {
+          status: recorded.status,
+          ...(typeof contentType === 'string' && { headers: { 'content-type': contentType } }),
+          body: replayBody(recorded)
+        };
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Answer every operation of an OpenAPI document with the example of its first success
+   * response: the media type's example, else one built from its schema
+   */
+  loadOpenApi(specFile: string): this {
+    const document = loadOpenApiDocument(specFile);
+    const deref = <T extends object>(value: T | { $ref: string }): T =>
+      '$ref' in value ? (resolvePointer(document, value.$ref) as T) : value;
+    const routes: Array<[string, MockResponse]> = [];
+    for (const [template, item] of Object.entries(document.paths)) {
+      for (const method of HTTP_METHODS) {
+        const operation = item[method];
+        if (!operation) {
+          continue;
+        }
+        const [status = '200', declared] =
+          Object.entries(operation.responses).find(([code]) => /^2/.test(code)) ??
+          Object.entries(operation.responses)[0] ??
+          [];
+        const response = declared ? deref<OpenApiResponse>(declared) : {};
+        const [contentType, media] = Object.entries(response.content ?? {})[0] ?? [];
+        routes.push([
+          `${method.toUpperCase()} ${template}`,
+          {
+            status: Number(status) || 200,
+            ...(contentType && { headers: { 'content-type': contentType } }),
+            ...(media && { body: exampleOf(media, document) })
+          }
+        ]);
+      }
+    }
+    // Templated paths first, so '/products/search' added after '/products/{id}' wins
+    const templated = ([spec]: [string, MockResponse]) => (spec.includes('{') ? 0 : 1);
+    for (const [spec, response] of routes.sort((a, b) => templated(a) - templated(b))) {
+      this.route(spec, response);
+    }
+    return this;
+  }
+
+  /**
+   * Drop routes, behaviours and journal, and run the setup again
+   */
+  async reset(): Promise<void> {
+    this.routes = [];
+    this.behaviours = [];
+    this.journal.length = 0;
+    this.random = seededRandom(this.options.seed ?? 0);
+    await this.setup?.(this);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private findRoute(request: MockRequest): MockRoute | undefined {
+    for (let index = this.routes.length - 1; index >= 0; index--) {
+      const route = this.routes[index] as MockRoute;
+      const match = route.pattern.exec(request.path);
+      const methodMatches = route.method === '*' || route.method === request.method;
+      if (!match || !methodMatches) {
+        continue;
+      }
+      if (route.query && !deepEqual(route.query, request.query)) {
+        continue;
+      }
+      request.params = Object.fromEntries(
+        route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1] ?? '')])
+      );
+      return route;
+    }
+    return undefined;
+  }
+
+  private async handle(incoming: IncomingMessage, outgoing: ServerResponse): Promise<void> {
+    const url = new URL(incoming.url ?? '/', 'http://localhost');
+    const query: Record<string, string | string[]> = {};
+    for (const key of new Set(url.searchParams.keys())) {
+      const values = url.searchParams.getAll(key);
+      query[key] = values.length === 1 ? (values[0] as string) : values;
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of incoming) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString('utf-8');
+    let body: unknown = raw === '' ? undefined : raw;
+    if (raw && /json/.test(incoming.headers['content-type'] ?? '')) {
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        // Answered by the handler as it sees fit
+      }
+    }
+    const request: MockRequest = {
+      method: (incoming.method ?? 'GET').toUpperCase(),
+      path: url.pathname,
+      params: {},
+      query,
+      headers: incoming.headers,
+      body
+    };
+
+    const route = this.findRoute(request);
+    const behaviour: MockBehaviour = Object.assign(
+      {},
+      route?.behaviour,
+      ...this.behaviours.filter(entry => entry.matches(request)).map(entry => entry.behaviour)
+    );
+    const record = (status: MockJournalEntry['status']) =>
+      this.journal.push({
+        method: request.method,
+        path: request.path,
+        route: route?.spec,
+        status,
+        timestamp: new Date().toISOString()
+      });
+
+    const { latencyMs, failWith, failureRate = 1 } = behaviour;
+    if (latencyMs !== undefined) {
+      const [min, max] = Array.isArray(latencyMs) ? latencyMs : [latencyMs, latencyMs];
+      await new Promise(resolve => setTimeout(resolve, min + (max - min) * this.random()));
+    }
+    if (failWith !== undefined && this.random() < failureRate) {
+      record(failWith);
+      if (failWith === 'reset') {
+        incoming.socket.destroy();
+      } else if (typeof failWith === 'number') {
+        outgoing.writeHead(failWith, { 'content-type': 'application/json' });
+        outgoing.end(JSON.stringify({ error: `Injected failure (HTTP ${failWith})` }));
+      }
+      // 'timeout' leaves the request open until the client gives up or the server stops
+      return;
+    }
+
+    if (!route) {
+      record(404);
+      logger.warn(`Mock API has no route for ${request.method} ${request.path}`);
+      outgoing.writeHead(404, { 'content-type': 'application/json' });
+      outgoing.end(
+        JSON.stringify({ error: `No mock route for ${request.method} ${request.path}` })
+      );
+      return;
+    }
+
+    const response = await route.handler(request);
+    const status = response.status ?? 200;
+    const json =
+      response.body !== undefined &&
+      typeof response.body !== 'string' &&
+      !Buffer.isBuffer(response.body);
+    record(status);
+    outgoing.writeHead(status, {
+      ...(json && { 'content-type': 'application/json' }),
+      ...response.headers
+    });
+    outgoing.end(
+      response.body === undefined
+        ? undefined
+        : json
+          ? JSON.stringify(response.body)
+          : (response.body as string | Buffer)
+    );
+  }
+}
@@ -0,0 +1,289 @@
+import { BrowserContext, Page, Request, Route, TestInfo } from '@playwright/test';
+import fs from 'fs';
+import { logger } from './logger';
+import { seededRandom } from './test-data-manager';
+
+/**
+ * Error codes Playwright can abort a request with
+ */
+export type DropReason =
+  | 'aborted'
+  | 'connectionaborted'
+  | 'connectionclosed'
+  | 'connectionfailed'
+  | 'connectionrefused'
+  | 'connectionreset'
+  | 'internetdisconnected'
+  | 'timedout'
+  | 'failed';
+
+/**
+ * Faults for the requests a rule matches. Latency comes first; then a request is dropped,
+ * failed with a status, or sent to the server with its response throttled or corrupted.
+ */
+export interface ChaosRule {
+  /** Label in the report; 'rule <n>' otherwise */
+  name?: string;
+  /** URL glob or pattern, as page.route takes it */
+  url: string | RegExp;
+  methods?: string[];
+  /** Playwright resource types, e.g. ['fetch', 'xhr'] */
+  resourceTypes?: string[];
+  /** Share of matching requests (0-1) the faults apply to; default 1 */
+  rate?: number;
+  /** Delay before the request goes out in ms, fixed or drawn from [min, max] */
+  latencyMs?: number | [number, number];
+  /** Answer with one of these statuses instead of the server's response */
+  failWith?: number | number[];
+  /** Abort the request as if the connection failed; true means connectionreset */
+  drop?: boolean | DropReason;
+  /** Response bandwidth in kilobits per second */
+  throttleKbps?: number;
+  /** Truncate JSON response bodies so they no longer parse */
+  corruptJson?: boolean;
+}
+
+/**
+ * A request chaos changed, and how
+ */
+export interface AppliedFault {
+  rule: string;
+  method: string;
+  url: string;
+  faults: string[];
+  timestamp: string;
+}
+
+/**
+ * Latency on everything and a few failing API calls, for CHAOS=true without CHAOS_RULES
+ */
+export const DEFAULT_CHAOS_RULES: ChaosRule[] = [
+  { name: 'slow network', url: '**/*', latencyMs: [50, 500] },
+  {
+    name: 'flaky API',
+    url: '**/*',
+    resourceTypes: ['fetch', 'xhr'],
+    rate: 0.05,
+    failWith: [500, 502, 503]
+  }
+];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Seeded network faults for pages and browser contexts. Each request draws from a random
+ * sequence of its own per rule, keyed by the seed, its method and URL and how often that URL
+ * was requested before, so a run with the same seed gets the same faults however the browser
+ * orders concurrent requests.
+ */
+export class NetworkChaos {
+  private readonly rules: ChaosRule[] = [];
+  private readonly targets: Array<Page | BrowserContext> = [];
+  private readonly handlers = new Map<ChaosRule, (route: Route) => Promise<void>>();
+  private readonly occurrences = new Map<string, number>();
+  private readonly requests = new WeakSet<Request>();
+  private requestCount = 0;
+  /** Faults applied so far, in order */
+  readonly applied: AppliedFault[] = [];
+
+  constructor(readonly seed: number = Math.floor(Math.random() * 2 ** 31)) {}
+
+  /**
+   * Start chaos on a page or context with the given rules
+   */
+  static async apply(
+    target: Page | BrowserContext,
+    rules: ChaosRule[],
+    seed?: number
+  ): Promise<NetworkChaos> {
+    const chaos = new NetworkChaos(seed);
+    await chaos.attach(target);
+    await chaos.add(...rules);
+    return chaos;
+  }
+
+  /**
+   * Rules of a JSON file holding an array of ChaosRule (URLs as globs)
+   */
+  static loadRules(file: string): ChaosRule[] {
+    const rules = JSON.parse(fs.readFileSync(file, 'utf-8')) as unknown;
+    if (!Array.isArray(rules)) {
+      throw new Error(`Chaos rules file ${file} must hold an array of rules`);
+    }
+    return rules as ChaosRule[];
+  }
+
+  get active(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * Route a page or context through the current and future rules
+   */
+  async attach(target: Page | BrowserContext): Promise<void> {
+    this.targets.push(target);
+    for (const rule of this.rules) {
+      await target.route(rule.url, this.handlerFor(rule));
+    }
+  }
+
+  /**
+   * Add rules; rules added later see a request first
+   */
+  async add(...rules: ChaosRule[]): Promise<void> {
+    for (const rule of rules) {
+      this.rules.push(rule);
+      for (const target of this.targets) {
+        await target.route(rule.url, this.handlerFor(rule));
+      }
+      logger.debug(`Network chaos rule added: ${this.nameOf(rule)}`, { seed: this.seed });
+    }
+  }
+
+  /**
+   * Remove every rule from the attached pages and contexts
+   */
+  async clear(): Promise<void> {
+    for (const target of this.targets) {
+      for (const [rule, handler] of this.handlers) {
+        await target.unroute(rule.url, handler).catch(() => undefined);
+      }
+    }
+    this.rules.length = 0;
+    this.handlers.clear();
+  }
+
+  /**
+   * Summary line with the seed that reproduces this run
+   */
+  describe(): string {
+    return (
+      `seed ${this.seed}: ${this.applied.length} fault(s) on ${this.requestCount} request(s); ` +
+      `reproduce with CHAOS_SEED=${this.seed}`
+    );
+  }
+
+  /**
+   * Add the seed as an annotation and the rules and applied faults as an attachment
+   */
+  async report(testInfo: TestInfo): Promise<void> {
+    if (!this.active && this.applied.length === 0) {
+      return;
+    }
+    testInfo.annotations.push({ type: 'network-chaos', description: this.describe() });
+    await testInfo.attach('network-chaos', {
+      body: JSON.stringify(
+        {
+          seed: this.seed,
+          rules: this.rules.map(rule => ({ ...rule, url: String(rule.url) })),
+          applied: this.applied
+        },
+        null,
+        2
+      ),
+      contentType: 'application/json'
+    });
+  }
+
+  private nameOf(rule: ChaosRule): string {
+    return rule.name ?? `rule ${this.rules.indexOf(rule) + 1}`;
+  }
+
+  private randomFor(rule: ChaosRule, request: Request): () => number {
+    const key = `${this.rules.indexOf(rule)}:${request.method()} ${request.url()}`;
+    const occurrence = this.occurrences.get(key) ?? 0;
+    this.occurrences.set(key, occurrence + 1);
+    return seededRandom(`${this.seed}:${key}:${occurrence}`);
+  }
+
+  private handlerFor(rule: ChaosRule): (route: Route) => Promise<void> {
+    const existing = this.handlers.get(rule);
+    if (existing) {
+      return existing;
+    }
+    const handler = async (route: Route) => {
+      const request = route.request();
+      const matches =
+        (!rule.methods || rule.methods.some(m => m.toUpperCase() === request.method())) &&
+        (!rule.resourceTypes || rule.resourceTypes.includes(request.resourceType()));
+      if (!matches) {
+        await route.fallback();
+        return;
+      }
+      if (!this.requests.has(request)) {
+        this.requests.add(request);
+        this.requestCount++;
+      }
+      const random = this.randomFor(rule, request);
+      if (random() >= (rule.rate ?? 1)) {
+        await route.fallback();
+        return;
+      }
+      const faults = await this.applyRule(rule, route, random);
+      if (faults.length > 0) {
+        this.applied.push({
+          rule: this.nameOf(rule),
+          method: request.method(),
+          url: request.url(),
+          faults,
+          timestamp: new Date().toISOString()
+        });
+        logger.debug(`Network chaos on ${request.method()} ${request.url()}: ${faults.join(', ')}`);
+      }
+    };
+    this.handlers.set(rule, handler);
+    return handler;
+  }
+
+  private async applyRule(rule: ChaosRule, route: Route, random: () => number): Promise<string[]> {
+    const faults: string[] = [];
+    if (rule.latencyMs !== undefined) {
+      const [min, max] = Array.isArray(rule.latencyMs)
+        ? rule.latencyMs
+        : [rule.latencyMs, rule.latencyMs];
+      const ms = Math.round(min + (max - min) * random());
+      faults.push(`latency ${ms}ms`);
+      await delay(ms);
+    }
+
+    if (rule.drop) {
+      const reason = rule.drop === true ? 'connectionreset' : rule.drop;
+      faults.push(`dropped (${reason})`);
+      await route.abort(reason);
+      return faults;
+    }
+
+    if (rule.failWith !== undefined) {
+      const statuses = Array.isArray(rule.failWith) ? rule.failWith : [rule.failWith];
+      const status = statuses[Math.floor(random() * statuses.length)] ?? 500;
+      faults.push(`status ${status}`);
+      await route.fulfill({
+        status,
+        contentType: 'application/json',
+        body: JSON.stringify({ error: `Injected by network chaos (HTTP ${status})` })
+      });
+      return faults;
+    }
+
+    if (rule.throttleKbps === undefined && !rule.corruptJson) {
+      await route.fallback();
+      return faults;
+    }
+
+    const response = await route.fetch();
+    let body = await response.body();
+    const contentType = response.headers()['content-type'] ?? '';
+    if (rule.corruptJson && /json/.test(contentType) && body.length > 0) {
+      // Cut somewhere before the end, so the body never parses
+      body = body.subarray(0, Math.floor(random() * body.length));
+      faults.push(`corrupted JSON (${body.length} bytes kept)`);
+    }
+    if (rule.throttleKbps !== undefined) {
+      const ms = Math.round((body.length * 8) / rule.throttleKbps);
+      faults.push(`throttled to ${rule.throttleKbps}kbps (+${ms}ms)`);
+      await delay(ms);
+    }
+    await route.fulfill({ response, body });
+    return faults;
+  }
+}
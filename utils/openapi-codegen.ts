@@ -0,0 +1,396 @@
+import { JsonSchema, JsonSchemaDefinition } from './json-schema';
+import {
+  OpenApiDocument,
+  ResolvedOperation,
+  jsonSchemaOf,
+  listOperations,
+  responseSchemaFor
+} from './openapi';
+import path from 'path';
+
+export interface GenerateClientOptions {
+  /** Name of the generated client class, e.g. 'SampleApi' */
+  className: string;
+  /** File the source will be written to, used for relative imports */
+  outFile: string;
+  /** Spec path recorded in the header comment */
+  specFile: string;
+}
+
+export interface GeneratedClient {
+  source: string;
+  /** Operations left out, e.g. HEAD or TRACE which ApiClient has no method for */
+  skipped: string[];
+}
+
+const MAX_LINE_LENGTH = 100;
+
+/** HTTP methods ApiClient has a method for, and whether that method takes a body */
+const CLIENT_METHODS: Partial<Record<ResolvedOperation['method'], boolean>> = {
+  get: false,
+  delete: false,
+  post: true,
+  put: true,
+  patch: true
+};
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function pascalCase(value: string): string {
+  const name = words(value)
+    .map(word => (word === word.toUpperCase() ? word.toLowerCase() : word))
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+export function camelCase(value: string): string {
+  const name = pascalCase(value);
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+export function kebabCase(value: string): string {
+  return words(pascalCase(value))
+    .map(word => word.toLowerCase())
+    .join('-');
+}
+
+/** Global names a generated type must not shadow */
+const RESERVED_TYPE_NAMES = new Set([
+  'Array',
+  'Boolean',
+  'Date',
+  'Error',
+  'Function',
+  'Map',
+  'Number',
+  'Object',
+  'Promise',
+  'Record',
+  'RegExp',
+  'Set',
+  'String',
+  'Symbol'
+]);
+
+/**
+ * TypeScript name of a component schema; names shadowing globals get a `Model` suffix
+ */
+export function typeName(componentName: string): string {
+  const name = pascalCase(componentName);
+  return RESERVED_TYPE_NAMES.has(name) ? `${name}Model` : name;
+}
+
+function stringLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : stringLiteral(name);
+}
+
+function indent(level: number): string {
+  return '  '.repeat(level);
+}
+
+/**
+ * TypeScript type for a schema; `$ref`s become the referenced component's type name
+ */
+export function schemaToTs(schema: JsonSchemaDefinition | undefined, level = 0): string {
+  if (schema === undefined || schema === true) {
+    return 'unknown';
+  }
+  if (schema === false) {
+    return 'never';
+  }
+  const nullable = (type: string) => (schema.nullable ? `${type} | null` : type);
+
+  if (schema.$ref) {
+    return nullable(typeName(schema.$ref.split('/').pop() ?? 'Unknown'));
+  }
+  if (schema.oneOf || schema.anyOf) {
+    const members = (schema.oneOf ?? schema.anyOf ?? []).map(member => schemaToTs(member, level));
+    return nullable(members.join(' | '));
+  }
+  if (schema.allOf) {
+    return nullable(schema.allOf.map(member => schemaToTs(member, level)).join(' & '));
+  }
+  if (schema.enum) {
+    return schema.enum.map(value => toLiteral(value)).join(' | ');
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length > 1) {
+    const members = types.map(type => schemaToTs({ ...schema, type, nullable: false }, level));
+    return nullable(members.join(' | '));
+  }
+  switch (types[0]) {
+    case 'string':
+      return nullable('string');
+    case 'number':
+    case 'integer':
+      return nullable('number');
+    case 'boolean':
+      return nullable('boolean');
+    case 'null':
+      return 'null';
+    case 'array':
+      return nullable(`Array<${schemaToTs(schema.items, level)}>`);
+    default:
+      return schema.properties || schema.additionalProperties
+        ? nullable(objectToTs(schema, level))
+        : nullable(types[0] ? 'Record<string, unknown>' : 'unknown');
+  }
+}
+
+function objectToTs(schema: JsonSchema, level: number): string {
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const description = typeof property === 'object' ? property.description : undefined;
+    const doc = description ? `${indent(level + 1)}/** ${description} */\n` : '';
+    const optional = required.has(name) ? '' : '?';
+    const type = schemaToTs(property, level + 1);
+    return `${doc}${indent(level + 1)}${propertyKey(name)}${optional}: ${type};`;
+  });
+  if (schema.additionalProperties) {
+    const valueType = schemaToTs(schema.additionalProperties, level + 1);
+    lines.push(`${indent(level + 1)}[key: string]: ${valueType};`);
+  }
+  return `{\n${lines.join('\n')}\n${indent(level)}}`;
+}
+
+/**
+ * TypeScript literal for JSON data, in the repo's style rather than JSON.stringify's
+ */
+export function toLiteral(value: unknown, level = 0): string {
+  if (typeof value === 'string') {
+    return stringLiteral(value);
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(item => toLiteral(item, level + 1));
+    if (value.every(item => typeof item !== 'object' || item === null)) {
+      return `[${items.join(', ')}]`;
+    }
+    return `[\n${items.map(item => `${indent(level + 1)}${item}`).join(',\n')}\n${indent(level)}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).filter(([, child]) => child !== undefined);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    const lines = entries.map(
+      ([key, child]) => `${indent(level + 1)}${propertyKey(key)}: ${toLiteral(child, level + 1)}`
+    );
+    return `{\n${lines.join(',\n')}\n${indent(level)}}`;
+  }
+  return String(value);
+}
+
+function declareType(name: string, schema: JsonSchema): string {
+  const doc = schema.description ? `/**\n * ${schema.description}\n */\n` : '';
+  const body = schemaToTs(schema);
+  const plainObject = !schema.$ref && !schema.allOf && !schema.oneOf && !schema.anyOf;
+  return plainObject && body.startsWith('{') && !schema.nullable
+    ? `${doc}export interface ${name} ${body}`
+    : `${doc}export type ${name} = ${body};`;
+}
+
+function importPath(fromFile: string, target: string): string {
+  const relative = path.relative(path.dirname(fromFile), target).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * Success response type of an operation, declaring a named type for inline schemas
+ */
+function responseType(
+  operation: ResolvedOperation,
+  typeName: string,
+  declarations: string[]
+): string {
+  const success = Object.keys(operation.responses)
+    .filter(key => key.startsWith('2'))
+    .sort()[0];
+  const status = Number(success?.replace(/X/g, '0'));
+  const schema = success && responseSchemaFor(operation.responses, status)?.schema;
+  if (!schema) {
+    return 'unknown';
+  }
+  if (schema.$ref) {
+    return schemaToTs(schema);
+  }
+  declarations.push(declareType(typeName, schema));
+  return typeName;
+}
+
+function generateMethod(operation: ResolvedOperation, declarations: string[]): string {
+  const name = camelCase(operation.id);
+  const typeBase = pascalCase(operation.id);
+  const args: string[] = [];
+
+  const pathParams = operation.parameters.filter(parameter => parameter.in === 'path');
+  let url = `'${operation.path}'`;
+  if (pathParams.length > 0) {
+    url = `\`${operation.path.replace(/\{([^}]+)\}/g, (_, param: string) => {
+      return `\${encodeURIComponent(String(${camelCase(param)}))}`;
+    })}\``;
+    for (const parameter of pathParams) {
+      args.push(`${camelCase(parameter.name)}: ${schemaToTs(parameter.schema)}`);
+    }
+  }
+
+  const bodySchema = jsonSchemaOf(operation.requestBody?.content);
+  if (bodySchema) {
+    const bodyType = bodySchema.$ref ? schemaToTs(bodySchema) : `${typeBase}Body`;
+    if (!bodySchema.$ref) {
+      declarations.push(declareType(bodyType, bodySchema));
+    }
+    args.push(`body: ${bodyType}${operation.requestBody?.required ? '' : ' | undefined'}`);
+  }
+
+  const queryParams = operation.parameters.filter(parameter => parameter.in === 'query');
+  if (queryParams.length > 0) {
+    const paramsType = `${typeBase}Params`;
+    declarations.push(
+      declareType(paramsType, {
+        type: 'object',
+        description: `Query parameters of ${operation.method.toUpperCase()} ${operation.path}`,
+        properties: Object.fromEntries(
+          queryParams.map(parameter => [
+            parameter.name,
+            parameter.description
+              ? { ...parameter.schema, description: parameter.description }
+              : { ...parameter.schema }
+          ])
+        ),
+        required: queryParams
+          .filter(parameter => parameter.required)
+          .map(parameter => parameter.name)
+      })
+    );
+    const optional = queryParams.every(parameter => !parameter.required);
+    args.push(optional ? `params: ${paramsType} = {}` : `params: ${paramsType}`);
+  }
+
+  const result = responseType(operation, `${typeBase}Response`, declarations);
+  const callArgs = [url];
+  if (CLIENT_METHODS[operation.method]) {
+    callArgs.push(bodySchema ? 'body' : 'undefined');
+  }
+  if (queryParams.length > 0) {
+    callArgs.push('{ params }');
+  }
+  const summary = operation.summary ?? `${operation.method.toUpperCase()} ${operation.path}`;
+
+  return [
+    `  /**`,
+    `   * ${summary}`,
+    `   */`,
+    wrapCall(`  async ${name}(`, args, `): Promise<AxiosResponse<${result}>> {`),
+    wrapCall(`    return this.client.${operation.method}<${result}>(`, callArgs, ');'),
+    `  }`
+  ].join('\n');
+}
+
+/**
+ * `head(args)tail` on one line, or one argument per line when that exceeds the line width
+ */
+function wrapCall(head: string, args: string[], tail: string): string {
+  const line = `${head}${args.join(', ')}${tail}`;
+  if (line.length <= MAX_LINE_LENGTH || args.length === 0) {
+    return line;
+  }
+  const padding = head.match(/^ */)?.[0] ?? '';
+  return `${head}\n${args.map(arg => `${padding}  ${arg}`).join(',\n')}\n${padding}${tail}`;
+}
+
+/**
+ * Source of a typed client for an OpenAPI document: component types, a BaseApi subclass with
+ * one method per operation, and a validator for each operation's declared responses
+ */
+export function generateClient(
+  document: OpenApiDocument,
+  options: GenerateClientOptions
+): GeneratedClient {
+  const { className, outFile, specFile } = options;
+  const root = path.resolve(__dirname, '..');
+  const importFrom = (...segments: string[]) => importPath(outFile, path.join(root, ...segments));
+  const skipped: string[] = [];
+  const declarations: string[] = [];
+  const methods: string[] = [];
+  const operations = listOperations(document).filter(operation => {
+    if (operation.method in CLIENT_METHODS) {
+      return true;
+    }
+    skipped.push(`${operation.method.toUpperCase()} ${operation.path}`);
+    return false;
+  });
+
+  for (const [name, schema] of Object.entries(document.components?.schemas ?? {})) {
+    declarations.push(declareType(typeName(name), schema));
+  }
+  for (const operation of operations) {
+    methods.push(generateMethod(operation, declarations));
+  }
+
+  const operationIdType = `${className}OperationId`;
+  const responseSchemas = Object.fromEntries(
+    operations.map(operation => [camelCase(operation.id), operation.responses])
+  );
+  const components = { schemas: document.components?.schemas ?? {} };
+
+  const source = [
+    `/**`,
+    ` * ${document.info.title} ${document.info.version} client, generated by`,
+    ` * \`npm run openapi:generate\` from ${specFile}; do not edit by hand.`,
+    ` */`,
+    `import { JsonSchema, SchemaViolation } from '${importFrom('utils', 'json-schema')}';`,
+    `import { AxiosResponse } from 'axios';`,
+    `import { BaseApi } from '${importFrom('api', 'base-api')}';`,
+    `import { validateOperationResponse } from '${importFrom('utils', 'openapi')}';`,
+    '',
+    declarations.join('\n\n'),
+    '',
+    `export type ${operationIdType} =`,
+    operations.map(operation => `  | '${camelCase(operation.id)}'`).join('\n') + ';',
+    '',
+    `const components: { schemas: Record<string, JsonSchema> } = ${toLiteral(components)};`,
+    '',
+    `/**`,
+    ` * JSON response schema per operation and status key ('200', '4XX', 'DEFAULT')`,
+    ` */`,
+    `export const ${camelCase(className)}ResponseSchemas: Record<`,
+    `  ${operationIdType},`,
+    `  Record<string, JsonSchema | undefined>`,
+    `> = ${toLiteral(responseSchemas)};`,
+    '',
+    `/**`,
+    ` * Violations of a response body against the schema its operation declares for the status`,
+    ` */`,
+    `export function validate${className}Response(`,
+    `  operationId: ${operationIdType},`,
+    `  status: number,`,
+    `  body: unknown`,
+    `): SchemaViolation[] {`,
+    `  return validateOperationResponse(`,
+    `    operationId,`,
+    `    ${camelCase(className)}ResponseSchemas[operationId],`,
+    `    status,`,
+    `    body,`,
+    `    { components }`,
+    `  );`,
+    `}`,
+    '',
+    `export class ${className} extends BaseApi {`,
+    methods.join('\n\n'),
+    `}`,
+    ''
+  ].join('\n');
+
+  return { source, skipped };
+}
@@ -0,0 +1,317 @@
+import { JsonSchema, SchemaViolation, resolvePointer, validateJsonSchema } from './json-schema';
+import fs from 'fs';
+import path from 'path';
+
+export const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace'
+] as const;
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+/**
+ * The parts of an OpenAPI 3 document used for client generation and validation
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string };
+  servers?: Array<{ url: string }>;
+  paths: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, JsonSchema>;
+    parameters?: Record<string, OpenApiParameter>;
+    responses?: Record<string, OpenApiResponse>;
+    requestBodies?: Record<string, OpenApiRequestBody>;
+  };
+}
+
+export type OpenApiPathItem = Partial<Record<HttpMethod, OpenApiOperation>> & {
+  parameters?: Array<OpenApiParameter | OpenApiRef>;
+};
+
+export interface OpenApiRef {
+  $ref: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface OpenApiMediaType {
+  schema?: JsonSchema;
+  example?: unknown;
+  examples?: Record<string, { summary?: string; value?: unknown }>;
+}
+
+export interface OpenApiRequestBody {
+  required?: boolean;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters?: Array<OpenApiParameter | OpenApiRef>;
+  requestBody?: OpenApiRequestBody | OpenApiRef;
+  responses: Record<string, OpenApiResponse | OpenApiRef>;
+}
+
+/**
+ * An operation with its references resolved and a matcher for concrete request paths
+ */
+export interface ResolvedOperation {
+  id: string;
+  method: HttpMethod;
+  /** Path template, e.g. '/users/{id}' */
+  path: string;
+  pattern: RegExp;
+  summary: string | undefined;
+  parameters: OpenApiParameter[];
+  requestBody: OpenApiRequestBody | undefined;
+  /** JSON response schema per upper-cased status key ('200', '4XX', 'DEFAULT') */
+  responses: Record<string, JsonSchema | undefined>;
+}
+
+/**
+ * Raised when a response does not match the schema its operation declares
+ */
+export class OpenApiValidationError extends Error {
+  constructor(
+    public readonly operationId: string,
+    public readonly status: number,
+    public readonly violations: SchemaViolation[],
+    public readonly data: unknown
+  ) {
+    super(
+      `Response of ${operationId} (HTTP ${status}) does not match the OpenAPI schema:\n` +
+        violations
+          .map(violation => `  - ${violation.pointer || '/'}: ${violation.message}`)
+          .join('\n')
+    );
+    this.name = 'OpenApiValidationError';
+  }
+}
+
+/**
+ * Read an OpenAPI 3 document from a JSON file
+ */
+export function loadOpenApiDocument(filePath: string): OpenApiDocument {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`OpenAPI document not found: ${resolved}`);
+  }
+  if (!/\.json$/i.test(resolved)) {
+    throw new Error(`OpenAPI documents must be JSON: ${resolved}`);
+  }
+  const document = JSON.parse(fs.readFileSync(resolved, 'utf-8')) as OpenApiDocument;
+  if (typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+    throw new Error(`Not an OpenAPI 3 document: ${resolved}`);
+  }
+  return document;
+}
+
+function deref<T extends object>(document: OpenApiDocument, value: T | OpenApiRef): T {
+  return '$ref' in value ? (resolvePointer(document, value.$ref) as T) : value;
+}
+
+/**
+ * JSON schema of a body: application/json, any +json type, or the only media type
+ */
+export function jsonSchemaOf(
+  content: Record<string, OpenApiMediaType> | undefined
+): JsonSchema | undefined {
+  if (!content) {
+    return undefined;
+  }
+  const mediaType =
+    content['application/json'] ??
+    Object.entries(content).find(([type]) => /\+json$/.test(type))?.[1] ??
+    Object.values(content)[0];
+  return mediaType?.schema;
+}
+
+/**
+ * camelCase identifier derived from method and path when an operation has no operationId
+ */
+function fallbackOperationId(method: HttpMethod, template: string): string {
+  const words = template
+    .split('/')
+    .filter(Boolean)
+    .map(segment => segment.replace(/^\{(.+)\}$/, 'by-$1'))
+    .join('-')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  return [method, ...words]
+    .map((word, index) => (index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join('');
+}
+
+function pathPattern(template: string): RegExp {
+  const source = template
+    .split(/(\{[^}]+\})/)
+    .map(part => (part.startsWith('{') ? '[^/]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}/?$`);
+}
+
+/**
+ * Every operation in the document, in document order
+ */
+export function listOperations(document: OpenApiDocument): ResolvedOperation[] {
+  const operations: ResolvedOperation[] = [];
+  for (const [template, item] of Object.entries(document.paths)) {
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!operation) {
+        continue;
+      }
+      const parameters = new Map<string, OpenApiParameter>();
+      for (const parameter of [...(item.parameters ?? []), ...(operation.parameters ?? [])]) {
+        const resolved = deref(document, parameter);
+        parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+      }
+      const responses: Record<string, JsonSchema | undefined> = {};
+      for (const [status, response] of Object.entries(operation.responses)) {
+        responses[status.toUpperCase()] = jsonSchemaOf(deref(document, response).content);
+      }
+      operations.push({
+        id: operation.operationId ?? fallbackOperationId(method, template),
+        method,
+        path: template,
+        pattern: pathPattern(template),
+        summary: operation.summary,
+        parameters: [...parameters.values()],
+        requestBody: operation.requestBody && deref(document, operation.requestBody),
+        responses
+      });
+    }
+  }
+  return operations;
+}
+
+/**
+ * Response schema declared for a status: exact code, then range ('4XX'), then 'DEFAULT'
+ */
+export function responseSchemaFor(
+  responses: Record<string, JsonSchema | undefined>,
+  status: number
+): { key: string; schema: JsonSchema | undefined } | undefined {
+  for (const key of [String(status), `${String(status).charAt(0)}XX`, 'DEFAULT']) {
+    if (key in responses) {
+      return { key, schema: responses[key] };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Violations of a response body against the schemas an operation declares
+ */
+export function validateOperationResponse(
+  operationId: string,
+  responses: Record<string, JsonSchema | undefined>,
+  status: number,
+  body: unknown,
+  root: unknown
+): SchemaViolation[] {
+  const declared = responseSchemaFor(responses, status);
+  if (!declared) {
+    return [
+      {
+        pointer: '',
+        keyword: 'status',
+        message: `${operationId} does not declare a response for HTTP ${status}`,
+        schemaPath: ''
+      }
+    ];
+  }
+  return declared.schema ? validateJsonSchema(declared.schema, body, { root }) : [];
+}
+
+/**
+ * Validates responses against the operations of an OpenAPI document
+ */
+export class OpenApiValidator {
+  private static cache = new Map<string, OpenApiValidator>();
+  private readonly operations: ResolvedOperation[];
+  private readonly basePath: string;
+
+  constructor(private readonly document: OpenApiDocument) {
+    // Literal paths first so '/products/search' wins over '/products/{id}'
+    const templated = (operation: ResolvedOperation) => (operation.path.includes('{') ? 1 : 0);
+    this.operations = listOperations(document).sort((a, b) => templated(a) - templated(b));
+    const serverUrl = document.servers?.[0]?.url ?? '/';
+    this.basePath = new URL(serverUrl, 'http://localhost').pathname.replace(/\/$/, '');
+  }
+
+  /**
+   * Validator for a document file, parsed once per process
+   */
+  static fromFile(filePath: string): OpenApiValidator {
+    const key = path.resolve(filePath);
+    let validator = this.cache.get(key);
+    if (!validator) {
+      validator = new OpenApiValidator(loadOpenApiDocument(key));
+      this.cache.set(key, validator);
+    }
+    return validator;
+  }
+
+  getOperations(): ResolvedOperation[] {
+    return [...this.operations];
+  }
+
+  /**
+   * Operation serving a request; `url` may be absolute or relative and carry a query string
+   */
+  findOperation(method: string, url: string): ResolvedOperation | undefined {
+    let pathname = new URL(url, 'http://localhost').pathname;
+    if (this.basePath && pathname.startsWith(this.basePath)) {
+      pathname = pathname.slice(this.basePath.length) || '/';
+    }
+    const lowerMethod = method.toLowerCase();
+    return this.operations.find(
+      operation => operation.method === lowerMethod && operation.pattern.test(pathname)
+    );
+  }
+
+  /**
+   * Violations of a response, or undefined when the document has no matching operation
+   */
+  validateResponse(
+    method: string,
+    url: string,
+    status: number,
+    body: unknown
+  ): { operation: ResolvedOperation; violations: SchemaViolation[] } | undefined {
+    const operation = this.findOperation(method, url);
+    if (!operation) {
+      return undefined;
+    }
+    return {
+      operation,
+      violations: validateOperationResponse(
+        operation.id,
+        operation.responses,
+        status,
+        body,
+        this.document
+      )
+    };
+  }
+}
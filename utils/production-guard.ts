@@ -0,0 +1,152 @@
+import { config } from './config';
+import { logger } from './logger';
+
+export const DESTRUCTIVE_TAG = '@destructive';
+export const READONLY_TAG = '@readonly';
+
+/**
+ * What a test or step declares about its side effects
+ */
+export type GuardScopeKind = 'destructive' | 'readonly' | 'unspecified';
+
+/**
+ * Outcome for a mutating request: send it, or answer it locally without sending
+ */
+export type GuardDecision = 'allow' | 'dry-run';
+
+interface GuardScope {
+  kind: GuardScopeKind;
+  name: string;
+}
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Raised when a mutating call is refused by the production guard
+ */
+export class ProductionGuardError extends Error {
+  constructor(
+    message: string,
+    public readonly method: string,
+    public readonly url: string
+  ) {
+    super(message);
+    this.name = 'ProductionGuardError';
+  }
+}
+
+/**
+ * Keeps mutating requests and @destructive tests away from production.
+ *
+ * In production (Config.isProduction()) mutating requests are refused, or answered
+ * locally when safety.productionMode is 'dry-run', and @destructive tests are skipped
+ * in 'block' mode. PRODUCTION_ALLOW_MUTATIONS=true together with PRODUCTION_CONFIRM_HOST
+ * naming the host of the base URL lifts the guard for that one host; neither value is
+ * spelled out in errors, so lifting it stays a deliberate step. Mutations inside a
+ * @readonly scope are refused everywhere.
+ */
+export class ProductionGuard {
+  private static scopes: GuardScope[] = [];
+
+  /**
+   * Whether the guard was lifted for the active base URL's host, so an override for one
+   * deployment never carries over to another
+   */
+  static isOverridden(): boolean {
+    const { allowMutations, confirmHost } = config.getSafetyConfig();
+    return allowMutations && confirmHost === new URL(config.getUrls().base).host;
+  }
+
+  /**
+   * Whether the guard currently restricts anything
+   */
+  static isActive(): boolean {
+    return config.isProduction() && !this.isOverridden();
+  }
+
+  /**
+   * Scope kind declared by @destructive / @readonly in a title or tag list
+   */
+  static scopeKindOf(title: string, tags: string[] = []): GuardScopeKind {
+    const declared = [...tags, ...(title.match(/@[\w-]+/g) ?? [])];
+    if (declared.includes(DESTRUCTIVE_TAG)) {
+      return 'destructive';
+    }
+    return declared.includes(READONLY_TAG) ? 'readonly' : 'unspecified';
+  }
+
+  /**
+   * Mark a test as started, returning the reason it must not run (if any)
+   */
+  static enterTest(name: string, kind: GuardScopeKind): string | undefined {
+    this.scopes = [{ kind, name }];
+    if (kind !== 'destructive' || !this.isActive()) {
+      return undefined;
+    }
+    if (config.getSafetyConfig().productionMode === 'dry-run') {
+      logger.warn(`Running ${DESTRUCTIVE_TAG} test in production as dry-run: ${name}`);
+      return undefined;
+    }
+    return `${DESTRUCTIVE_TAG} test refused in production (${this.describeTarget()})`;
+  }
+
+  static exitTest(): void {
+    this.scopes = [];
+  }
+
+  /**
+   * Run `body` as a step that declares its own side effects, e.g.
+   * ProductionGuard.step('readonly', 'Check balance', async () => { ... })
+   */
+  static async step<T>(kind: GuardScopeKind, name: string, body: () => Promise<T>): Promise<T> {
+    this.scopes.push({ kind, name });
+    try {
+      return await body();
+    } finally {
+      this.scopes.pop();
+    }
+  }
+
+  /**
+   * Decide whether a request may be sent; throws ProductionGuardError when refused.
+   * Requests marked readOnly change nothing whatever their method, e.g. GraphQL queries.
+   */
+  static checkRequest(
+    method: string,
+    url: string,
+    options: { readOnly?: boolean | undefined } = {}
+  ): GuardDecision {
+    const verb = method.toUpperCase();
+    if (options.readOnly || !MUTATING_METHODS.includes(verb)) {
+      return 'allow';
+    }
+
+    const scope = this.scopes[this.scopes.length - 1];
+    if (scope?.kind === 'readonly') {
+      throw new ProductionGuardError(
+        `${verb} ${url} refused: "${scope.name}" is declared ${READONLY_TAG}`,
+        verb,
+        url
+      );
+    }
+
+    if (!this.isActive()) {
+      return 'allow';
+    }
+    if (config.getSafetyConfig().productionMode === 'dry-run') {
+      logger.warn(`Dry-run ${verb} ${url} in production`, { scope: scope?.name });
+      return 'dry-run';
+    }
+    throw new ProductionGuardError(
+      `${verb} ${url} refused in production (${this.describeTarget()}); ` +
+        'set PRODUCTION_GUARD_MODE=dry-run to answer mutations locally',
+      verb,
+      url
+    );
+  }
+
+  private static describeTarget(): string {
+    const target = config.getTarget();
+    return target ? `target ${target.name}` : config.getUrls().base;
+  }
+}
@@ -1,5 +1,7 @@
 import fs from 'fs';
 import path from 'path';
+import { FeatureFlagManager } from './feature-flags';
+import { SecretManager } from './secrets';
 import { logger } from './logger';
 
 /**
@@ -15,14 +17,15 @@ export class ReportGenerator {
     try {
       logger.info('Generating test summary...');
 
-      const summary = {
+      // Reports are shared outside the run, so never let a credential reach them
+      const summary = SecretManager.redact({
         metadata: await this.getTestMetadata(),
         results: await this.getTestResults(),
         performance: await this.getPerformanceMetrics(),
         environment: await this.getEnvironmentInfo(),
         coverage: await this.getCoverageInfo(),
         artifacts: await this.getArtifactInfo()
-      };
+      });
 
       const summaryPath = path.join(this.REPORTS_DIR, 'comprehensive-summary.json');
       fs.writeFileSync(summaryPath, JSON.stringify(summary, null, 2));
@@ -118,7 +121,9 @@ export class ReportGenerator {
       retries: process.env.RETRIES || 'default',
       timeout: process.env.TEST_TIMEOUT || 'default',
       headless: process.env.HEADLESS || 'true',
-      browser: process.env.BROWSER || 'all'
+      browser: process.env.BROWSER || 'all',
+      featureFlags:
+        FeatureFlagManager.getResolved() ?? FeatureFlagManager.readResolved() ?? 'Not resolved'
     };
   }
 
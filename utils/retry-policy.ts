@@ -0,0 +1,100 @@
+import { RetryConfig } from './config-schema';
+import axios from 'axios';
+
+/**
+ * How often and when a request is retried. Defaults come from `api.retry`; a request
+ * overrides any of them through its `retry` option.
+ */
+export interface RetryPolicy extends RetryConfig {
+  /**
+   * Also retry POST and PATCH. They are not idempotent: a request that timed out or got a
+   * 502 may still have been applied, so only enable this for endpoints known to be safe.
+   */
+  nonIdempotent: boolean;
+}
+
+/** Per-request retry option: a partial policy, or false to send the request once */
+export type RetryOption = Partial<RetryPolicy> | false;
+
+/** Methods RFC 9110 defines as idempotent */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE']);
+
+/**
+ * Axios error codes for requests that never got a response but must not be repeated: a
+ * canceled one was abandoned on purpose. Timeouts (ECONNABORTED, ETIMEDOUT) are retried like
+ * other network errors; requests that may not be repeated only get one attempt anyway.
+ */
+const NON_RETRYABLE_CODES = new Set(['ERR_CANCELED']);
+
+export function isIdempotent(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Policy for one request; a method that may not be retried gets a single attempt
+ */
+export function resolveRetryPolicy(
+  method: string,
+  defaults: RetryConfig,
+  option: RetryOption | undefined
+): RetryPolicy {
+  if (option === false) {
+    return { ...defaults, nonIdempotent: false, maxAttempts: 1 };
+  }
+  const policy: RetryPolicy = { ...defaults, nonIdempotent: false, ...option };
+  return policy.nonIdempotent || isIdempotent(method) ? policy : { ...policy, maxAttempts: 1 };
+}
+
+/**
+ * Milliseconds a Retry-After header asks to wait: delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed, half random, so
+ * concurrent workers spread out without ever retrying immediately
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + (random() * exponential) / 2);
+}
+
+/**
+ * Wait before attempt `attempt + 1` after `error`, or undefined when it must not be retried.
+ * A Retry-After is waited out in full; one longer than maxRetryAfterMs ends the retries.
+ */
+export function retryDelay(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy
+): number | undefined {
+  if (attempt >= policy.maxAttempts || !axios.isAxiosError(error)) {
+    return undefined;
+  }
+  const response = error.response;
+  if (!response) {
+    const retryable = policy.networkErrors && !NON_RETRYABLE_CODES.has(error.code ?? '');
+    return retryable ? backoffDelay(attempt, policy) : undefined;
+  }
+  if (!policy.statusCodes.includes(response.status)) {
+    return undefined;
+  }
+  const retryAfter = parseRetryAfter(response.headers['retry-after']);
+  if (retryAfter === undefined) {
+    return backoffDelay(attempt, policy);
+  }
+  return retryAfter <= policy.maxRetryAfterMs ? retryAfter : undefined;
+}
@@ -0,0 +1,263 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { inspect } from 'util';
+import path from 'path';
+
+export const REDACTED = '********';
+
+/**
+ * Object keys whose values are always masked when logged or written to reports, matched
+ * against the last words of the key: accessToken, DB_PASSWORD and x-api-key are sensitive,
+ * tokenUrl and apiKeyName are not
+ */
+const SENSITIVE_KEY_PATTERN =
+  /(^|_)(password|passwd|secret|token|api_?key|authorization|cookie|webhook_url)s?$/;
+
+/**
+ * `access_token` for accessToken, ACCESS_TOKEN and access-token
+ */
+function keyWords(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .toLowerCase();
+}
+
+/**
+ * A sensitive value that masks itself when logged, stringified or inspected.
+ * Call reveal() only at the point the real value is needed (e.g. filling a field).
+ */
+export class Secret {
+  private readonly value: string;
+
+  private constructor(
+    value: string,
+    /** Provider or layer the value was resolved from */
+    readonly source: string
+  ) {
+    this.value = value;
+    SecretManager.registerValue(value);
+  }
+
+  static of(value: string, source: string = 'inline'): Secret {
+    return new Secret(value, source);
+  }
+
+  reveal(): string {
+    return this.value;
+  }
+
+  toString(): string {
+    return REDACTED;
+  }
+
+  toJSON(): string {
+    return REDACTED;
+  }
+
+  [inspect.custom](): string {
+    return `Secret(${REDACTED})`;
+  }
+}
+
+/**
+ * Source of secret values, looked up by key (e.g. 'DB_PASSWORD')
+ */
+export interface SecretProvider {
+  readonly name: string;
+  get(key: string): string | undefined;
+}
+
+/**
+ * Secrets from environment variables
+ */
+export class EnvSecretProvider implements SecretProvider {
+  readonly name = 'env';
+
+  constructor(private env: NodeJS.ProcessEnv = process.env) {}
+
+  get(key: string): string | undefined {
+    const value = this.env[key];
+    return value === '' ? undefined : value;
+  }
+}
+
+interface EncryptedSecretsFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Secrets from a local AES-256-GCM encrypted JSON file, unlocked with a passphrase
+ */
+export class EncryptedFileSecretProvider implements SecretProvider {
+  readonly name: string;
+  private values: Record<string, string> | undefined;
+
+  constructor(
+    private filePath: string,
+    private passphrase: string
+  ) {
+    this.name = `encrypted-file:${path.relative(process.cwd(), filePath)}`;
+  }
+
+  get(key: string): string | undefined {
+    this.values = this.values ?? this.decrypt();
+    return this.values[key];
+  }
+
+  private decrypt(): Record<string, string> {
+    try {
+      const file: EncryptedSecretsFile = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      const key = crypto.scryptSync(this.passphrase, Buffer.from(file.salt, 'base64'), 32);
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plain = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final()
+      ]).toString('utf-8');
+      return JSON.parse(plain);
+    } catch (error) {
+      throw new Error(`Failed to decrypt secrets file ${this.filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Write `values` to an encrypted secrets file readable by this provider
+   */
+  static encrypt(filePath: string, passphrase: string, values: Record<string, string>): void {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = crypto.scryptSync(passphrase, salt, 32);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(values), 'utf-8'), cipher.final()]);
+    const file: EncryptedSecretsFile = {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+    fs.writeFileSync(filePath, JSON.stringify(file, null, 2));
+  }
+}
+
+/**
+ * Secret resolution and redaction
+ */
+export class SecretManager {
+  private static providers: SecretProvider[] = SecretManager.defaultProviders();
+  private static knownValues: Set<string> = new Set();
+
+  /**
+   * Default chain: environment, then SECRETS_FILE (config/secrets.enc.json) when SECRETS_KEY is set
+   */
+  private static defaultProviders(): SecretProvider[] {
+    const providers: SecretProvider[] = [new EnvSecretProvider()];
+    const filePath =
+      process.env.SECRETS_FILE || path.join(process.cwd(), 'config', 'secrets.enc.json');
+    if (process.env.SECRETS_KEY && fs.existsSync(filePath)) {
+      providers.push(new EncryptedFileSecretProvider(filePath, process.env.SECRETS_KEY));
+    }
+    return providers;
+  }
+
+  /**
+   * Add a provider (vault, cloud secret manager, ...) after the built-in ones
+   */
+  static registerProvider(provider: SecretProvider): void {
+    this.providers.push(provider);
+  }
+
+  static getProviders(): SecretProvider[] {
+    return [...this.providers];
+  }
+
+  /**
+   * Resolve a secret from the first provider that has it
+   */
+  static resolve(key: string, options: { skip?: string[] } = {}): Secret | undefined {
+    for (const provider of this.providers) {
+      if (options.skip?.includes(provider.name)) {
+        continue;
+      }
+      const value = provider.get(key);
+      if (value !== undefined) {
+        return Secret.of(value, provider.name);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Remember a sensitive value so it is masked wherever it appears in logs and reports
+   */
+  static registerValue(value: string): void {
+    // Very short values would mask unrelated text
+    if (value.length >= 4) {
+      this.knownValues.add(value);
+    }
+  }
+
+  /**
+   * Mask known secret values inside a string
+   */
+  static redactText(text: string): string {
+    let result = text;
+    for (const value of this.knownValues) {
+      result = result.split(value).join(REDACTED);
+    }
+    return result;
+  }
+
+  /**
+   * Deep copy of `value` with Secrets, sensitive keys and known secret values masked
+   */
+  static redact<T>(value: T): T {
+    return this.redactValue(value, new WeakSet()) as T;
+  }
+
+  static isSensitiveKey(key: string): boolean {
+    return SENSITIVE_KEY_PATTERN.test(keyWords(key));
+  }
+
+  private static redactValue(value: unknown, seen: WeakSet<object>): unknown {
+    if (value instanceof Secret) {
+      return REDACTED;
+    }
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (typeof value !== 'object' || value === null || value instanceof Date) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, seen));
+    }
+    if (value instanceof Error) {
+      const error = new Error(this.redactText(value.message));
+      error.name = value.name;
+      if (value.stack) {
+        error.stack = this.redactText(value.stack);
+      }
+      return error;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        this.isSensitiveKey(key) && item !== undefined && item !== null && typeof item !== 'object'
+          ? REDACTED
+          : this.redactValue(item, seen)
+      ])
+    );
+  }
+}
@@ -0,0 +1,681 @@
+import { ApiClient, apiClient } from './api-client';
+import { Page, WebSocket as PageWebSocket } from '@playwright/test';
+import { IncomingMessage } from 'http';
+import { Socket } from 'net';
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { logger } from './logger';
+
+/**
+ * One message of a stream transcript
+ */
+export interface StreamMessage {
+  direction: 'sent' | 'received';
+  /** Text, or the payload of a binary frame */
+  data: string | Buffer;
+  timestamp: string;
+}
+
+export interface WebSocketMessage extends StreamMessage {
+  binary: boolean;
+}
+
+export interface ServerSentEvent extends StreamMessage {
+  direction: 'received';
+  data: string;
+  /** Event type, "message" unless the server named one */
+  event: string;
+  id: string | undefined;
+}
+
+export interface WaitOptions {
+  /** Milliseconds to wait, 10 seconds by default */
+  timeout?: number;
+  /** Which messages may match; received ones by default */
+  direction?: StreamMessage['direction'] | 'any';
+}
+
+export interface StreamConnectOptions {
+  /** Client whose base URL and authentication the connection uses; the shared one by default */
+  client?: ApiClient;
+  headers?: Record<string, string>;
+  /** Milliseconds to wait for the connection, 10 seconds by default */
+  timeout?: number;
+}
+
+export interface WebSocketConnectOptions extends StreamConnectOptions {
+  protocols?: string[];
+}
+
+export interface SseConnectOptions extends StreamConnectOptions {
+  /** Resume after this event id (Last-Event-ID) */
+  lastEventId?: string;
+}
+
+/**
+ * Raised when no message matched in time; the message ends with the latest transcript entries
+ */
+export class StreamTimeoutError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly timeout: number,
+    transcript: StreamMessage[]
+  ) {
+    const recent = transcript
+      .slice(-10)
+      .map(entry => `  ${entry.direction === 'sent' ? '>' : '<'} ${preview(entry.data)}`);
+    super(
+      `No matching message from ${url} within ${timeout}ms` +
+        (recent.length > 0 ? `, last messages:\n${recent.join('\n')}` : ', nothing received')
+    );
+    this.name = 'StreamTimeoutError';
+  }
+}
+
+function preview(data: string | Buffer): string {
+  const text = typeof data === 'string' ? data : `<${data.length} bytes>`;
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
+
+function parseJson(data: string | Buffer): unknown {
+  if (typeof data !== 'string') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+}
+
+interface Waiter<T> {
+  predicate: (message: T) => boolean;
+  direction: NonNullable<WaitOptions['direction']>;
+  resolve: (message: T) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Transcript of a stream plus waiting for messages in it. Each wait starts after the message
+ * the previous one matched, so send-then-await flows never see a stale reply.
+ */
+export class MessageStream<T extends StreamMessage> {
+  private readonly entries: T[] = [];
+  private readonly waiters = new Set<Waiter<T>>();
+  private cursor = 0;
+  private ended: Error | undefined;
+
+  constructor(readonly url: string) {}
+
+  /** Everything sent and received so far, in order */
+  get transcript(): T[] {
+    return [...this.entries];
+  }
+
+  get received(): T[] {
+    return this.entries.filter(entry => entry.direction === 'received');
+  }
+
+  get sent(): T[] {
+    return this.entries.filter(entry => entry.direction === 'sent');
+  }
+
+  /**
+   * Next message matching `predicate`
+   */
+  waitFor(predicate: (message: T) => boolean, options: WaitOptions = {}): Promise<T> {
+    const { timeout = 10000, direction = 'received' } = options;
+    const matches = (message: T) =>
+      (direction === 'any' || message.direction === direction) && predicate(message);
+
+    const index = this.entries.findIndex((entry, i) => i >= this.cursor && matches(entry));
+    if (index !== -1) {
+      this.cursor = index + 1;
+      return Promise.resolve(this.entries[index] as T);
+    }
+    if (this.ended) {
+      return Promise.reject(this.ended);
+    }
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiters.delete(waiter);
+        reject(new StreamTimeoutError(this.url, timeout, this.entries));
+      }, timeout);
+      const waiter: Waiter<T> = {
+        predicate,
+        direction,
+        resolve: message => {
+          clearTimeout(timer);
+          resolve(message);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+      this.waiters.add(waiter);
+    });
+  }
+
+  /**
+   * Next message whose data parses as JSON and matches `predicate`; resolves to the parsed data
+   */
+  async waitForJson<J = unknown>(
+    predicate: (data: J) => boolean = () => true,
+    options: WaitOptions = {}
+  ): Promise<J> {
+    const message = await this.waitFor(entry => {
+      const data = parseJson(entry.data);
+      return data !== undefined && predicate(data as J);
+    }, options);
+    return parseJson(message.data) as J;
+  }
+
+  protected push(message: T): void {
+    this.entries.push(message);
+    for (const waiter of this.waiters) {
+      const direction = waiter.direction === 'any' || waiter.direction === message.direction;
+      if (direction && waiter.predicate(message)) {
+        this.waiters.delete(waiter);
+        this.cursor = this.entries.length;
+        waiter.resolve(message);
+        return;
+      }
+    }
+  }
+
+  /**
+   * No more messages will arrive; pending waits fail with `reason`
+   */
+  protected end(reason: Error): void {
+    this.ended ??= reason;
+    for (const waiter of this.waiters) {
+      waiter.reject(reason);
+    }
+    this.waiters.clear();
+  }
+}
+
+/**
+ * URL of a stream endpoint with the auth and headers of the client it goes through
+ */
+async function prepareConnection(
+  url: string,
+  options: StreamConnectOptions
+): Promise<{ target: URL; headers: Record<string, string> }> {
+  const prepared = await (options.client ?? apiClient).prepareRequest(url);
+  return { target: new URL(prepared.url), headers: { ...prepared.headers, ...options.headers } };
+}
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODES = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+  /** Bytes the frame takes in the stream */
+  size: number;
+}
+
+function readFrame(buffer: Buffer): Frame | undefined {
+  if (buffer.length < 2) {
+    return undefined;
+  }
+  const first = buffer.readUInt8(0);
+  const second = buffer.readUInt8(1);
+  let offset = 2;
+  let length = second & 0x7f;
+  if (length === 126) {
+    if (buffer.length < 4) {
+      return undefined;
+    }
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) {
+      return undefined;
+    }
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const mask = second & 0x80 ? buffer.subarray(offset, offset + 4) : undefined;
+  offset += mask ? 4 : 0;
+  if (buffer.length < offset + length) {
+    return undefined;
+  }
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (mask) {
+    payload.forEach((byte, i) => (payload[i] = byte ^ (mask[i % 4] as number)));
+  }
+  return { fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload, size: offset + length };
+}
+
+/**
+ * A frame as clients must send it: final and masked
+ */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  const header = Buffer.alloc(length < 126 ? 2 : length < 65536 ? 4 : 10);
+  header.writeUInt8(0x80 | opcode, 0);
+  if (length < 126) {
+    header.writeUInt8(0x80 | length, 1);
+  } else if (length < 65536) {
+    header.writeUInt8(0x80 | 126, 1);
+    header.writeUInt16BE(length, 2);
+  } else {
+    header.writeUInt8(0x80 | 127, 1);
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  const mask = crypto.randomBytes(4);
+  const masked = Buffer.from(payload.map((byte, i) => byte ^ (mask[i % 4] as number)));
+  return Buffer.concat([header, mask, masked]);
+}
+
+/**
+ * WebSocket connection (RFC 6455) for API tests, authenticated like ApiClient requests
+ *
+ * @example
+ * const socket = await WebSocketClient.connect('/live');
+ * socket.send({ type: 'subscribe', channel: 'orders' });
+ * const update = await socket.waitForJson<OrderEvent>(event => event.type === 'order.created');
+ * await socket.close();
+ */
+export class WebSocketClient extends MessageStream<WebSocketMessage> {
+  private buffered: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentOpcode = OPCODES.text;
+  private closeSent = false;
+  private closeInfo: { code: number; reason: string } | undefined;
+  /** Settles once the connection is gone, with the close code and reason */
+  readonly closed: Promise<{ code: number; reason: string }>;
+
+  private constructor(
+    url: string,
+    private readonly socket: Socket,
+    head: Buffer,
+    /** Subprotocol the server picked */
+    readonly protocol: string | undefined
+  ) {
+    super(url);
+    this.closed = new Promise(resolve => {
+      socket.on('close', () => {
+        const info = this.closeInfo ?? { code: 1006, reason: 'connection lost' };
+        logger.info('🔌 WebSocket closed', { url, ...info });
+        this.end(new Error(`WebSocket ${url} closed (${info.code} ${info.reason})`.trim()));
+        resolve(info);
+      });
+    });
+    socket.on('data', chunk => this.receive(chunk));
+    socket.on('error', error => {
+      logger.warn(`WebSocket ${url} failed`, error);
+      this.end(new Error(`WebSocket ${url} failed: ${error.message}`));
+    });
+    if (head.length > 0) {
+      this.receive(head);
+    }
+  }
+
+  /**
+   * Open a connection; `url` is relative to the client's base URL, whose http(s) scheme
+   * becomes ws(s), or an absolute ws(s) URL
+   */
+  static async connect(
+    url: string,
+    options: WebSocketConnectOptions = {}
+  ): Promise<WebSocketClient> {
+    const { target, headers } = await prepareConnection(url, options);
+    target.protocol = target.protocol.replace(/^http/, 'ws');
+    const secure = target.protocol === 'wss:';
+    const key = crypto.randomBytes(16).toString('base64');
+    const expectedAccept = crypto
+      .createHash('sha1')
+      .update(key + WEBSOCKET_GUID)
+      .digest('base64');
+
+    return new Promise((resolve, reject) => {
+      const request = (secure ? https : http).request({
+        protocol: secure ? 'https:' : 'http:',
+        hostname: target.hostname,
+        port: target.port,
+        path: `${target.pathname}${target.search}`,
+        timeout: options.timeout ?? 10000,
+        headers: {
+          ...headers,
+          Connection: 'Upgrade',
+          Upgrade: 'websocket',
+          'Sec-WebSocket-Version': '13',
+          'Sec-WebSocket-Key': key,
+          ...(options.protocols && { 'Sec-WebSocket-Protocol': options.protocols.join(', ') })
+        }
+      });
+      request.on('upgrade', (response: IncomingMessage, socket: Socket, head: Buffer) => {
+        if (response.headers['sec-websocket-accept'] !== expectedAccept) {
+          socket.destroy();
+          reject(new Error(`WebSocket handshake with ${target.href} failed: invalid accept key`));
+          return;
+        }
+        socket.setTimeout(0);
+        const protocol = response.headers['sec-websocket-protocol'];
+        logger.info('🔌 WebSocket connected', { url: target.href, protocol });
+        resolve(new WebSocketClient(target.href, socket, head, protocol));
+      });
+      request.on('response', response => {
+        response.resume();
+        reject(
+          new Error(`WebSocket handshake with ${target.href} failed: HTTP ${response.statusCode}`)
+        );
+      });
+      request.on('timeout', () => {
+        request.destroy(new Error(`Connecting to ${target.href} timed out`));
+      });
+      request.on('error', reject);
+      request.end();
+    });
+  }
+
+  /**
+   * Send text, a binary frame for buffers, or JSON for anything else
+   */
+  send(data: string | Buffer | object): void {
+    if (this.closeSent || this.closeInfo) {
+      throw new Error(`WebSocket ${this.url} is closing`);
+    }
+    const binary = Buffer.isBuffer(data);
+    const payload = binary ? data : typeof data === 'string' ? data : JSON.stringify(data);
+    this.socket.write(encodeFrame(binary ? OPCODES.binary : OPCODES.text, Buffer.from(payload)));
+    this.push({ direction: 'sent', data: payload, binary, timestamp: new Date().toISOString() });
+  }
+
+  /**
+   * Close the connection, waiting up to `timeout` for the server to acknowledge
+   */
+  async close(code = 1000, reason = '', timeout = 5000): Promise<{ code: number; reason: string }> {
+    if (!this.closeSent && !this.socket.destroyed) {
+      const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+      payload.writeUInt16BE(code, 0);
+      payload.write(reason, 2);
+      this.socket.write(encodeFrame(OPCODES.close, payload));
+      this.closeSent = true;
+    }
+    const timer = setTimeout(() => this.socket.destroy(), timeout);
+    try {
+      return await this.closed;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffered = Buffer.concat([this.buffered, chunk]);
+    for (let frame = readFrame(this.buffered); frame; frame = readFrame(this.buffered)) {
+      this.buffered = this.buffered.subarray(frame.size);
+      this.handle(frame);
+    }
+  }
+
+  private handle({ fin, opcode, payload }: Frame): void {
+    // Nothing may follow a close frame
+    if (this.closeInfo) {
+      return;
+    }
+    switch (opcode) {
+      case OPCODES.continuation:
+      case OPCODES.text:
+      case OPCODES.binary: {
+        // A fragmented message is in progress exactly while fragments are collected
+        const fragmented = this.fragments.length > 0;
+        if (opcode === OPCODES.continuation && !fragmented) {
+          this.failProtocol('continuation frame without a message to continue');
+          return;
+        }
+        if (opcode !== OPCODES.continuation && fragmented) {
+          this.failProtocol('new message before the fragmented one was finished');
+          return;
+        }
+        if (opcode !== OPCODES.continuation) {
+          this.fragmentOpcode = opcode;
+        }
+        this.fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(this.fragments);
+          const binary = this.fragmentOpcode === OPCODES.binary;
+          this.fragments = [];
+          this.push({
+            direction: 'received',
+            data: binary ? message : message.toString('utf-8'),
+            binary,
+            timestamp: new Date().toISOString()
+          });
+        }
+        break;
+      }
+      case OPCODES.close:
+        this.closeInfo = {
+          code: payload.length >= 2 ? payload.readUInt16BE(0) : 1005,
+          reason: payload.subarray(2).toString('utf-8')
+        };
+        if (!this.closeSent) {
+          this.socket.write(encodeFrame(OPCODES.close, payload.subarray(0, 2)));
+          this.closeSent = true;
+        }
+        this.socket.end();
+        break;
+      case OPCODES.ping:
+        this.socket.write(encodeFrame(OPCODES.pong, payload));
+        break;
+      case OPCODES.pong:
+        break;
+      default:
+        this.failProtocol(`unknown opcode 0x${opcode.toString(16)}`);
+    }
+  }
+
+  /**
+   * Close the connection with 1002 (protocol error); pending waits fail with the reason
+   */
+  private failProtocol(reason: string): void {
+    const error = new Error(`WebSocket ${this.url} protocol error: ${reason}`);
+    logger.warn(error.message);
+    this.end(error);
+    this.closeInfo = { code: 1002, reason };
+    if (!this.closeSent) {
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(1002, 0);
+      this.socket.write(encodeFrame(OPCODES.close, payload));
+      this.closeSent = true;
+    }
+    // A failed connection is not closed cleanly: gone once the close frame is out
+    this.socket.end(() => this.socket.destroy());
+  }
+}
+
+/**
+ * Server-Sent Events stream (text/event-stream), authenticated like ApiClient requests
+ *
+ * @example
+ * const events = await SseClient.connect('/notifications');
+ * const event = await events.waitForEvent('order.shipped');
+ * events.close();
+ */
+export class SseClient extends MessageStream<ServerSentEvent> {
+  private pending = '';
+  private data: string[] = [];
+  private eventType = '';
+  /** Id of the latest event, for resuming with lastEventId */
+  lastEventId: string | undefined;
+  /** Reconnection delay the server asked for */
+  retryMs: number | undefined;
+
+  private constructor(
+    url: string,
+    private readonly request: http.ClientRequest,
+    response: IncomingMessage
+  ) {
+    super(url);
+    response.setEncoding('utf-8');
+    response.on('data', (chunk: string) => this.receive(chunk));
+    request.on('error', error => {
+      logger.warn(`Event stream ${url} failed`, error);
+      this.end(new Error(`Event stream ${url} failed: ${error.message}`));
+    });
+    response.on('close', () => {
+      logger.info('📡 Event stream closed', { url });
+      this.end(new Error(`Event stream ${url} closed`));
+    });
+  }
+
+  static async connect(url: string, options: SseConnectOptions = {}): Promise<SseClient> {
+    const { target, headers } = await prepareConnection(url, options);
+    const secure = target.protocol === 'https:';
+
+    return new Promise((resolve, reject) => {
+      const request = (secure ? https : http).request(target, {
+        timeout: options.timeout ?? 10000,
+        headers: {
+          ...headers,
+          Accept: 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          ...(options.lastEventId && { 'Last-Event-ID': options.lastEventId })
+        }
+      });
+      request.on('response', response => {
+        const type = response.headers['content-type'] ?? '';
+        if (response.statusCode !== 200 || !type.startsWith('text/event-stream')) {
+          response.resume();
+          reject(
+            new Error(
+              `Event stream ${target.href} failed: HTTP ${response.statusCode} ${type}`.trim()
+            )
+          );
+          return;
+        }
+        request.setTimeout(0);
+        logger.info('📡 Event stream connected', { url: target.href });
+        resolve(new SseClient(target.href, request, response));
+      });
+      request.on('timeout', () => {
+        request.destroy(new Error(`Connecting to ${target.href} timed out`));
+      });
+      request.on('error', reject);
+      request.end();
+    });
+  }
+
+  /**
+   * Next event of `type` matching `predicate`
+   */
+  waitForEvent(
+    type: string,
+    predicate: (event: ServerSentEvent) => boolean = () => true,
+    options: WaitOptions = {}
+  ): Promise<ServerSentEvent> {
+    return this.waitFor(event => event.event === type && predicate(event), options);
+  }
+
+  close(): void {
+    this.request.destroy();
+  }
+
+  private receive(chunk: string): void {
+    const lines = (this.pending + chunk).split(/\r\n|\r|\n/);
+    this.pending = lines.pop() ?? '';
+    for (const line of lines) {
+      this.line(line);
+    }
+  }
+
+  /** One line of the event stream format */
+  private line(line: string): void {
+    if (line === '') {
+      if (this.data.length > 0) {
+        this.push({
+          direction: 'received',
+          data: this.data.join('\n'),
+          event: this.eventType || 'message',
+          id: this.lastEventId,
+          timestamp: new Date().toISOString()
+        });
+      }
+      this.data = [];
+      this.eventType = '';
+      return;
+    }
+    if (line.startsWith(':')) {
+      return;
+    }
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'data') {
+      this.data.push(value);
+    } else if (field === 'event') {
+      this.eventType = value;
+    } else if (field === 'id' && !value.includes('\0')) {
+      this.lastEventId = value;
+    } else if (field === 'retry' && /^\d+$/.test(value)) {
+      this.retryMs = Number(value);
+    }
+  }
+}
+
+/**
+ * Frames the WebSockets of a page send and receive, from the moment capture started
+ */
+export class WebSocketFrameCapture extends MessageStream<WebSocketMessage & { socket: string }> {
+  private stopped = false;
+  private readonly onWebSocket = (socket: PageWebSocket) => {
+    if (!this.matchesUrl(socket.url())) {
+      return;
+    }
+    const record =
+      (direction: StreamMessage['direction']) => (frame: { payload: string | Buffer }) => {
+        if (!this.stopped) {
+          this.push({
+            direction,
+            data: frame.payload,
+            binary: typeof frame.payload !== 'string',
+            socket: socket.url(),
+            timestamp: new Date().toISOString()
+          });
+        }
+      };
+    this.sockets.push(socket.url());
+    socket.on('framesent', record('sent'));
+    socket.on('framereceived', record('received'));
+  };
+
+  /** URLs of the captured sockets */
+  readonly sockets: string[] = [];
+
+  /**
+   * @param filter Part of the socket URL, or a pattern it matches; all sockets when omitted
+   */
+  constructor(
+    private readonly page: Page,
+    private readonly filter?: string | RegExp
+  ) {
+    super(filter === undefined ? page.url() : String(filter));
+    page.on('websocket', this.onWebSocket);
+  }
+
+  /**
+   * Stop capturing; the transcript is kept and pending waits fail
+   */
+  stop(): void {
+    this.stopped = true;
+    this.page.off('websocket', this.onWebSocket);
+    this.end(new Error('WebSocket frame capture stopped'));
+  }
+
+  private matchesUrl(socketUrl: string): boolean {
+    if (this.filter === undefined) {
+      return true;
+    }
+    return typeof this.filter === 'string'
+      ? socketUrl.includes(this.filter)
+      : this.filter.test(socketUrl);
+  }
+}
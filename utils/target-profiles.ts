@@ -0,0 +1,92 @@
+import { ConfigLayer } from './config-loader';
+import { Environment } from './config-schema';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * A named deployment the suites can run against (regional stack, customer sandbox, ...)
+ */
+export interface TargetProfile {
+  name: string;
+  description?: string;
+  /** Environment whose config/<environment>.json applies to this target */
+  environment?: Environment;
+  baseUrl: string;
+  apiUrl: string;
+  /** Credentials file name inside data/, defaults to test-credentials.json */
+  credentialsFile?: string;
+  featureFlags?: Record<string, boolean>;
+  /** Only tests carrying at least one of these tags run against the target */
+  allowedTags?: string[];
+}
+
+export const DEFAULT_TARGETS_FILE = path.join(process.cwd(), 'config', 'targets.json');
+
+/**
+ * Load target profiles declared as `{ "<name>": { baseUrl, apiUrl, ... } }`
+ */
+export function loadTargetProfiles(
+  filePath: string = DEFAULT_TARGETS_FILE
+): Map<string, TargetProfile> {
+  const profiles = new Map<string, TargetProfile>();
+  if (!fs.existsSync(filePath)) {
+    return profiles;
+  }
+
+  let declared: Record<string, Omit<TargetProfile, 'name'>>;
+  try {
+    declared = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse target profiles ${filePath}: ${(error as Error).message}`);
+  }
+
+  for (const [name, profile] of Object.entries(declared)) {
+    profiles.set(name, { ...profile, name });
+  }
+  return profiles;
+}
+
+/**
+ * Missing or malformed fields of a profile, as human readable messages
+ */
+export function validateTargetProfile(profile: TargetProfile): string[] {
+  const problems: string[] = [];
+  for (const field of ['baseUrl', 'apiUrl'] as const) {
+    if (typeof profile[field] !== 'string' || profile[field] === '') {
+      problems.push(`${field} is required`);
+    }
+  }
+  if (profile.allowedTags !== undefined && !Array.isArray(profile.allowedTags)) {
+    problems.push('allowedTags must be an array of tags');
+  }
+  const credentials = profile.credentialsFile && path.join('data', profile.credentialsFile);
+  if (credentials && !fs.existsSync(path.join(process.cwd(), credentials))) {
+    problems.push(`credentialsFile ${credentials} does not exist`);
+  }
+  return problems;
+}
+
+/**
+ * Playwright grep pattern matching the profile's allowed tags, if it restricts them
+ */
+export function allowedTagsPattern(profile: TargetProfile | undefined): RegExp | undefined {
+  if (!profile?.allowedTags || profile.allowedTags.length === 0) {
+    return undefined;
+  }
+  const escaped = profile.allowedTags.map(tag => tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`(${escaped.join('|')})\\b`);
+}
+
+/**
+ * Configuration layer applying a profile's environment and URLs
+ */
+export function targetLayer(profile: TargetProfile, origin: string): ConfigLayer {
+  return {
+    name: 'target',
+    origin: `${origin}#${profile.name}`,
+    values: {
+      ...(profile.environment ? { environment: profile.environment } : {}),
+      urls: { base: profile.baseUrl, api: profile.apiUrl }
+    }
+  };
+}
@@ -4,6 +4,55 @@ import csv from 'csv-parser';
 import { faker } from '@faker-js/faker';
 import { logger } from './logger';
 
+export interface UserCredentials {
+  username: string;
+  password: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface TestUser extends UserCredentials {
+  id: string;
+  role: string;
+  active: boolean;
+}
+
+function seedValue(seed: string | number): number {
+  return typeof seed === 'number'
+    ? seed
+    : [...seed].reduce((hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) | 0, 0);
+}
+
+/**
+ * Random numbers in [0, 1) that repeat for the same seed (mulberry32), for behaviour
+ * that should vary between requests but not between runs
+ */
+export function seededRandom(seed: string | number): () => number {
+  let state = seedValue(seed) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shape of the credentials file (data/test-credentials.json or the target's own file)
+ */
+export interface TestCredentials {
+  validUser: UserCredentials;
+  adminUser: UserCredentials;
+  invalidUser: UserCredentials;
+  testUsers: TestUser[];
+  testData: {
+    searchTerms: string[];
+    productCategories: string[];
+    countries: string[];
+  };
+}
+
 /**
  * Test Data Management utility
  */
@@ -76,6 +125,14 @@ export class TestDataManager {
     logger.testData('Data set', { key, type: typeof value });
   }
 
+  /**
+   * Seed the fake data generators so the same seed yields the same data, e.g. for
+   * request bodies a cassette replays
+   */
+  static seed(seed: string | number): void {
+    faker.seed(seedValue(seed));
+  }
+
   /**
    * Generate fake user data
    */
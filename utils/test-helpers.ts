@@ -1,4 +1,6 @@
+import { HarReplay, HarReplayOptions } from './har';
 import { Page, expect } from '@playwright/test';
+import { REDACTED, SecretManager } from './secrets';
 import { logger } from './logger';
 
 /**
@@ -68,9 +70,13 @@ export class TestHelpers {
     page: Page, 
     selector: string, 
     text: string, 
-    options: { timeout?: number; validate?: boolean } = {}
+    options: { timeout?: number; validate?: boolean; sensitive?: boolean } = {}
   ): Promise<void> {
-    const { timeout = 10000, validate = true } = options;
+    const { timeout = 10000, validate = true, sensitive = false } = options;
+    const shown = sensitive ? REDACTED : text;
+    if (sensitive) {
+      SecretManager.registerValue(text);
+    }
     
     try {
       const element = page.locator(selector);
@@ -86,11 +92,12 @@ export class TestHelpers {
       if (validate) {
         const value = await element.inputValue();
         if (value !== text) {
-          throw new Error(`Text validation failed. Expected: "${text}", Actual: "${value}"`);
+          const actual = sensitive ? REDACTED : value;
+          throw new Error(`Text validation failed. Expected: "${shown}", Actual: "${actual}"`);
         }
       }
       
-      logger.debug(`Successfully typed into ${selector}: ${text}`);
+      logger.debug(`Successfully typed into ${selector}: ${shown}`);
     } catch (error) {
       logger.error(`Failed to type into ${selector}`, error as Error);
       throw error;
@@ -332,6 +339,25 @@ export class TestHelpers {
     }
   }
 
+  /**
+   * Serve responses recorded in a HAR file; requests it has no entry for are aborted (strict)
+   * or sent to the network (lenient) and listed in the returned replay's `unmatched`
+   */
+  static async mockFromHar(
+    page: Page,
+    harFile: string,
+    options: HarReplayOptions = {}
+  ): Promise<HarReplay> {
+    try {
+      const replay = await HarReplay.start(page, harFile, options);
+      logger.debug(`API responses mocked from HAR: ${harFile}`);
+      return replay;
+    } catch (error) {
+      logger.error(`Failed to mock API responses from HAR: ${harFile}`, error as Error);
+      throw error;
+    }
+  }
+
   /**
    * Block network requests by pattern
    */
@@ -0,0 +1,338 @@
+import { REDACTED, SecretManager } from './secrets';
+import { VcrConfig, VcrMode } from './config-schema';
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig
+} from 'axios';
+import { config } from './config';
+import { deepEqual } from './json-schema';
+import fs from 'fs';
+import { logger } from './logger';
+import path from 'path';
+
+export interface RecordedRequest {
+  method: string;
+  /** Path below the client's base URL, so a cassette replays against any target */
+  path: string;
+  query: Record<string, string | string[]>;
+  /** Only the headers listed in matchHeaders */
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string | string[]>;
+  /** Parsed JSON, text, or base64 for binary bodies */
+  body: unknown;
+  encoding: 'json' | 'text' | 'base64';
+}
+
+/**
+ * A request and what came back: a response, or an error without one such as a timeout
+ */
+export interface Interaction {
+  request: RecordedRequest;
+  response?: RecordedResponse;
+  error?: { code: string | undefined; message: string };
+}
+
+export interface CassetteFile {
+  name: string;
+  recordedAt: string;
+  interactions: Interaction[];
+}
+
+export type CassetteOptions = Omit<VcrConfig, 'cassetteDir'>;
+
+/**
+ * Raised in replay mode when the cassette has no interaction for a request
+ */
+export class VcrError extends Error {
+  constructor(
+    message: string,
+    public readonly request: RecordedRequest
+  ) {
+    super(message);
+    this.name = 'VcrError';
+  }
+}
+
+/**
+ * Mask sensitive headers entirely; other values only where they contain a known secret
+ */
+function scrubHeaders(headers: Record<string, unknown>): Record<string, string | string[]> {
+  const scrubbed: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const values = Array.isArray(value) ? value.map(String) : String(value);
+    scrubbed[name.toLowerCase()] = SecretManager.isSensitiveKey(name)
+      ? REDACTED
+      : SecretManager.redact(values);
+  }
+  return scrubbed;
+}
+
+export function parseBody(raw: unknown): unknown {
+  if (typeof raw !== 'string') {
+    return raw === undefined || raw === null ? undefined : '[binary]';
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * `<dir>/<spec>/<describe--test>.<ext>`, the file a test's recording is kept in; tags are left
+ * out so retagging a test keeps its recording
+ */
+export function testFilePath(
+  testInfo: { file: string; titlePath: string[]; config: { rootDir: string } },
+  dir: string,
+  extension: string
+): string {
+  const slug = (text: string) =>
+    text
+      .replace(/(^|\s)@[\w-]+/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+  const spec = path.relative(testInfo.config.rootDir, testInfo.file).replace(/\.[jt]s$/, '');
+  const name = testInfo.titlePath.slice(1).map(slug).join('--');
+  return path.resolve(dir, spec, `${name}${extension}`);
+}
+
+/**
+ * Cassette-friendly form of an outgoing request, scrubbed like it will be stored
+ */
+export function describeRequest(
+  request: InternalAxiosRequestConfig,
+  headerNames: string[]
+): RecordedRequest {
+  const url = new URL(axios.getUri(request), 'http://localhost');
+  const basePath = request.baseURL ? new URL(request.baseURL, 'http://localhost').pathname : '';
+  const prefix = basePath.replace(/\/$/, '');
+  const pathname =
+    prefix && url.pathname.startsWith(prefix) ? url.pathname.slice(prefix.length) : url.pathname;
+
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(url.searchParams.keys())) {
+    const values = url.searchParams.getAll(key);
+    query[key] = values.length === 1 ? (values[0] as string) : values;
+  }
+  const headers: Record<string, string> = {};
+  for (const name of headerNames) {
+    const value = request.headers.get(name);
+    if (value !== undefined && value !== null && value !== false) {
+      headers[name.toLowerCase()] = String(value);
+    }
+  }
+
+  return {
+    method: (request.method ?? 'get').toUpperCase(),
+    path: pathname || '/',
+    query: SecretManager.redact(query),
+    headers: scrubHeaders(headers) as Record<string, string>,
+    body: SecretManager.redact(parseBody(request.data))
+  };
+}
+
+function recordResponse(response: AxiosResponse): RecordedResponse {
+  const raw: unknown = response.data;
+  const headers = scrubHeaders(
+    response.headers instanceof AxiosHeaders ? response.headers.toJSON() : response.headers
+  );
+  const base = { status: response.status, statusText: response.statusText, headers };
+  if (Buffer.isBuffer(raw) || raw instanceof ArrayBuffer) {
+    const body = Buffer.from(raw as ArrayBuffer).toString('base64');
+    return { ...base, body, encoding: 'base64' };
+  }
+  const body = parseBody(raw);
+  return typeof body === 'string' || body === undefined
+    ? { ...base, body: body ?? '', encoding: 'text' }
+    : { ...base, body: SecretManager.redact(body), encoding: 'json' };
+}
+
+/**
+ * Rebuild the raw response an adapter would have produced, rejecting like axios does
+ * for statuses outside validateStatus
+ */
+function replayResponse(
+  request: InternalAxiosRequestConfig,
+  recorded: RecordedResponse
+): AxiosResponse {
+  const data =
+    recorded.encoding === 'base64'
+      ? Buffer.from(recorded.body as string, 'base64')
+      : recorded.encoding === 'json'
+        ? JSON.stringify(recorded.body)
+        : recorded.body;
+  const response: AxiosResponse = {
+    data,
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: new AxiosHeaders({ ...recorded.headers, 'x-vcr': 'replay' }),
+    config: request,
+    request: {}
+  };
+  if (!request.validateStatus || request.validateStatus(recorded.status)) {
+    return response;
+  }
+  throw new AxiosError(
+    `Request failed with status code ${recorded.status}`,
+    recorded.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    request,
+    response.request,
+    response
+  );
+}
+
+function summarize(request: RecordedRequest): string {
+  const query = new URLSearchParams(
+    Object.entries(request.query).flatMap(([key, values]) =>
+      (Array.isArray(values) ? values : [values]).map(value => [key, value])
+    )
+  ).toString();
+  return `${request.method} ${request.path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Recorded HTTP interactions of one test. In record mode ApiClient requests go to the
+ * server and are appended; in replay mode they are answered from the file, identical
+ * requests in the order they were recorded (the last one repeats once all are used).
+ */
+export class Cassette {
+  private readonly interactions: Interaction[];
+  private readonly used = new Set<number>();
+
+  constructor(
+    readonly file: string,
+    private readonly options: CassetteOptions
+  ) {
+    this.interactions = options.mode === 'replay' ? Cassette.read(file).interactions : [];
+  }
+
+  /**
+   * Cassette of the running test per `api.vcr`, or undefined in passthrough mode.
+   * Files are named after the spec and title path without tags, e.g.
+   * tests/cassettes/api/api.spec/user-api--should-get-users-list.json
+   */
+  static forTest(
+    testInfo: { file: string; titlePath: string[]; config: { rootDir: string } },
+    vcr: VcrConfig = config.getApiConfig().vcr
+  ): Cassette | undefined {
+    if (vcr.mode === 'passthrough') {
+      return undefined;
+    }
+    const { cassetteDir, ...options } = vcr;
+    return new Cassette(testFilePath(testInfo, cassetteDir, '.json'), options);
+  }
+
+  private static read(file: string): CassetteFile {
+    if (!fs.existsSync(file)) {
+      return { name: path.basename(file, '.json'), recordedAt: '', interactions: [] };
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as CassetteFile;
+  }
+
+  get mode(): VcrMode {
+    return this.options.mode;
+  }
+
+  get name(): string {
+    return path.basename(this.file, '.json');
+  }
+
+  /**
+   * Adapter serving a request through this cassette; `send` performs real requests
+   */
+  adapter(send: AxiosAdapter): AxiosAdapter {
+    if (this.options.mode === 'replay') {
+      return async request => this.replay(request);
+    }
+    if (this.options.mode === 'passthrough') {
+      return send;
+    }
+    return async request => {
+      const recorded = describeRequest(request, this.options.matchHeaders);
+      try {
+        const response = await send(request);
+        this.interactions.push({ request: recorded, response: recordResponse(response) });
+        return response;
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response) {
+          this.interactions.push({ request: recorded, response: recordResponse(error.response) });
+        } else if (axios.isAxiosError(error)) {
+          this.interactions.push({
+            request: recorded,
+            error: { code: error.code, message: error.message }
+          });
+        }
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Write the recorded interactions (record mode only)
+   */
+  save(): void {
+    if (this.options.mode !== 'record') {
+      return;
+    }
+    const cassette: CassetteFile = {
+      name: this.name,
+      recordedAt: new Date().toISOString(),
+      interactions: this.interactions
+    };
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, `${JSON.stringify(cassette, null, 2)}\n`);
+    logger.info(`Cassette recorded: ${path.relative(process.cwd(), this.file)}`, {
+      interactions: this.interactions.length
+    });
+  }
+
+  private matches(recorded: RecordedRequest, request: RecordedRequest): boolean {
+    const { matchQuery, matchBody, matchHeaders } = this.options;
+    return (
+      recorded.method === request.method &&
+      recorded.path === request.path &&
+      (!matchQuery || deepEqual(recorded.query, request.query)) &&
+      (!matchBody || deepEqual(recorded.body, request.body)) &&
+      matchHeaders.every(
+        name => recorded.headers[name.toLowerCase()] === request.headers[name.toLowerCase()]
+      )
+    );
+  }
+
+  private async replay(request: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const described = describeRequest(request, this.options.matchHeaders);
+    const candidates = this.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction }) => this.matches(interaction.request, described));
+    const next =
+      candidates.find(({ index }) => !this.used.has(index)) ?? candidates[candidates.length - 1];
+    if (!next) {
+      throw new VcrError(
+        `No recorded interaction for ${summarize(described)} in cassette ` +
+          `${path.relative(process.cwd(), this.file)}; record it with API_VCR=record`,
+        described
+      );
+    }
+    this.used.add(next.index);
+
+    const { response, error } = next.interaction;
+    if (!response) {
+      throw new AxiosError(error?.message ?? 'Recorded network error', error?.code, request);
+    }
+    return replayResponse(request, response);
+  }
+}